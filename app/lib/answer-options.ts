@@ -0,0 +1,14 @@
+// Visual identity of the answer options, shared by the host presentation and the player controller
+// so option N has the same color and shape on the projector and on every phone.
+export const ANSWER_OPTION_STYLES = [
+  { shape: '▲', button: 'bg-red-600 hover:bg-red-700', bar: 'bg-red-600' },
+  { shape: '◆', button: 'bg-blue-600 hover:bg-blue-700', bar: 'bg-blue-600' },
+  { shape: '●', button: 'bg-yellow-500 hover:bg-yellow-600', bar: 'bg-yellow-500' },
+  { shape: '■', button: 'bg-green-600 hover:bg-green-700', bar: 'bg-green-600' },
+  { shape: '★', button: 'bg-purple-600 hover:bg-purple-700', bar: 'bg-purple-600' },
+  { shape: '⬟', button: 'bg-orange-500 hover:bg-orange-600', bar: 'bg-orange-500' },
+];
+
+export function getAnswerOptionStyle(index: number) {
+  return ANSWER_OPTION_STYLES[index % ANSWER_OPTION_STYLES.length];
+}
@@ -0,0 +1,435 @@
+// Shared WebSocket protocol between the game server (server/game-socket-handler.ts)
+// and the host/player routes. Every message is JSON of the form { type, payload }.
+
+// Bump when a message shape changes incompatibly; clients send it in HOST_JOIN / PLAYER_IDENTIFY / PLAYER_RESUME
+export const PROTOCOL_VERSION = 2;
+
+// Close code for a session that was taken over by a newer connection of the same host/player
+export const CLOSE_CODE_REPLACED = 4000;
+// Close code for a player the host removed from the game
+export const CLOSE_CODE_KICKED = 4001;
+// Clients do not reconnect after these: normal close (game over), protocol error, policy violation, replaced, kicked
+export const NO_RECONNECT_CLOSE_CODES = [1000, 1002, 1008, CLOSE_CODE_REPLACED, CLOSE_CODE_KICKED];
+
+// Upper bound for a game's max player count
+export const MAX_PLAYERS_LIMIT = 500;
+// Team mode limits
+export const MAX_TEAMS = 8;
+export const MAX_TEAM_NAME_LENGTH = 20;
+// Longest typed answer a player can submit
+export const MAX_TYPED_ANSWER_LENGTH = 100;
+// Ungraded slides: word cloud entries are short, open text leaves room for a sentence or two
+export const MAX_WORD_CLOUD_LENGTH = 30;
+export const MAX_OPEN_TEXT_LENGTH = 500;
+// Rating scales run from 1 to a scale between these bounds
+export const MIN_RATING_SCALE = 3;
+export const MAX_RATING_SCALE = 10;
+
+export type GamePhase = 'lobby' | 'question' | 'reveal' | 'leaderboard' | 'ended';
+
+// --- Shared payload types ---
+
+export interface PlayerSummary {
+  id: string;
+  nickname: string;
+  score: number;
+}
+
+// Entry in PLAYER_LIST_UPDATE, with presence so the host can tell who is still online
+export interface PlayerListEntry extends PlayerSummary {
+  connected: boolean; // Has an open WebSocket
+  idle: boolean; // Connected but not answering heartbeats (e.g. phone locked); dropped if it stays that way
+  teamId: string | null; // Only set in team mode
+}
+
+export interface LeaderboardEntry extends PlayerSummary {
+  rank: number; // 1-based; equal scores share a rank
+}
+
+// How member scores add up to a team score; 'average' keeps small teams competitive
+export type TeamScoring = 'sum' | 'average';
+
+export interface TeamSettings {
+  enabled: boolean;
+  scoring: TeamScoring;
+  playersChoose: boolean; // Players pick a team in the lobby; otherwise the host (or auto-balance) assigns them
+}
+
+export interface TeamEntry {
+  id: string;
+  name: string;
+  playerIds: string[];
+}
+
+export interface TeamLeaderboardEntry {
+  id: string;
+  name: string;
+  score: number;
+  memberCount: number;
+  rank: number; // 1-based; equal scores share a rank
+}
+
+export type QuestionType =
+  | 'multiple_choice'
+  | 'true_false'
+  | 'multi_select'
+  | 'numeric'
+  | 'typed_answer'
+  | 'ordering'
+  | 'matching'
+  // Ungraded slides: no right answer, no points
+  | 'poll'
+  | 'multi_poll'
+  | 'word_cloud'
+  | 'rating'
+  | 'open_text';
+
+// A player's answer; its type must match the question's
+export type SubmittedAnswer =
+  | { type: 'multiple_choice' | 'true_false'; optionIndex: number }
+  | { type: 'multi_select'; optionIndexes: number[] }
+  | { type: 'numeric'; value: number }
+  | { type: 'typed_answer'; text: string }
+  | { type: 'ordering'; order: number[] } // Option indexes, first to last
+  | { type: 'matching'; matches: number[] } // matches[i] is the matchTargets index paired with options[i]
+  | { type: 'poll'; optionIndex: number }
+  | { type: 'multi_poll'; optionIndexes: number[] }
+  | { type: 'word_cloud' | 'open_text'; text: string }
+  | { type: 'rating'; value: number }; // 1..ratingScale
+
+// The solution of a question, only sent once it has been revealed; ungraded slides have none
+export type CorrectAnswer =
+  | { type: 'multiple_choice' | 'true_false'; optionIndex: number }
+  | { type: 'multi_select'; optionIndexes: number[] } // Partial credit for each correct pick, minus wrong picks
+  | { type: 'numeric'; value: number; tolerance: number } // Anything within value ± tolerance is correct
+  | { type: 'typed_answer'; acceptedAnswers: string[] } // Compared ignoring case and whitespace
+  | { type: 'ordering'; order: number[] } // Partial credit for pairs of items in the right relative order
+  | { type: 'matching'; matches: number[] }; // Partial credit for each correct pair
+
+export type MediaKind = 'image' | 'audio' | 'video';
+
+// Image, audio or video attached to a question or an option; the file is served from /media/<key>
+export interface QuestionMedia {
+  kind: MediaKind;
+  key: string; // Media store key
+  alt?: string; // Image description for screen readers
+  startSeconds?: number; // Audio/video only: play the clip from here...
+  endSeconds?: number; // ...up to here
+}
+
+// Question as sent to clients; the correct answer never leaves the server while it is open
+export interface QuestionPayload {
+  index: number;
+  totalQuestions: number;
+  type: QuestionType;
+  text: string;
+  options: string[]; // Empty for numeric and typed answers; shuffled for ordering questions
+  matchTargets: string[]; // Right-hand column of matching questions, shuffled; empty for other types
+  ratingScale: number | null; // Highest rating of rating slides, null for other types
+  media: QuestionMedia | null;
+  optionMedia: (QuestionMedia | null)[]; // Parallel to options; empty if no option has media
+  timeLimit: number; // Seconds
+  deadline: number | null; // Epoch ms on the server clock
+  serverTime: number;
+}
+
+export interface AnswerResultPayload {
+  questionIndex: number;
+  answered: boolean;
+  correct: boolean;
+  pointsEarned: number;
+  totalScore: number;
+  rank: number | null;
+  previousRank: number | null;
+  totalPlayers: number;
+}
+
+// Everything a (re)connecting player needs to render the current screen
+export interface StateSnapshotPayload {
+  phase: GamePhase;
+  question: QuestionPayload | null; // Current (or just closed) question, null in the lobby
+  score: number;
+  answer: SubmittedAnswer | null; // This player's answer to the current question, if any
+  correctAnswer: CorrectAnswer | null; // Only once the question has been revealed
+  answerResult: AnswerResultPayload | null; // Only once the question has been revealed
+  leaderboard: LeaderboardEntry[] | null; // Only in the leaderboard and ended phases
+  teamLeaderboard: TeamLeaderboardEntry[] | null; // Like leaderboard, and only in team mode
+  hostPaused: boolean;
+}
+
+export interface LobbySettings {
+  locked: boolean; // No new players can join
+  maxPlayers: number | null; // null means no limit
+  nicknameApproval: boolean; // New nicknames wait in the host's approval queue
+  randomNicknames: boolean; // Players get a generated nickname instead of choosing one
+}
+
+// Settings of a new game (matches the column defaults in the games table)
+export const DEFAULT_LOBBY_SETTINGS: LobbySettings = { locked: false, maxPlayers: null, nicknameApproval: false, randomNicknames: false };
+export const DEFAULT_TEAM_SETTINGS: TeamSettings = { enabled: false, scoring: 'sum', playersChoose: true };
+
+export interface AnswerDistributionPayload {
+  questionIndex: number;
+  counts: number[]; // Players per option (per rating 1..ratingScale on rating slides); empty for free answers
+  responses: { answer: string; count: number; correct: boolean }[]; // Most common free answers (numeric, typed, word cloud, ...)
+  correctAnswer: CorrectAnswer | null;
+  correctCount: number; // Fully correct answers
+  totalPlayers: number;
+}
+
+// --- Client -> server ---
+
+export type ClientMessage =
+  | { type: 'HOST_JOIN'; payload: { protocolVersion: number; gameId: string; gamePin: string } }
+  | { type: 'PLAYER_IDENTIFY'; payload: { protocolVersion: number; gameId: string; playerId: string; nickname: string } }
+  | { type: 'PLAYER_RESUME'; payload: { protocolVersion: number; resumeToken: string } }
+  | { type: 'START_GAME' }
+  | { type: 'REVEAL_ANSWER' }
+  | { type: 'SHOW_LEADERBOARD' }
+  | { type: 'NEXT_QUESTION' }
+  | { type: 'END_GAME' }
+  | { type: 'ADMIN_UPDATE_SHARED_STATE'; payload: { newState: number } }
+  | { type: 'KICK_PLAYER'; payload: { playerId: string; ban: boolean } }
+  | { type: 'UPDATE_LOBBY_SETTINGS'; payload: LobbySettings }
+  | { type: 'REVIEW_NICKNAME'; payload: { playerId: string; approve: boolean } }
+  | { type: 'UPDATE_TEAM_SETTINGS'; payload: TeamSettings }
+  | { type: 'SET_TEAMS'; payload: { names: string[] } } // Replaces all teams of the game
+  | { type: 'ASSIGN_TEAM'; payload: { playerId: string; teamId: string | null } }
+  | { type: 'AUTO_BALANCE_TEAMS' }
+  | { type: 'CHOOSE_TEAM'; payload: { teamId: string } } // Player
+  | { type: 'SUBMIT_ANSWER'; payload: { questionIndex: number; answer: SubmittedAnswer } };
+
+// --- Server -> client ---
+
+export type ServerMessage =
+  | { type: 'IDENTIFY_SUCCESS'; payload: { message: string; resumeToken: string } }
+  | { type: 'STATE_SNAPSHOT'; payload: StateSnapshotPayload }
+  | { type: 'PLAYER_LIST_UPDATE'; payload: { players: PlayerListEntry[] } }
+  | { type: 'SHARED_STATE_UPDATE'; payload: { newState: number } }
+  | { type: 'PHASE_CHANGED'; payload: { phase: GamePhase; questionIndex: number } }
+  | { type: 'GAME_STARTED' }
+  | { type: 'SHOW_QUESTION'; payload: QuestionPayload }
+  | { type: 'TIMER_SYNC'; payload: { questionIndex: number; deadline: number; serverTime: number } }
+  | { type: 'ANSWER_PROGRESS'; payload: { questionIndex: number; answered: number; total: number } }
+  | { type: 'ANSWER_RECEIVED'; payload: { questionIndex: number } }
+  | { type: 'QUESTION_RESULTS'; payload: { questionIndex: number; correctAnswer: CorrectAnswer | null; answerCount: number } }
+  | { type: 'ANSWER_RESULT'; payload: AnswerResultPayload }
+  | { type: 'ANSWER_DISTRIBUTION'; payload: AnswerDistributionPayload }
+  | { type: 'SHOW_LEADERBOARD'; payload: { questionIndex: number; leaderboard: LeaderboardEntry[]; teamLeaderboard: TeamLeaderboardEntry[] | null } }
+  | { type: 'GAME_ENDED'; payload: { message: string; leaderboard: LeaderboardEntry[]; teamLeaderboard: TeamLeaderboardEntry[] | null } }
+  | { type: 'TEAMS_UPDATE'; payload: { settings: TeamSettings; teams: TeamEntry[] } }
+  | { type: 'HOST_DISCONNECTED'; payload: { message: string; reconnectDeadline: number; serverTime: number } }
+  | { type: 'HOST_RECONNECTED'; payload: { phase: GamePhase; questionIndex: number } }
+  | { type: 'LOBBY_SETTINGS_UPDATE'; payload: LobbySettings }
+  | { type: 'KICKED'; payload: { message: string; banned: boolean } }
+  | { type: 'NICKNAME_PENDING'; payload: { message: string } }
+  | { type: 'NICKNAME_QUEUE_UPDATE'; payload: { players: PlayerListEntry[] } } // Host only
+  | { type: 'ERROR'; payload: ProtocolError };
+
+// --- Errors ---
+
+// Machine-readable reason for an ERROR message; `message` is for display/logging only
+export type ProtocolErrorCode =
+  | 'INVALID_MESSAGE' // Not JSON, or the payload does not match the message type
+  | 'UNKNOWN_MESSAGE_TYPE'
+  | 'UNSUPPORTED_PROTOCOL_VERSION'
+  | 'NOT_IDENTIFIED' // Command sent before HOST_JOIN / PLAYER_IDENTIFY
+  | 'NOT_AUTHORIZED' // Wrong role or not the owner of the game/player
+  | 'ALREADY_CONNECTED' // Socket or game already bound to another client
+  | 'GAME_NOT_FOUND'
+  | 'PLAYER_NOT_FOUND'
+  | 'TEAM_NOT_FOUND'
+  | 'NO_TEAMS' // Team mode is on but the host has not created teams
+  | 'RESUME_FAILED' // Unknown or expired resume token; identify again with PLAYER_IDENTIFY
+  | 'NO_QUESTIONS'
+  | 'INVALID_TRANSITION'
+  | 'GAME_PAUSED'
+  | 'ANSWER_CLOSED'
+  | 'DUPLICATE_ANSWER'
+  | 'INVALID_ANSWER'
+  | 'INTERNAL_ERROR';
+
+export interface ProtocolError {
+  code: ProtocolErrorCode;
+  message: string;
+}
+
+export type ParseResult<T> = { ok: true; message: T } | { ok: false; error: ProtocolError };
+
+// --- Validation ---
+
+type ClientMessageType = ClientMessage['type'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+// Shape of SUBMIT_ANSWER's answer; whether it fits the question (type, option count) is checked by the server
+function getSubmittedAnswerProblem(answer: Record<string, unknown>): string | null {
+  switch (answer.type) {
+    case 'multiple_choice':
+    case 'true_false':
+    case 'poll':
+      return isNonNegativeInteger(answer.optionIndex) ? null : 'optionIndex must be a non-negative integer.';
+    case 'multi_select':
+    case 'multi_poll': {
+      const indexes = answer.optionIndexes;
+      if (!Array.isArray(indexes) || indexes.length === 0 || !indexes.every(isNonNegativeInteger)) {
+        return 'optionIndexes must be a non-empty list of non-negative integers.';
+      }
+      return new Set(indexes).size === indexes.length ? null : 'optionIndexes must not repeat.';
+    }
+    case 'numeric':
+      return Number.isFinite(answer.value) ? null : 'value must be a number.';
+    case 'typed_answer':
+      if (typeof answer.text !== 'string' || answer.text.trim().length === 0 || answer.text.length > MAX_TYPED_ANSWER_LENGTH) {
+        return `text must be between 1 and ${MAX_TYPED_ANSWER_LENGTH} characters.`;
+      }
+      return null;
+    case 'word_cloud':
+    case 'open_text': {
+      const maxLength = answer.type === 'word_cloud' ? MAX_WORD_CLOUD_LENGTH : MAX_OPEN_TEXT_LENGTH;
+      if (typeof answer.text !== 'string' || answer.text.trim().length === 0 || answer.text.length > maxLength) {
+        return `text must be between 1 and ${maxLength} characters.`;
+      }
+      return null;
+    }
+    case 'rating':
+      return Number.isInteger(answer.value) && (answer.value as number) >= 1 ? null : 'value must be a whole number from 1.';
+    case 'ordering':
+    case 'matching': {
+      const indexes = answer.type === 'ordering' ? answer.order : answer.matches;
+      if (!Array.isArray(indexes) || indexes.length === 0 || !indexes.every(isNonNegativeInteger)) {
+        return `${answer.type === 'ordering' ? 'order' : 'matches'} must be a non-empty list of non-negative integers.`;
+      }
+      return new Set(indexes).size === indexes.length ? null : 'Each item can only be used once.';
+    }
+    default:
+      return 'Unknown answer type.';
+  }
+}
+
+// Returns the first problem with a payload, or null if it is valid for the message type
+const PAYLOAD_VALIDATORS: Record<ClientMessageType, (payload: Record<string, unknown>) => string | null> = {
+  HOST_JOIN: (p) => {
+    if (!isNonEmptyString(p.gameId) || !isNonEmptyString(p.gamePin)) return 'HOST_JOIN requires gameId and gamePin.';
+    return null;
+  },
+  PLAYER_IDENTIFY: (p) => {
+    if (!isNonEmptyString(p.gameId) || !isNonEmptyString(p.playerId) || !isNonEmptyString(p.nickname)) {
+      return 'PLAYER_IDENTIFY requires gameId, playerId and nickname.';
+    }
+    return null;
+  },
+  PLAYER_RESUME: (p) => (isNonEmptyString(p.resumeToken) ? null : 'PLAYER_RESUME requires a resumeToken.'),
+  START_GAME: () => null,
+  REVEAL_ANSWER: () => null,
+  SHOW_LEADERBOARD: () => null,
+  NEXT_QUESTION: () => null,
+  END_GAME: () => null,
+  ADMIN_UPDATE_SHARED_STATE: (p) => (Number.isFinite(p.newState) ? null : 'newState must be a number.'),
+  KICK_PLAYER: (p) => {
+    if (!isNonEmptyString(p.playerId)) return 'KICK_PLAYER requires a playerId.';
+    if (typeof p.ban !== 'boolean') return 'ban must be a boolean.';
+    return null;
+  },
+  UPDATE_LOBBY_SETTINGS: (p) => {
+    if (typeof p.locked !== 'boolean') return 'locked must be a boolean.';
+    if (typeof p.nicknameApproval !== 'boolean') return 'nicknameApproval must be a boolean.';
+    if (typeof p.randomNicknames !== 'boolean') return 'randomNicknames must be a boolean.';
+    if (p.maxPlayers !== null && !(Number.isInteger(p.maxPlayers) && (p.maxPlayers as number) >= 1 && (p.maxPlayers as number) <= MAX_PLAYERS_LIMIT)) {
+      return `maxPlayers must be null or a whole number between 1 and ${MAX_PLAYERS_LIMIT}.`;
+    }
+    return null;
+  },
+  UPDATE_TEAM_SETTINGS: (p) => {
+    if (typeof p.enabled !== 'boolean' || typeof p.playersChoose !== 'boolean') return 'enabled and playersChoose must be booleans.';
+    if (p.scoring !== 'sum' && p.scoring !== 'average') return "scoring must be 'sum' or 'average'.";
+    return null;
+  },
+  SET_TEAMS: (p) => {
+    if (!Array.isArray(p.names) || p.names.length < 2 || p.names.length > MAX_TEAMS) return `Between 2 and ${MAX_TEAMS} teams are required.`;
+    const names = p.names.map((name) => (typeof name === 'string' ? name.trim() : ''));
+    if (names.some((name) => name.length === 0 || name.length > MAX_TEAM_NAME_LENGTH)) {
+      return `Team names must be between 1 and ${MAX_TEAM_NAME_LENGTH} characters.`;
+    }
+    if (new Set(names.map((name) => name.toLowerCase())).size !== names.length) return 'Team names must be unique.';
+    return null;
+  },
+  ASSIGN_TEAM: (p) => {
+    if (!isNonEmptyString(p.playerId)) return 'ASSIGN_TEAM requires a playerId.';
+    if (p.teamId !== null && !isNonEmptyString(p.teamId)) return 'teamId must be a team id or null.';
+    return null;
+  },
+  AUTO_BALANCE_TEAMS: () => null,
+  CHOOSE_TEAM: (p) => (isNonEmptyString(p.teamId) ? null : 'CHOOSE_TEAM requires a teamId.'),
+  REVIEW_NICKNAME: (p) => {
+    if (!isNonEmptyString(p.playerId)) return 'REVIEW_NICKNAME requires a playerId.';
+    if (typeof p.approve !== 'boolean') return 'approve must be a boolean.';
+    return null;
+  },
+  SUBMIT_ANSWER: (p) => {
+    if (!isNonNegativeInteger(p.questionIndex)) return 'questionIndex must be a non-negative integer.';
+    return isObject(p.answer) ? getSubmittedAnswerProblem(p.answer) : 'SUBMIT_ANSWER requires an answer.';
+  },
+};
+
+// Messages that open a session and must carry a compatible protocol version
+const HANDSHAKE_TYPES: ClientMessageType[] = ['HOST_JOIN', 'PLAYER_IDENTIFY', 'PLAYER_RESUME'];
+
+// Parse and validate a raw client frame. Never throws.
+export function parseClientMessage(raw: string): ParseResult<ClientMessage> {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: { code: 'INVALID_MESSAGE', message: 'Message is not valid JSON.' } };
+  }
+  if (!isObject(data) || typeof data.type !== 'string') {
+    return { ok: false, error: { code: 'INVALID_MESSAGE', message: 'Message must be an object with a string type.' } };
+  }
+
+  const type = data.type as ClientMessageType;
+  const validate = Object.prototype.hasOwnProperty.call(PAYLOAD_VALIDATORS, type) ? PAYLOAD_VALIDATORS[type] : undefined;
+  if (!validate) {
+    return { ok: false, error: { code: 'UNKNOWN_MESSAGE_TYPE', message: `Unknown message type '${data.type}'.` } };
+  }
+
+  const payload = isObject(data.payload) ? data.payload : {};
+  if (HANDSHAKE_TYPES.includes(type) && payload.protocolVersion !== PROTOCOL_VERSION) {
+    return {
+      ok: false,
+      error: {
+        code: 'UNSUPPORTED_PROTOCOL_VERSION',
+        message: `Protocol version ${String(payload.protocolVersion)} is not supported (server speaks ${PROTOCOL_VERSION}). Please reload the page.`,
+      },
+    };
+  }
+  const problem = validate(payload);
+  if (problem) {
+    return { ok: false, error: { code: 'INVALID_MESSAGE', message: problem } };
+  }
+  return { ok: true, message: { type, payload } as ClientMessage };
+}
+
+// Parse a server frame on the client. Server messages are trusted, so only the envelope is checked.
+export function parseServerMessage(raw: string): ServerMessage | null {
+  try {
+    const data: unknown = JSON.parse(raw);
+    return isObject(data) && typeof data.type === 'string' ? (data as ServerMessage) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function encodeMessage(message: ClientMessage | ServerMessage): string {
+  return JSON.stringify(message);
+}
@@ -0,0 +1,131 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import * as path from 'path';
+import { createClient } from '@supabase/supabase-js';
+import type { QuestionMedia } from './game-protocol';
+import { MAX_MEDIA_BYTES, MEDIA_TYPES, getMediaContentType, isMediaKey } from './question-media';
+
+// Where uploaded question media is kept. MEDIA_STORE=local (the default) writes files to MEDIA_DIR
+// on this machine; MEDIA_STORE=supabase keeps them in a Supabase Storage bucket, which is what you
+// want with several server processes. Either way files are served through the /media/* route.
+
+export interface StoredMedia {
+  data: Uint8Array;
+  contentType: string;
+}
+
+export interface MediaStore {
+  save(key: string, data: Uint8Array, contentType: string): Promise<void>;
+  load(key: string): Promise<StoredMedia | null>; // null if there is no such file
+  remove(keys: string[]): Promise<void>;
+}
+
+const DEFAULT_MEDIA_DIR = 'media-uploads';
+const DEFAULT_MEDIA_BUCKET = 'question-media';
+
+// Files in a local directory; the content type follows from the key's extension
+export function createLocalMediaStore(directory: string): MediaStore {
+  // Keys are checked before they touch the file system, so a crafted key cannot escape the directory
+  const getPath = (key: string) => {
+    if (!isMediaKey(key)) throw new Error(`Invalid media key: ${key}`);
+    return path.join(directory, key);
+  };
+  return {
+    async save(key, data) {
+      await mkdir(directory, { recursive: true });
+      await writeFile(getPath(key), data);
+    },
+    async load(key) {
+      const contentType = getMediaContentType(key);
+      if (!isMediaKey(key) || !contentType) return null;
+      try {
+        return { data: await readFile(getPath(key)), contentType };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    async remove(keys) {
+      await Promise.all(keys.filter(isMediaKey).map((key) => rm(getPath(key), { force: true })));
+    },
+  };
+}
+
+// Files in a (private) Supabase Storage bucket, accessed with the service role key
+export function createSupabaseMediaStore(bucketName: string): MediaStore {
+  const supabaseUrl = process.env.VITE_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('MEDIA_STORE=supabase requires VITE_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to be set.');
+  }
+  const bucket = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false, detectSessionInUrl: false },
+  }).storage.from(bucketName);
+  return {
+    async save(key, data, contentType) {
+      const { error } = await bucket.upload(key, data, { contentType, upsert: false });
+      if (error) throw error;
+    },
+    async load(key) {
+      if (!isMediaKey(key)) return null;
+      const { data, error } = await bucket.download(key);
+      if (error || !data) {
+        console.warn(`[media-store] Could not download ${key} from bucket ${bucketName}:`, error);
+        return null;
+      }
+      return { data: new Uint8Array(await data.arrayBuffer()), contentType: getMediaContentType(key) ?? data.type };
+    },
+    async remove(keys) {
+      if (keys.length === 0) return;
+      const { error } = await bucket.remove(keys);
+      if (error) throw error;
+    },
+  };
+}
+
+let mediaStore: MediaStore | null = null;
+
+export function getMediaStore(): MediaStore {
+  if (mediaStore) return mediaStore;
+  const kind = process.env.MEDIA_STORE ?? 'local';
+  if (kind === 'supabase') {
+    const bucketName = process.env.MEDIA_BUCKET ?? DEFAULT_MEDIA_BUCKET;
+    console.log(`🖼️ Using Supabase Storage bucket '${bucketName}' for question media.`);
+    mediaStore = createSupabaseMediaStore(bucketName);
+  } else {
+    if (kind !== 'local') {
+      console.warn(`🖼️ Unknown MEDIA_STORE '${kind}', falling back to the local media store.`);
+    }
+    const directory = path.resolve(process.env.MEDIA_DIR ?? DEFAULT_MEDIA_DIR);
+    console.log(`🖼️ Storing question media in ${directory}.`);
+    mediaStore = createLocalMediaStore(directory);
+  }
+  return mediaStore;
+}
+
+/**
+ * Checks and stores a file uploaded from the quiz editor.
+ */
+export async function saveUploadedMedia(file: File): Promise<{ media: QuestionMedia } | { error: string }> {
+  const type = MEDIA_TYPES[file.type];
+  if (!type) {
+    return { error: `${file.name} is not a supported image, audio or video file.` };
+  }
+  if (file.size > MAX_MEDIA_BYTES) {
+    return { error: `${file.name} is larger than ${MAX_MEDIA_BYTES / 1024 / 1024} MB.` };
+  }
+  const key = `${crypto.randomUUID()}.${type.extension}`;
+  await getMediaStore().save(key, new Uint8Array(await file.arrayBuffer()), file.type);
+  console.log(`[media-store] Saved ${file.name} (${file.size} bytes) as ${key}.`);
+  return { media: { kind: type.kind, key } };
+}
+
+// Best effort: a file that cannot be removed only wastes space
+export async function removeMedia(keys: string[]) {
+  if (keys.length === 0) return;
+  try {
+    await getMediaStore().remove(keys);
+    console.log(`[media-store] Removed ${keys.length} unused media file(s).`);
+  } catch (error) {
+    console.error('[media-store] Error removing media files:', error);
+  }
+}
@@ -0,0 +1,146 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { readGift, readMoodleXml } from './moodle-quiz-files';
+import { parseQuizFile } from './quiz-files';
+
+const moodleXml = `<?xml version="1.0" encoding="UTF-8"?>
+<quiz>
+  <question type="category">
+    <category><text>$course$/Geography</text></category>
+  </question>
+  <question type="multichoice">
+    <name><text>Capital</text></name>
+    <questiontext format="html"><text><![CDATA[<p>Capital of <b>France</b>?</p>]]></text></questiontext>
+    <single>true</single>
+    <answer fraction="0"><text>Berlin</text></answer>
+    <answer fraction="100"><text>Paris</text></answer>
+    <tags><tag><text>Europe</text></tag></tags>
+  </question>
+  <question type="multichoice">
+    <name><text>Rivers</text></name>
+    <questiontext format="plain_text"><text>Which are rivers?</text></questiontext>
+    <single>false</single>
+    <answer fraction="50"><text>Danube</text></answer>
+    <answer fraction="-100"><text>Alps</text></answer>
+    <answer fraction="50"><text>Rhine</text></answer>
+  </question>
+  <question type="truefalse">
+    <name><text>Nile</text></name>
+    <questiontext format="html"><text>The Nile is in Africa &amp; Asia.</text></questiontext>
+    <answer fraction="0"><text>true</text></answer>
+    <answer fraction="100"><text>false</text></answer>
+  </question>
+  <question type="shortanswer">
+    <name><text>Japan</text></name>
+    <questiontext format="html"><text>Capital of Japan?</text></questiontext>
+    <answer fraction="100"><text>Tokyo</text></answer>
+    <answer fraction="50"><text>Edo</text></answer>
+  </question>
+  <question type="numerical">
+    <name><text>Pi</text></name>
+    <questiontext format="html"><text>Pi to two decimals?</text></questiontext>
+    <answer fraction="100"><text>3.14</text><tolerance>0.005</tolerance></answer>
+  </question>
+  <question type="essay">
+    <name><text>Thoughts</text></name>
+    <questiontext format="html"><text>What do you think?</text></questiontext>
+  </question>
+  <question type="ddwtos">
+    <name><text>Drag words</text></name>
+    <questiontext format="html"><text>Drag [[1]] here.</text></questiontext>
+  </question>
+</quiz>
+`;
+
+const gift = `// Exported from Moodle
+$CATEGORY: $course$/Geography
+
+::Capital:: Capital of France? {=Paris ~Berlin ~Rome}
+
+::Rivers:: Which are rivers? {~%50%Danube ~%-100%Alps ~%50%Rhine}
+
+The sun is a star. {T}
+
+Who wrote Hamlet? {=Shakespeare =William Shakespeare}
+
+What is pi to two decimals? {#3.14:0.005}
+
+The {=Atlantic} ocean lies west of Europe.
+
+::Essay:: Describe your summer. {}
+
+::Match:: Match the capitals. {=Italy -> Rome =Spain -> Madrid}
+
+Just some text without answers.
+`;
+
+describe('readMoodleXml', () => {
+  it('reads the question types Moodle and we have in common', () => {
+    const { questions, errors } = readMoodleXml(moodleXml);
+    assert.deepEqual(errors, []);
+    assert.deepEqual(questions, [
+      { line: 6, question: { type: 'multiple_choice', text: 'Capital of France?', options: ['Berlin', 'Paris'], correct: [1], tags: ['Europe'] } },
+      { line: 14, question: { type: 'multi_select', text: 'Which are rivers?', options: ['Danube', 'Alps', 'Rhine'], correct: [0, 2] } },
+      { line: 22, question: { type: 'true_false', text: 'The Nile is in Africa & Asia.', correct: [1] } },
+      { line: 28, question: { type: 'typed_answer', text: 'Capital of Japan?', acceptedAnswers: ['Tokyo'] } },
+      { line: 34, question: { type: 'numeric', text: 'Pi to two decimals?', value: 3.14, tolerance: 0.005 } },
+    ]);
+  });
+
+  it('warns about question types it skips', () => {
+    assert.deepEqual(readMoodleXml(moodleXml).warnings, [
+      { line: 39, message: 'Skipped "Thoughts": Moodle "essay" questions are not supported.' },
+      { line: 43, message: 'Skipped "Drag words": Moodle "ddwtos" questions are not supported.' },
+    ]);
+  });
+
+  it('gives the line of broken XML', () => {
+    assert.deepEqual(readMoodleXml('<quiz>\n  <question type="essay">\n    <name><text>Oops</name>\n</quiz>').errors, [
+      { line: 3, message: 'Expected </text> but found </name>.' },
+    ]);
+  });
+});
+
+describe('readGift', () => {
+  it('reads the question types Moodle and we have in common', () => {
+    const { questions, errors } = readGift(gift);
+    assert.deepEqual(errors, []);
+    assert.deepEqual(questions, [
+      { line: 4, question: { type: 'multiple_choice', text: 'Capital of France?', options: ['Paris', 'Berlin', 'Rome'], correct: [0] } },
+      { line: 6, question: { type: 'multi_select', text: 'Which are rivers?', options: ['Danube', 'Alps', 'Rhine'], correct: [0, 2] } },
+      { line: 8, question: { type: 'true_false', text: 'The sun is a star.', correct: [0] } },
+      { line: 10, question: { type: 'typed_answer', text: 'Who wrote Hamlet?', acceptedAnswers: ['Shakespeare', 'William Shakespeare'] } },
+      { line: 12, question: { type: 'numeric', text: 'What is pi to two decimals?', value: 3.14, tolerance: 0.005 } },
+      { line: 14, question: { type: 'typed_answer', text: 'The _____ ocean lies west of Europe.', acceptedAnswers: ['Atlantic'] } },
+    ]);
+  });
+
+  it('warns about question types it skips', () => {
+    assert.deepEqual(readGift(gift).warnings, [
+      { line: 16, message: 'Skipped "Essay": Moodle "essay" questions are not supported.' },
+      { line: 18, message: 'Skipped "Match": Moodle "matching" questions are not supported.' },
+      { line: 20, message: 'Skipped a question: Moodle "description" items (text without answers) are not supported.' },
+    ]);
+  });
+
+  it('gives the line of a broken question', () => {
+    assert.deepEqual(readGift('Capital of France? {=Paris ~Berlin}\n\nCapital of Spain? {=Madrid ~Lisbon\n').errors, [
+      { line: 3, message: 'The answer block "{" is never closed with "}".' },
+    ]);
+  });
+});
+
+describe('Moodle imports', () => {
+  it('check the questions like any other import', () => {
+    const { questions, errors, warnings } = parseQuizFile('gift', gift);
+    assert.deepEqual(errors, []);
+    assert.equal(questions.length, 6);
+    assert.equal(warnings.length, 3);
+  });
+
+  it('refuse a file where every question is skipped', () => {
+    assert.deepEqual(parseQuizFile('gift', '::Essay:: Describe your summer. {}\n').errors, [
+      { line: null, message: 'None of the questions in the file can be imported.' },
+    ]);
+  });
+});
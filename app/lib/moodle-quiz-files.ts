@@ -0,0 +1,382 @@
+import type { QuestionType } from './game-protocol';
+import { MAX_TAGS } from './question-bank';
+import type { ImportIssue, QuizFileQuestion } from './quiz-files';
+
+// Readers for question banks exported from Moodle, in Moodle XML or the GIFT text format. They map
+// Moodle's multiple choice, true/false, short answer and numerical questions onto quiz file questions;
+// every other question type is reported as skipped rather than dropped without a word. Moodle has no
+// time limit per question, so imported questions get the default one; Moodle XML tags are kept as
+// question bank tags. parseQuizFile (quiz-files.ts) checks the questions like any other import.
+//
+// Moodle XML (https://docs.moodle.org/en/Moodle_XML_format):
+//
+//   <quiz>
+//     <question type="multichoice">
+//       <name><text>Capital</text></name>
+//       <questiontext format="html"><text><![CDATA[<p>Capital of France?</p>]]></text></questiontext>
+//       <single>true</single>
+//       <answer fraction="100"><text>Paris</text></answer>
+//       <answer fraction="0"><text>Berlin</text></answer>
+//     </question>
+//   </quiz>
+//
+// GIFT (https://docs.moodle.org/en/GIFT_format), questions separated by blank lines:
+//
+//   ::Capital:: Capital of France? {=Paris ~Berlin ~Rome}
+//   The sun is a star. {T}
+//   Who wrote Hamlet? {=Shakespeare =William Shakespeare}
+//   What is pi to two decimals? {#3.14:0.005}
+//
+// Answers with partial credit count as correct options of a multi-select question, and as wrong
+// ones otherwise; alternative short and numerical answers that only earn partial credit are left out.
+
+export interface ReadQuestions {
+  questions: { line: number; question: QuizFileQuestion }[];
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
+}
+
+interface Answer {
+  text: string;
+  fraction: number; // Percentage of the points, Moodle style: 100 is fully correct
+  tolerance?: number; // Numerical answers
+}
+
+// Question text for our plain-text questions; Moodle stores most text as HTML
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h\d)>/gi, '\n')
+      .replace(/<[^>]*>/g, ''),
+  )
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isNaN(code) ? entity : String.fromCodePoint(code);
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+// Maps the questions Moodle and we have in common; for anything else, returns why it is skipped
+function mapMoodleQuestion(moodleType: string, text: string, answers: Answer[], single: boolean): QuizFileQuestion | string {
+  const correct = (answer: Answer) => answer.fraction >= 100;
+  switch (moodleType) {
+    case 'multichoice': {
+      const type: QuestionType = single ? 'multiple_choice' : 'multi_select';
+      // Several answers can share the credit of a multi-select question, e.g. 50% each
+      const indexes = answers.flatMap((answer, index) => ((single ? correct(answer) : answer.fraction > 0) ? [index] : []));
+      return { type, text, options: answers.map((answer) => answer.text), correct: indexes };
+    }
+    case 'truefalse': {
+      const right = answers.find(correct);
+      if (!right || !/^(true|false)$/i.test(right.text)) return 'The true/false question has no correct answer.';
+      return { type: 'true_false', text, correct: [right.text.toLowerCase() === 'true' ? 0 : 1] };
+    }
+    case 'shortanswer': {
+      const accepted = answers.filter(correct).map((answer) => answer.text);
+      if (accepted.some((answer) => answer.includes('*'))) return 'Short answers with * wildcards are not supported.';
+      return { type: 'typed_answer', text, acceptedAnswers: accepted };
+    }
+    case 'numerical': {
+      const right = answers.find(correct);
+      if (!right || right.text.trim() === '*') return 'The numerical question has no fully correct answer.';
+      return { type: 'numeric', text, value: Number(right.text), tolerance: right.tolerance ?? 0 };
+    }
+    default:
+      return `Moodle "${moodleType}" questions are not supported.`;
+  }
+}
+
+function addQuestion(result: ReadQuestions, line: number, name: string, mapped: QuizFileQuestion | string) {
+  if (typeof mapped === 'string') {
+    result.warnings.push({ line, message: `Skipped ${name ? `"${name}"` : 'a question'}: ${mapped}` });
+  } else {
+    result.questions.push({ line, question: mapped });
+  }
+}
+
+// --- Moodle XML ---
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // Text directly inside the element, CDATA included
+  line: number;
+}
+
+// Start or end tag at TAG_PATTERN.lastIndex: closing slash, name, attributes, self-closing slash
+const TAG_PATTERN = /<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+
+/**
+ * Just enough of an XML parser for Moodle exports: elements, attributes, text, CDATA and entities.
+ */
+function parseXml(text: string): { root: XmlElement } | { error: ImportIssue } {
+  const document: XmlElement = { name: '', attributes: {}, children: [], text: '', line: 1 };
+  const open = [document];
+  let position = 0;
+  let line = 1;
+  const advance = (to: number) => {
+    for (let index = position; index < to; index++) if (text[index] === '\n') line++;
+    position = to;
+  };
+  const skipPast = (marker: string) => {
+    const end = text.indexOf(marker, position);
+    if (end < 0) return false;
+    advance(end + marker.length);
+    return true;
+  };
+
+  while (position < text.length) {
+    const current = open[open.length - 1];
+    const tagStart = text.indexOf('<', position);
+    if (tagStart < 0) {
+      current.text += decodeEntities(text.slice(position));
+      break;
+    }
+    current.text += decodeEntities(text.slice(position, tagStart));
+    advance(tagStart);
+    const tagLine = line;
+
+    if (text.startsWith('<![CDATA[', position)) {
+      const end = text.indexOf(']]>', position);
+      if (end < 0) return { error: { line: tagLine, message: 'A CDATA section is never closed.' } };
+      current.text += text.slice(position + 9, end);
+      advance(end + 3);
+    } else if (text.startsWith('<!--', position) || text.startsWith('<?', position) || text.startsWith('<!', position)) {
+      const marker = text.startsWith('<!--', position) ? '-->' : text.startsWith('<?', position) ? '?>' : '>';
+      if (!skipPast(marker)) return { error: { line: tagLine, message: 'A comment or declaration is never closed.' } };
+    } else {
+      TAG_PATTERN.lastIndex = position;
+      const tag = TAG_PATTERN.exec(text);
+      if (!tag) return { error: { line: tagLine, message: 'Invalid XML tag.' } };
+      const [source, closing, name, attributeSource, selfClosing] = tag;
+      if (closing) {
+        if (current.name !== name) {
+          return { error: { line: tagLine, message: current.name ? `Expected </${current.name}> but found </${name}>.` : `Unexpected </${name}>.` } };
+        }
+        open.pop();
+      } else {
+        const attributes: Record<string, string> = {};
+        for (const attribute of attributeSource.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+          attributes[attribute[1]] = decodeEntities(attribute[2] ?? attribute[3]);
+        }
+        const element: XmlElement = { name, attributes, children: [], text: '', line: tagLine };
+        current.children.push(element);
+        if (!selfClosing) open.push(element);
+      }
+      advance(position + source.length);
+    }
+  }
+
+  if (open.length > 1) {
+    const unclosed = open[open.length - 1];
+    return { error: { line: unclosed.line, message: `<${unclosed.name}> is never closed.` } };
+  }
+  const root = document.children[0];
+  return root ? { root } : { error: { line: null, message: 'The file contains no XML.' } };
+}
+
+function getChild(element: XmlElement | undefined, name: string) {
+  return element?.children.find((child) => child.name === name);
+}
+
+// Text of Moodle's <something format="..."><text>...</text></something> wrappers, without HTML
+function getText(element: XmlElement | undefined) {
+  const text = getChild(element, 'text')?.text ?? element?.text ?? '';
+  const format = element?.attributes.format ?? 'html';
+  return format === 'plain_text' || format === 'markdown' ? text.trim() : htmlToText(text);
+}
+
+export function readMoodleXml(text: string): ReadQuestions {
+  const result: ReadQuestions = { questions: [], errors: [], warnings: [] };
+  const parsed = parseXml(text);
+  if ('error' in parsed) {
+    result.errors.push(parsed.error);
+    return result;
+  }
+  if (parsed.root.name !== 'quiz') {
+    result.errors.push({ line: parsed.root.line, message: 'Expected a Moodle XML <quiz> element.' });
+    return result;
+  }
+
+  for (const element of parsed.root.children) {
+    if (element.name !== 'question') continue;
+    const moodleType = element.attributes.type ?? '';
+    if (moodleType === 'category') continue; // Categories organise Moodle's bank and are not questions
+
+    const name = getChild(getChild(element, 'name'), 'text')?.text.trim() ?? '';
+    const questionText = getChild(element, 'questiontext');
+    if (/<img\b/i.test(getChild(questionText, 'text')?.text ?? '')) {
+      result.warnings.push({ line: element.line, message: `Images in ${name ? `"${name}"` : 'the question'} are not imported.` });
+    }
+    const answers = element.children
+      .filter((child) => child.name === 'answer')
+      .map((answer) => {
+        const tolerance = getChild(answer, 'tolerance')?.text.trim();
+        return {
+          text: getText(answer),
+          fraction: Number(answer.attributes.fraction ?? 0),
+          tolerance: tolerance ? Number(tolerance) : undefined,
+        };
+      });
+    const single = /^(true|1)$/i.test(getChild(element, 'single')?.text.trim() ?? 'true');
+    const mapped = mapMoodleQuestion(moodleType, getText(questionText) || name, answers, single);
+    // Moodle tags become question bank tags
+    const tags = (getChild(element, 'tags')?.children ?? [])
+      .filter((child) => child.name === 'tag')
+      .map((tag) => getChild(tag, 'text')?.text.trim() ?? '')
+      .filter(Boolean);
+    if (tags.length > MAX_TAGS && typeof mapped !== 'string') {
+      result.warnings.push({ line: element.line, message: `Only the first ${MAX_TAGS} tags of ${name ? `"${name}"` : 'the question'} are imported.` });
+    }
+    addQuestion(result, element.line, name, typeof mapped === 'string' || tags.length === 0 ? mapped : { ...mapped, tags: tags.slice(0, MAX_TAGS) });
+  }
+  return result;
+}
+
+// --- GIFT ---
+
+// Position of the first of the characters that is not escaped with a backslash, or -1
+function findUnescaped(text: string, characters: string, from = 0) {
+  for (let position = from; position < text.length; position++) {
+    if (text[position] === '\\') position++;
+    else if (characters.includes(text[position])) return position;
+  }
+  return -1;
+}
+
+function unescapeGift(text: string) {
+  return text.replace(/\\([~=#{}:\\])/g, '$1').replace(/\\n/g, '\n').trim();
+}
+
+// Answers of a "{...}" block: "=right", "~wrong" or "~%50%partly right", each with an optional "#feedback"
+function readGiftAnswers(block: string): { marker: string; text: string; fraction: number | null }[] {
+  const answers: { marker: string; text: string; fraction: number | null }[] = [];
+  let start = findUnescaped(block, '=~');
+  while (start >= 0) {
+    const next = findUnescaped(block, '=~', start + 1);
+    let body = block.slice(start + 1, next < 0 ? undefined : next);
+    const feedback = findUnescaped(body, '#');
+    if (feedback >= 0) body = body.slice(0, feedback);
+    const weight = body.match(/^\s*%(-?[\d.]+)%/);
+    answers.push({ marker: block[start], text: unescapeGift(weight ? body.slice(weight[0].length) : body), fraction: weight ? Number(weight[1]) : null });
+    start = next;
+  }
+  return answers;
+}
+
+// "3.14:0.005", "1..5" (a range) or just "42"
+function readGiftNumber(text: string): Answer | null {
+  const range = text.match(/^(-?[\d.eE+-]+)\.\.(-?[\d.eE+-]+)$/);
+  if (range) {
+    const [min, max] = [Number(range[1]), Number(range[2])];
+    return Number.isNaN(min) || Number.isNaN(max) ? null : { text: String((min + max) / 2), fraction: 100, tolerance: Math.abs(max - min) / 2 };
+  }
+  const [value, tolerance] = text.split(':');
+  return value.trim() && !Number.isNaN(Number(value)) ? { text: value.trim(), fraction: 100, tolerance: tolerance ? Number(tolerance) : undefined } : null;
+}
+
+function readGiftQuestion(source: string): { name: string; mapped: QuizFileQuestion | string } | { error: string } {
+  let rest = source.trim();
+  let name = '';
+  if (rest.startsWith('::')) {
+    const end = rest.indexOf('::', 2);
+    if (end < 0) return { error: 'The question title is never closed with "::".' };
+    name = unescapeGift(rest.slice(2, end));
+    rest = rest.slice(end + 2).trim();
+  }
+  const format = rest.match(/^\[(html|moodle|plain|markdown)\]/);
+  if (format) rest = rest.slice(format[0].length);
+
+  const open = findUnescaped(rest, '{');
+  if (open < 0) {
+    return { name, mapped: 'Moodle "description" items (text without answers) are not supported.' };
+  }
+  const close = findUnescaped(rest, '}', open + 1);
+  if (close < 0) return { error: 'The answer block "{" is never closed with "}".' };
+
+  // Text after the answers makes it a "missing word" question: the answers fill the blank
+  const before = rest.slice(0, open).trim();
+  const after = rest.slice(close + 1).trim();
+  const toText = (gift: string) => (format?.[1] === 'html' ? htmlToText(unescapeGift(gift)) : unescapeGift(gift));
+  const text = after ? `${toText(before)} _____ ${toText(after)}` : toText(before) || name;
+  const block = rest.slice(open + 1, close).trim();
+
+  if (block === '') {
+    return { name, mapped: 'Moodle "essay" questions are not supported.' };
+  }
+  const trueFalse = block.match(/^(T|TRUE|F|FALSE)\s*(#.*)?$/is);
+  if (trueFalse) {
+    const isTrue = trueFalse[1].toUpperCase().startsWith('T');
+    return { name, mapped: mapMoodleQuestion('truefalse', text, [{ text: String(isTrue), fraction: 100 }], true) };
+  }
+  if (block.startsWith('#')) {
+    const numbers = block.slice(1).trim();
+    const feedback = findUnescaped(numbers, '#');
+    // Either a single answer or a list of "=answer" alternatives (possibly with partial credit)
+    const alternatives = findUnescaped(numbers, '=~') === 0
+      ? readGiftAnswers(numbers)
+      : [{ marker: '=', text: unescapeGift(feedback < 0 ? numbers : numbers.slice(0, feedback)), fraction: null }];
+    const answers: Answer[] = [];
+    for (const alternative of alternatives) {
+      const answer = readGiftNumber(alternative.text);
+      if (!answer) return { error: 'Numerical answers must look like "3.14", "3.14:0.01" or "1..5".' };
+      answers.push({ ...answer, fraction: alternative.fraction ?? 100 });
+    }
+    return { name, mapped: mapMoodleQuestion('numerical', text, answers, true) };
+  }
+
+  const answers = readGiftAnswers(block);
+  if (answers.length === 0) return { error: 'The answer block has no "=" or "~" answers.' };
+  if (answers.some((answer) => answer.marker === '=' && answer.text.includes('->'))) {
+    return { name, mapped: 'Moodle "matching" questions are not supported.' };
+  }
+  const scored = answers.map((answer) => ({ text: answer.text, fraction: answer.fraction ?? (answer.marker === '=' ? 100 : 0) }));
+  if (answers.every((answer) => answer.marker === '=')) {
+    return { name, mapped: mapMoodleQuestion('shortanswer', text, scored, true) };
+  }
+  // Weighted answers ("~%50%...") make it a question with several right answers
+  const single = scored.filter((answer) => answer.fraction > 0).length === 1;
+  return { name, mapped: mapMoodleQuestion('multichoice', text, scored, single) };
+}
+
+export function readGift(text: string): ReadQuestions {
+  const result: ReadQuestions = { questions: [], errors: [], warnings: [] };
+  // Questions are separated by blank lines; comment lines start with "//"
+  let block: { line: number; lines: string[] } | null = null;
+  const blocks: { line: number; lines: string[] }[] = [];
+  text.split(/\r?\n/).forEach((content, index) => {
+    if (/^\s*\/\//.test(content)) return;
+    if (!content.trim()) {
+      block = null;
+    } else if (block) {
+      block.lines.push(content);
+    } else {
+      block = { line: index + 1, lines: [content] };
+      blocks.push(block);
+    }
+  });
+
+  for (const { line, lines } of blocks) {
+    if (/^\s*\$CATEGORY:/.test(lines[0])) continue; // Moodle category, not a question
+    const read = readGiftQuestion(lines.join('\n'));
+    if ('error' in read) {
+      result.errors.push({ line, message: read.error });
+    } else {
+      addQuestion(result, line, read.name, read.mapped);
+    }
+  }
+  return result;
+}
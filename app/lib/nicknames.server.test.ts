@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { generateNickname, isNicknameBlocked } from './nicknames.server';
+
+describe('isNicknameBlocked', () => {
+  it('blocks blocked words and their disguises', () => {
+    ['Dick', 'Big Dick', 'BigDick', 'f.u.c.k', 'F U C K', '$h1t', 'fuuuck', 'Asss', 'D1cks'].forEach((nickname) => {
+      assert.equal(isNicknameBlocked(nickname), true, nickname);
+    });
+  });
+
+  it('blocks blocked words in mixed case', () => {
+    ['FuCk', 'fUck', 'ShIt', 'DiCk', 'CuNt', 'BiTcH', 'AsS', 'Big DiCk', 'f.U.c.K'].forEach((nickname) => {
+      assert.equal(isNicknameBlocked(nickname), true, nickname);
+    });
+  });
+
+  it('blocks unambiguous words inside longer words', () => {
+    ['Fuckface', 'Shitlord99', 'B1tchy'].forEach((nickname) => {
+      assert.equal(isNicknameBlocked(nickname), true, nickname);
+    });
+  });
+
+  it('lets through names that only contain a blocked word', () => {
+    ['Grape', 'Therapist', 'Dickens', 'Hancock', 'Peacock', 'Push It', 'Crush It', 'Cassandra', 'Scunthorpe', 'Sussex'].forEach((nickname) => {
+      assert.equal(isNicknameBlocked(nickname), false, nickname);
+    });
+  });
+
+  it('lets through allowed words', () => {
+    assert.equal(isNicknameBlocked('Shiitake Fan'), false);
+  });
+});
+
+describe('generateNickname', () => {
+  it('makes short names that pass the filter', () => {
+    for (let i = 0; i < 20; i++) {
+      const nickname = generateNickname();
+      assert.ok(nickname.length <= 20, nickname);
+      assert.equal(isNicknameBlocked(nickname), false, nickname);
+    }
+  });
+});
@@ -0,0 +1,97 @@
+import { generate } from 'random-words';
+
+// Nickname moderation for the join action: a word filter that sees through leetspeak and
+// separators, and a generator of random names for games in "random nicknames only" mode.
+
+// Built-in list, extended per deployment with NICKNAME_BLOCKLIST (comma separated words).
+// These only match a whole word ("Dick Dastardly", "BigDick"), so "Dickens" and "Hancock" pass.
+const DEFAULT_BLOCKED_WORDS = [
+  'arse', 'ass', 'asshole', 'bastard', 'bitch', 'bollocks', 'boner', 'cock', 'crap', 'cum', 'cunt', 'dick',
+  'dildo', 'douche', 'fag', 'fuck', 'hitler', 'jizz', 'nazi', 'nigga', 'nigger', 'penis', 'piss', 'porn',
+  'pussy', 'rape', 'retard', 'sex', 'shit', 'slut', 'tits', 'twat', 'vagina', 'wank', 'whore',
+];
+
+// Words that hardly ever occur inside an innocent word, so they are blocked anywhere in a word ("fuckface")
+const SUBSTRING_BLOCKED_WORDS = ['bitch', 'dildo', 'fuck', 'jizz', 'nigga', 'nigger', 'shit', 'slut', 'wank', 'whore'];
+
+// Words that contain a blocked word but are fine, extended with NICKNAME_ALLOWLIST (comma separated words)
+const DEFAULT_ALLOWED_WORDS = ['shiitake', 'shitake'];
+
+const LEETSPEAK: Record<string, string> = {
+  '0': 'o', '1': 'i', '2': 'z', '3': 'e', '4': 'a', '5': 's', '6': 'g', '7': 't', '8': 'b', '9': 'g',
+  '@': 'a', '$': 's', '!': 'i', '|': 'l', '+': 't', '(': 'c',
+};
+
+// Lowercase, strip accents and undo leetspeak; anything else that is not a letter separates words.
+// With splitCamelCase, so does a capital after a lowercase letter ("BigDick" is "big dick").
+function normalize(text: string, splitCamelCase = false): string[] {
+  const letters = (splitCamelCase ? text.replace(/([a-z])(?=[A-Z])/g, '$1 ') : text)
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split('')
+    .map((char) => LEETSPEAK[char] ?? char)
+    .join('');
+  return letters.split(/[^a-z]+/).filter(Boolean);
+}
+
+// Single letters separated by dots or spaces ("f u c k") are one word
+function joinSpelledOutWords(words: string[]): string[] {
+  return words.reduce<string[]>((joined, word, index) => {
+    const last = joined.length - 1;
+    if (word.length === 1 && index > 0 && words[index - 1].length === 1) {
+      joined[last] += word;
+    } else {
+      joined.push(word);
+    }
+    return joined;
+  }, []);
+}
+
+// "fuuuck" should match "fuck", "asss" should match "ass" and "dicks" should match "dick"
+function getSpellings(word: string) {
+  const spellings = [word, word.replace(/(.)\1+/g, '$1'), word.replace(/(.)\1{2,}/g, '$1$1')];
+  return new Set([...spellings, ...spellings.map((spelling) => spelling.replace(/s$/, ''))]);
+}
+
+function readWordList(defaults: string[], envValue: string | undefined) {
+  return [...new Set([...defaults, ...(envValue ?? '').split(',')].flatMap((word) => normalize(word)))];
+}
+
+let wordLists: { blocked: string[]; allowed: Set<string> } | null = null;
+
+function getWordLists() {
+  if (!wordLists) {
+    wordLists = {
+      blocked: readWordList(DEFAULT_BLOCKED_WORDS, process.env.NICKNAME_BLOCKLIST),
+      allowed: new Set(readWordList(DEFAULT_ALLOWED_WORDS, process.env.NICKNAME_ALLOWLIST)),
+    };
+  }
+  return wordLists;
+}
+
+/**
+ * True if the nickname contains a blocked word, also when disguised as "f.u.c.k", "$h1t" or "fuuuck".
+ */
+export function isNicknameBlocked(nickname: string): boolean {
+  const { blocked, allowed } = getWordLists();
+  // Split at capitals for "BigDick", and also as typed, so mixed case like "FuCk" cannot split a word apart
+  const words = new Set([...joinSpelledOutWords(normalize(nickname, true)), ...joinSpelledOutWords(normalize(nickname))]);
+  return [...words].some((word) => {
+    if (allowed.has(word)) return false;
+    const spellings = [...getSpellings(word)];
+    return spellings.some((spelling) => blocked.includes(spelling)) ||
+      SUBSTRING_BLOCKED_WORDS.some((term) => spellings.some((spelling) => spelling.includes(term)));
+  });
+}
+
+/**
+ * Random friendly nickname such as "QuietPlanet42", at most 20 characters and never blocked.
+ */
+export function generateNickname(): string {
+  for (;;) {
+    const words = generate({ exactly: 2, maxLength: 8, join: '', formatter: (word) => word[0].toUpperCase() + word.slice(1) });
+    const nickname = `${words}${Math.floor(Math.random() * 90) + 10}`;
+    if (nickname.length <= 20 && !isNicknameBlocked(nickname)) return nickname;
+  }
+}
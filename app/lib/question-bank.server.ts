@@ -0,0 +1,77 @@
+import type { createServerClient } from './session.server';
+import { pickRandomQuestions } from './question-bank';
+import type { DifficultyMix } from './question-bank';
+
+type SupabaseClient = ReturnType<typeof createServerClient>;
+
+// Position after the quiz's last question
+export async function getNextQuestionOrder(supabase: SupabaseClient, quizId: string) {
+  const { data: last } = await supabase
+    .from('quiz_questions')
+    .select('order')
+    .eq('quiz_id', quizId)
+    .order('order', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return (last?.order ?? -1) + 1;
+}
+
+/**
+ * Adds bank questions to the end of a quiz, in the given order. Returns the database error, if any.
+ */
+export async function linkQuestionsToQuiz(supabase: SupabaseClient, quizId: string, questionIds: string[]) {
+  const firstOrder = await getNextQuestionOrder(supabase, quizId);
+  const { error } = await supabase
+    .from('quiz_questions')
+    .insert(questionIds.map((questionId, index) => ({ quiz_id: quizId, question_id: questionId, order: firstOrder + index })));
+  return error;
+}
+
+/**
+ * Builds a new quiz from random questions of the owner's bank: `count` questions, only ones tagged
+ * `tag` if given, split between difficulties by `mix`. Returns the new quiz, or why it could not be built.
+ */
+export async function createRandomQuiz(
+  supabase: SupabaseClient,
+  ownerId: string,
+  options: { count: number; tag: string | null; mix: DifficultyMix }
+): Promise<{ error: string; status: number } | { quizId: string }> {
+  let query = supabase.from('questions').select('id, difficulty').eq('owner_id', ownerId);
+  if (options.tag) {
+    query = query.contains('tags', [options.tag]);
+  }
+  const { data: candidates, error: candidatesError } = await query;
+  if (candidatesError) {
+    console.error('[question-bank.server createRandomQuiz] Error loading bank questions:', candidatesError);
+    return { error: `Error loading your question bank: ${candidatesError.message}`, status: 500 };
+  }
+
+  const picked = pickRandomQuestions(candidates ?? [], options.count, options.mix);
+  if ('error' in picked) {
+    return { error: options.tag ? `${picked.error} (tag "${options.tag}")` : picked.error, status: 400 };
+  }
+
+  const { data: quiz, error: quizError } = await supabase
+    .from('quizzes')
+    .insert({
+      title: `Random quiz: ${options.tag ?? 'all questions'}`,
+      description: `${options.count} random question${options.count === 1 ? '' : 's'} from the question bank.`,
+      owner_id: ownerId,
+    })
+    .select('id')
+    .single();
+  if (quizError || !quiz) {
+    console.error('[question-bank.server createRandomQuiz] Error creating quiz:', quizError);
+    return { error: `Failed to create the quiz: ${quizError?.message ?? 'no quiz returned'}`, status: quizError?.code === '42501' ? 403 : 500 };
+  }
+
+  const linkError = await linkQuestionsToQuiz(supabase, quiz.id, picked.questionIds);
+  if (linkError) {
+    console.error(`[question-bank.server createRandomQuiz] Error adding questions to quiz ${quiz.id}:`, linkError);
+    await supabase.from('quizzes').delete().eq('id', quiz.id);
+    return { error: `Failed to add the questions to the quiz: ${linkError.message}`, status: 500 };
+  }
+
+  console.log(`[question-bank.server createRandomQuiz] Created quiz ${quiz.id} with ${picked.questionIds.length} questions`);
+  return { quizId: quiz.id };
+}
@@ -0,0 +1,163 @@
+// The question bank: every question belongs to its author, who can use it in any number of their
+// quizzes (the quiz_questions table holds which questions a quiz uses and in what order) and find it
+// again by its subject, difficulty and tags. Shared by the quiz editor, the bank page, the quiz file
+// importers and the random quiz generator on the host page.
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export const DIFFICULTIES: { difficulty: Difficulty; label: string }[] = [
+  { difficulty: 'easy', label: 'Easy' },
+  { difficulty: 'medium', label: 'Medium' },
+  { difficulty: 'hard', label: 'Hard' },
+];
+
+// Must match the CHECK constraints on questions.subject and questions.tags
+export const MAX_SUBJECT_LENGTH = 100;
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 30;
+
+export const MAX_RANDOM_QUIZ_QUESTIONS = 50;
+
+export interface BankFields {
+  subject: string | null;
+  difficulty: Difficulty | null;
+  tags: string[];
+}
+
+/**
+ * Puts questions loaded for one quiz with `quiz_questions!inner(order)` (and filtered on
+ * quiz_questions.quiz_id, so each has a single link) in the quiz's order.
+ */
+export function sortByQuizOrder<T extends { quiz_questions: { order: number }[] }>(rows: T[]): T[] {
+  const getOrder = (row: T) => row.quiz_questions[0]?.order ?? 0;
+  return [...rows].sort((a, b) => getOrder(a) - getOrder(b));
+}
+
+export function isDifficulty(value: unknown): value is Difficulty {
+  return DIFFICULTIES.some(({ difficulty }) => difficulty === value);
+}
+
+export function getDifficultyLabel(difficulty: Difficulty) {
+  return DIFFICULTIES.find((entry) => entry.difficulty === difficulty)?.label ?? difficulty;
+}
+
+/**
+ * Tags are stored trimmed and in lower case, so "History " and "history" are the same tag.
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Tags typed as a comma-separated list, without blanks and duplicates: "Europe, capitals, europe"
+ * gives ['europe', 'capitals'].
+ */
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(',').map(normalizeTag).filter(Boolean))];
+}
+
+/**
+ * Checks a question's subject, difficulty and tags as typed in a form or read from a quiz file.
+ * Blank values clear the field. Tags can be given as a list or as comma-separated text.
+ */
+export function readBankFields(input: { subject?: string | null; difficulty?: string | null; tags?: string | string[] | null }):
+  | { error: string }
+  | { values: BankFields } {
+  const subject = input.subject?.trim() || null;
+  const difficulty = input.difficulty?.trim().toLowerCase() || null;
+  const tags = Array.isArray(input.tags)
+    ? [...new Set(input.tags.map(normalizeTag).filter(Boolean))]
+    : parseTags(input.tags ?? '');
+
+  if (subject && subject.length > MAX_SUBJECT_LENGTH) {
+    return { error: `Subjects can be at most ${MAX_SUBJECT_LENGTH} characters.` };
+  }
+  if (difficulty !== null && !isDifficulty(difficulty)) {
+    return { error: `Unknown difficulty "${difficulty}" (use easy, medium or hard).` };
+  }
+  if (tags.length > MAX_TAGS) {
+    return { error: `A question can have at most ${MAX_TAGS} tags.` };
+  }
+  const longTag = tags.find((tag) => tag.length > MAX_TAG_LENGTH);
+  if (longTag) {
+    return { error: `Tag "${longTag}" is longer than ${MAX_TAG_LENGTH} characters.` };
+  }
+  return { values: { subject, difficulty, tags } };
+}
+
+// Share of each difficulty in a random quiz, as relative weights (30/50/20 or 1/1/1).
+// All zero means any difficulty.
+export type DifficultyMix = Record<Difficulty, number>;
+
+/**
+ * Splits a number of questions between the difficulties of a mix, rounding so the parts add up to
+ * the total (largest remainder first): 10 questions at 1/1/1 gives 4 easy, 3 medium and 3 hard.
+ */
+export function splitByMix(count: number, mix: DifficultyMix): Record<Difficulty, number> {
+  const totalWeight = DIFFICULTIES.reduce((sum, { difficulty }) => sum + mix[difficulty], 0);
+  const exact = DIFFICULTIES.map(({ difficulty }) => ({
+    difficulty,
+    share: totalWeight > 0 ? (count * mix[difficulty]) / totalWeight : 0,
+  }));
+  const counts = { easy: 0, medium: 0, hard: 0 };
+  exact.forEach(({ difficulty, share }) => {
+    counts[difficulty] = Math.floor(share);
+  });
+
+  let remaining = count - exact.reduce((sum, { difficulty }) => sum + counts[difficulty], 0);
+  [...exact]
+    .sort((a, b) => (b.share - Math.floor(b.share)) - (a.share - Math.floor(a.share)))
+    .forEach(({ difficulty }) => {
+      if (remaining > 0) {
+        counts[difficulty] += 1;
+        remaining -= 1;
+      }
+    });
+  return counts;
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Picks `count` questions at random from the candidates (already filtered by tag), following the
+ * difficulty mix. Questions come out easiest first so the quiz builds up; with no mix they are in
+ * random order. Returns an error describing what is missing when there are not enough questions.
+ */
+export function pickRandomQuestions(
+  candidates: { id: string; difficulty: string | null }[],
+  count: number,
+  mix: DifficultyMix,
+  random: () => number = Math.random
+): { error: string } | { questionIds: string[] } {
+  const anyDifficulty = DIFFICULTIES.every(({ difficulty }) => mix[difficulty] <= 0);
+  if (anyDifficulty) {
+    if (candidates.length < count) {
+      return { error: `Only ${candidates.length} matching question${candidates.length === 1 ? '' : 's'} in your bank, ${count} needed.` };
+    }
+    return { questionIds: shuffle(candidates, random).slice(0, count).map(({ id }) => id) };
+  }
+
+  const needed = splitByMix(count, mix);
+  const shortfalls: string[] = [];
+  const questionIds: string[] = [];
+  DIFFICULTIES.forEach(({ difficulty }) => {
+    const available = candidates.filter((candidate) => candidate.difficulty === difficulty);
+    if (available.length < needed[difficulty]) {
+      shortfalls.push(`${needed[difficulty]} ${difficulty} (found ${available.length})`);
+      return;
+    }
+    questionIds.push(...shuffle(available, random).slice(0, needed[difficulty]).map(({ id }) => id));
+  });
+
+  if (shortfalls.length > 0) {
+    return { error: `Not enough matching questions in your bank: this mix needs ${shortfalls.join(', ')}.` };
+  }
+  return { questionIds };
+}
@@ -0,0 +1,42 @@
+import type { SyntheticEvent } from 'react';
+import type { QuestionMedia } from './game-protocol';
+import { getMediaUrl } from './question-media';
+
+// Renders a question or option attachment on the host presentation, the player device and in the editor.
+// Clips start at startSeconds through the URL's media fragment; browsers do not reliably stop at the
+// fragment's end after seeking, so playback is also paused there by hand.
+
+function stopAtClipEnd(media: QuestionMedia) {
+  return (event: SyntheticEvent<HTMLMediaElement>) => {
+    const player = event.currentTarget;
+    if (media.endSeconds !== undefined && player.currentTime >= media.endSeconds) {
+      player.pause();
+      player.currentTime = media.startSeconds ?? 0; // Replaying starts the clip over
+    }
+  };
+}
+
+export function MediaView({ media, className = '' }: { media: QuestionMedia; className?: string }) {
+  const url = getMediaUrl(media);
+  if (media.kind === 'image') {
+    return <img src={url} alt={media.alt ?? ''} className={`object-contain ${className}`} />;
+  }
+  if (media.kind === 'audio') {
+    return (
+      // eslint-disable-next-line jsx-a11y/media-has-caption -- uploaded clips come without caption files
+      <audio controls preload="metadata" src={url} onTimeUpdate={stopAtClipEnd(media)} className={className} />
+    );
+  }
+  return (
+    // eslint-disable-next-line jsx-a11y/media-has-caption -- uploaded clips come without caption files
+    <video controls playsInline preload="metadata" src={url} onTimeUpdate={stopAtClipEnd(media)} className={className} />
+  );
+}
+
+// Short label for places too small to play the file, e.g. the editor's question list
+export function getMediaLabel(media: QuestionMedia) {
+  const clip = media.startSeconds !== undefined || media.endSeconds !== undefined
+    ? ` (${media.startSeconds ?? 0}s–${media.endSeconds !== undefined ? `${media.endSeconds}s` : 'end'})`
+    : '';
+  return `${media.kind === 'image' ? '🖼️ Image' : media.kind === 'audio' ? '🔊 Audio' : '🎬 Video'}${clip}`;
+}
@@ -0,0 +1,79 @@
+import type { MediaKind, QuestionMedia } from './game-protocol';
+
+// Media attachments of questions and options, shared by the quiz editor, the game server and the
+// host/player screens. Files live in the media store (media-store.server.ts) and are served by the
+// /media/* route; questions.media and questions.option_media only hold QuestionMedia references.
+
+// Largest file the quiz editor accepts
+export const MAX_MEDIA_BYTES = 20 * 1024 * 1024;
+
+// Accepted upload types and the file extension they are stored under. No SVG: it can carry scripts
+// and media is served from the app's own origin.
+export const MEDIA_TYPES: Record<string, { kind: MediaKind; extension: string }> = {
+  'image/png': { kind: 'image', extension: 'png' },
+  'image/jpeg': { kind: 'image', extension: 'jpg' },
+  'image/gif': { kind: 'image', extension: 'gif' },
+  'image/webp': { kind: 'image', extension: 'webp' },
+  'audio/mpeg': { kind: 'audio', extension: 'mp3' },
+  'audio/ogg': { kind: 'audio', extension: 'oga' },
+  'audio/wav': { kind: 'audio', extension: 'wav' },
+  'audio/webm': { kind: 'audio', extension: 'weba' },
+  'audio/mp4': { kind: 'audio', extension: 'm4a' },
+  'video/mp4': { kind: 'video', extension: 'mp4' },
+  'video/webm': { kind: 'video', extension: 'webm' },
+  'video/ogg': { kind: 'video', extension: 'ogv' },
+};
+
+// For the file inputs' accept attribute
+export const MEDIA_ACCEPT = Object.keys(MEDIA_TYPES).join(',');
+
+// Store keys are generated by the server: a UUID and one of the extensions above
+const MEDIA_KEY_PATTERN = /^[0-9a-f-]{36}\.[a-z0-9]{2,5}$/;
+
+export function isMediaKey(key: string) {
+  return MEDIA_KEY_PATTERN.test(key);
+}
+
+export function getMediaContentType(key: string): string | null {
+  const extension = key.split('.').pop();
+  return Object.entries(MEDIA_TYPES).find(([, type]) => type.extension === extension)?.[0] ?? null;
+}
+
+function isSeconds(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * A QuestionMedia read from a jsonb column, or null if the value is not a valid attachment.
+ */
+export function parseMedia(value: unknown): QuestionMedia | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { kind, key, alt, startSeconds, endSeconds } = value as Record<string, unknown>;
+  if ((kind !== 'image' && kind !== 'audio' && kind !== 'video') || typeof key !== 'string' || !isMediaKey(key)) return null;
+  const media: QuestionMedia = { kind, key };
+  if (typeof alt === 'string' && alt) media.alt = alt;
+  if (kind !== 'image' && isSeconds(startSeconds)) media.startSeconds = startSeconds;
+  if (kind !== 'image' && isSeconds(endSeconds) && endSeconds > (media.startSeconds ?? 0)) media.endSeconds = endSeconds;
+  return media;
+}
+
+/**
+ * questions.option_media: one entry (or null) per option.
+ */
+export function parseOptionMedia(value: unknown): (QuestionMedia | null)[] {
+  return Array.isArray(value) ? value.map(parseMedia) : [];
+}
+
+// Every store key a questions row refers to, e.g. to clean up files that are no longer used
+export function getMediaKeys(row: { media: unknown; option_media: unknown }): string[] {
+  return [parseMedia(row.media), ...parseOptionMedia(row.option_media)].flatMap((media) => (media ? [media.key] : []));
+}
+
+/**
+ * URL of the file; audio and video clips carry their start/end as a media fragment (#t=start,end).
+ */
+export function getMediaUrl(media: QuestionMedia) {
+  const url = `/media/${media.key}`;
+  if (media.startSeconds === undefined && media.endSeconds === undefined) return url;
+  return `${url}#t=${media.startSeconds ?? 0}${media.endSeconds !== undefined ? `,${media.endSeconds}` : ''}`;
+}
@@ -0,0 +1,190 @@
+import { MAX_RATING_SCALE, MIN_RATING_SCALE } from './game-protocol';
+import type { CorrectAnswer, QuestionType, SubmittedAnswer } from './game-protocol';
+
+// Question types shared by the quiz editor, the game server and the host/player screens.
+// A question's solution lives in questions.correct_option_index (single choice types),
+// questions.answer_spec (most other types) or the options order itself (ordering questions, and the
+// pairs of matching questions); getCorrectAnswer turns any of them into a CorrectAnswer.
+// Ungraded slides (polls, word clouds, ratings, open text) have no solution and earn no points.
+
+export const QUESTION_TYPES: { type: QuestionType; label: string }[] = [
+  { type: 'multiple_choice', label: 'Multiple choice' },
+  { type: 'true_false', label: 'True / false' },
+  { type: 'multi_select', label: 'Multi-select' },
+  { type: 'numeric', label: 'Numeric answer' },
+  { type: 'typed_answer', label: 'Typed answer' },
+  { type: 'ordering', label: 'Put in order' },
+  { type: 'matching', label: 'Match pairs' },
+  { type: 'poll', label: 'Poll' },
+  { type: 'multi_poll', label: 'Poll (several answers)' },
+  { type: 'word_cloud', label: 'Word cloud' },
+  { type: 'rating', label: 'Rating scale' },
+  { type: 'open_text', label: 'Open text' },
+];
+
+export const DEFAULT_RATING_SCALE = 5;
+
+// Limits shared by the quiz editor and the quiz file importers
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 6;
+export const MAX_ACCEPTED_ANSWERS = 10;
+// Must match the CHECK constraint on questions.time_limit_seconds
+export const MIN_TIME_LIMIT_SECONDS = 5;
+export const MAX_TIME_LIMIT_SECONDS = 240;
+export const DEFAULT_TIME_LIMIT_SECONDS = 20;
+
+export const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+export function isQuestionType(value: unknown): value is QuestionType {
+  return QUESTION_TYPES.some(({ type }) => type === value);
+}
+
+export function getQuestionTypeLabel(type: QuestionType) {
+  return QUESTION_TYPES.find((entry) => entry.type === type)?.label ?? type;
+}
+
+// Types answered by picking from the options (the others have no options)
+export function hasOptions(type: QuestionType) {
+  return type === 'multiple_choice' || type === 'true_false' || type === 'multi_select' || type === 'poll' || type === 'multi_poll';
+}
+
+// Types with a right answer; the others are scored with no points and show aggregated responses instead
+export function isGraded(type: QuestionType) {
+  return type !== 'poll' && type !== 'multi_poll' && type !== 'word_cloud' && type !== 'rating' && type !== 'open_text';
+}
+
+/**
+ * Typed answers match ignoring case, accents and whitespace: " New  York" equals "newyork".
+ */
+export function normalizeTypedAnswer(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, '');
+}
+
+interface QuestionAnswerRow {
+  question_type: string | null;
+  options: unknown;
+  correct_option_index: number | null;
+  answer_spec: unknown;
+}
+
+function getSpec(row: QuestionAnswerRow) {
+  return typeof row.answer_spec === 'object' && row.answer_spec !== null ? (row.answer_spec as Record<string, unknown>) : {};
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/**
+ * Right-hand column of a matching question as authored: matchTargets[i] belongs to options[i].
+ */
+export function getMatchTargets(row: QuestionAnswerRow): string[] {
+  const matches = getSpec(row).matches;
+  return row.question_type === 'matching' && isStringList(matches) ? matches : [];
+}
+
+/**
+ * Highest point of a rating slide's scale, or null if the row is not a (valid) rating slide.
+ */
+export function getRatingScale(row: QuestionAnswerRow): number | null {
+  const scale = getSpec(row).scale;
+  if (row.question_type !== 'rating' || !Number.isInteger(scale)) return null;
+  return (scale as number) >= MIN_RATING_SCALE && (scale as number) <= MAX_RATING_SCALE ? (scale as number) : null;
+}
+
+/**
+ * The solution of a questions row, or null if the row does not carry a valid one for its type
+ * (always null for ungraded slides).
+ */
+export function getCorrectAnswer(row: QuestionAnswerRow): CorrectAnswer | null {
+  const type = row.question_type ?? 'multiple_choice';
+  const spec = getSpec(row);
+  // Puzzles are stored solved: options in the right order, and pairs side by side
+  const solved = Array.isArray(row.options) ? row.options.map((_, index) => index) : [];
+  switch (type) {
+    case 'multiple_choice':
+    case 'true_false':
+      return row.correct_option_index === null ? null : { type, optionIndex: row.correct_option_index };
+    case 'multi_select': {
+      const indexes = spec.correctOptionIndexes;
+      if (!Array.isArray(indexes) || indexes.length === 0 || !indexes.every((index) => Number.isInteger(index))) return null;
+      return { type, optionIndexes: indexes as number[] };
+    }
+    case 'numeric':
+      if (!Number.isFinite(spec.value) || !Number.isFinite(spec.tolerance)) return null;
+      return { type, value: spec.value as number, tolerance: spec.tolerance as number };
+    case 'typed_answer': {
+      const accepted = spec.acceptedAnswers;
+      if (!Array.isArray(accepted) || accepted.length === 0 || !accepted.every((answer) => typeof answer === 'string')) return null;
+      return { type, acceptedAnswers: accepted as string[] };
+    }
+    case 'ordering':
+      return solved.length >= 2 ? { type, order: solved } : null;
+    case 'matching':
+      return solved.length >= 2 && getMatchTargets(row).length === solved.length ? { type, matches: solved } : null;
+    default:
+      return null;
+  }
+}
+
+export function isCorrectOption(correct: CorrectAnswer | null, optionIndex: number) {
+  if (!correct) return false;
+  if (correct.type === 'multi_select') return correct.optionIndexes.includes(optionIndex);
+  return 'optionIndex' in correct && correct.optionIndex === optionIndex;
+}
+
+/**
+ * Human readable solution, e.g. "Paris", "Red, Blue" or "42 (±2)".
+ */
+export function formatCorrectAnswer(correct: CorrectAnswer, options: string[], matchTargets: string[] = []): string {
+  switch (correct.type) {
+    case 'multiple_choice':
+    case 'true_false':
+      return options[correct.optionIndex] ?? '';
+    case 'multi_select':
+      return correct.optionIndexes.map((index) => options[index]).filter(Boolean).join(', ');
+    case 'numeric':
+      return correct.tolerance > 0 ? `${correct.value} (±${correct.tolerance})` : String(correct.value);
+    case 'typed_answer':
+      return correct.acceptedAnswers.join(' / ');
+    case 'ordering':
+      return formatOrder(correct.order, options);
+    case 'matching':
+      return formatMatches(correct.matches, options, matchTargets);
+  }
+}
+
+export function formatSubmittedAnswer(answer: SubmittedAnswer, options: string[], matchTargets: string[] = []): string {
+  switch (answer.type) {
+    case 'multiple_choice':
+    case 'true_false':
+    case 'poll':
+      return options[answer.optionIndex] ?? '';
+    case 'multi_select':
+    case 'multi_poll':
+      return answer.optionIndexes.map((index) => options[index]).filter(Boolean).join(', ');
+    case 'numeric':
+    case 'rating':
+      return String(answer.value);
+    case 'typed_answer':
+    case 'word_cloud':
+    case 'open_text':
+      return answer.text.trim();
+    case 'ordering':
+      return formatOrder(answer.order, options);
+    case 'matching':
+      return formatMatches(answer.matches, options, matchTargets);
+  }
+}
+
+function formatOrder(order: number[], options: string[]) {
+  return order.map((index) => options[index]).join(' → ');
+}
+
+function formatMatches(matches: number[], options: string[], matchTargets: string[]) {
+  return matches.map((target, index) => `${options[index]} = ${matchTargets[target]}`).join(', ');
+}
@@ -0,0 +1,140 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { QUIZ_EXPORT_FORMATS, detectQuizFileFormat, formatQuizFile, parseQuizFile } from './quiz-files';
+import type { QuestionValues } from './quiz-files';
+
+const quiz = { title: 'Capitals, rivers & more', description: 'A bit of everything.' };
+
+// Rows as the quiz editor saves them, so importing an export must give them back unchanged
+const rows: QuestionValues[] = [
+  {
+    question_type: 'multiple_choice', question_text: 'Capital of "France", in Europe?', options: ['Berlin', 'Paris', 'Rome'],
+    correct_option_index: 1, answer_spec: null, time_limit_seconds: 20, subject: 'Geography', difficulty: 'easy', tags: ['europe', 'capitals'],
+  },
+  {
+    question_type: 'multi_select', question_text: 'Which of these are rivers?', options: ['Danube', 'Alps', 'Rhine', 'Sahara'],
+    correct_option_index: null, answer_spec: { correctOptionIndexes: [0, 2] }, time_limit_seconds: 30, subject: null, difficulty: 'medium', tags: [],
+  },
+  {
+    question_type: 'true_false', question_text: 'The Nile is in Africa.', options: ['True', 'False'],
+    correct_option_index: 0, answer_spec: null, time_limit_seconds: 10, subject: null, difficulty: null, tags: [],
+  },
+  {
+    question_type: 'numeric', question_text: 'How many countries border Germany?', options: [],
+    correct_option_index: null, answer_spec: { value: 9, tolerance: 1 }, time_limit_seconds: 20, subject: null, difficulty: 'hard', tags: [],
+  },
+  {
+    question_type: 'typed_answer', question_text: 'Capital of Japan?', options: [],
+    correct_option_index: null, answer_spec: { acceptedAnswers: ['Tokyo', 'Tōkyō'] }, time_limit_seconds: 20, subject: null, difficulty: null, tags: [],
+  },
+  {
+    question_type: 'ordering', question_text: 'Smallest to largest', options: ['Malta', 'France', 'Russia'],
+    correct_option_index: null, answer_spec: null, time_limit_seconds: 45, subject: null, difficulty: null, tags: [],
+  },
+  {
+    question_type: 'matching', question_text: 'Match the country to its capital', options: ['Italy', 'Spain'],
+    correct_option_index: null, answer_spec: { matches: ['Rome', 'Madrid'] }, time_limit_seconds: 60, subject: null, difficulty: null, tags: [],
+  },
+  {
+    question_type: 'rating', question_text: 'How hard was this quiz?', options: [],
+    correct_option_index: null, answer_spec: { scale: 10 }, time_limit_seconds: 20, subject: null, difficulty: null, tags: [],
+  },
+  {
+    question_type: 'poll', question_text: 'Favourite continent?', options: ['Europe', 'Asia'],
+    correct_option_index: null, answer_spec: null, time_limit_seconds: 20, subject: null, difficulty: null, tags: [],
+  },
+  {
+    question_type: 'open_text', question_text: 'Any comments?', options: [],
+    correct_option_index: null, answer_spec: null, time_limit_seconds: 20, subject: null, difficulty: null, tags: ['feedback'],
+  },
+];
+
+describe('quiz file round trip', () => {
+  QUIZ_EXPORT_FORMATS.forEach(({ format, extension }) => {
+    it(`imports a quiz exported as ${format} unchanged`, () => {
+      const text = formatQuizFile(format, quiz, rows);
+      assert.equal(detectQuizFileFormat(`quiz.${extension}`, text), format);
+
+      const result = parseQuizFile(format, text);
+      assert.deepEqual(result.errors, []);
+      assert.deepEqual(result.warnings, []);
+      assert.deepEqual(result.questions.map(({ values }) => values), rows);
+    });
+  });
+});
+
+describe('quiz file errors', () => {
+  it('points at the JSON question with the problem', () => {
+    const text = [
+      '{',
+      '  "questions": [',
+      '    { "text": "Capital of France?", "options": ["Berlin", "Paris"], "correct": [1] },',
+      '    {',
+      '      "type": "riddle",',
+      '      "text": "What has keys but no locks?"',
+      '    },',
+      '    { "text": "Capital of Spain?", "options": ["Madrid", "Lisbon"], "correct": [2] }',
+      '  ]',
+      '}',
+    ].join('\n');
+    assert.deepEqual(parseQuizFile('json', text).errors, [
+      { line: 4, message: 'Unknown question type "riddle".' },
+      { line: 8, message: 'A correct option refers to an option that does not exist.' },
+    ]);
+  });
+
+  it('gives the line of a JSON syntax error', () => {
+    const { errors } = parseQuizFile('json', '{\n  "questions": [\n    { "text": "Capital of France?" "options": [] }\n  ]\n}');
+    assert.equal(errors.length, 1);
+    assert.equal(errors[0].line, 3);
+    assert.match(errors[0].message, /^Invalid JSON/);
+  });
+
+  it('gives CSV errors the line their row starts on', () => {
+    const text = [
+      'type,question,option_1,option_2,answer',
+      'multiple_choice,"A question',
+      'over two lines?",Yes,No,1',
+      'multiple_choice,Capital of France?,Berlin,Paris,3',
+      'true_false,The Nile is in Africa.,,,maybe',
+    ].join('\n');
+    assert.deepEqual(parseQuizFile('csv', text).errors, [
+      { line: 4, message: 'Answer "3" is not the number of a filled-in option.' },
+      { line: 5, message: 'The answer of a true/false question must be "true" or "false".' },
+    ]);
+  });
+
+  it('reports unknown CSV columns on the header line', () => {
+    assert.deepEqual(parseQuizFile('csv', 'question,points\nCapital of France?,10\n').errors, [
+      { line: 1, message: 'Unknown column "points".' },
+    ]);
+  });
+
+  it('points at the Markdown line with the problem', () => {
+    const text = [
+      '# Capitals',
+      '',
+      '## Capital of France?',
+      '- [ ] Berlin',
+      '- [x] Paris',
+      'points: 10',
+      '',
+      '## Match them',
+      'type: matching',
+      '- Italy => Rome',
+      '- Spain',
+      '',
+      '## Capital of Spain?',
+      'type: guess',
+    ].join('\n');
+    assert.deepEqual(parseQuizFile('markdown', text).errors, [
+      { line: 6, message: 'Expected an option ("- ...") or a "type:", "time:", "answer:", "subject:", "difficulty:" or "tags:" line.' },
+      { line: 11, message: 'Matching pairs must be written "item => match".' },
+      { line: 14, message: 'Unknown question type "guess".' },
+    ]);
+  });
+
+  it('refuses a file without questions', () => {
+    assert.deepEqual(parseQuizFile('markdown', '# Just a title\n').errors, [{ line: null, message: 'The file contains no questions.' }]);
+  });
+});
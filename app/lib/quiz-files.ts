@@ -0,0 +1,883 @@
+import { MAX_RATING_SCALE, MAX_TYPED_ANSWER_LENGTH, MIN_RATING_SCALE } from './game-protocol';
+import type { QuestionType } from './game-protocol';
+import {
+  DEFAULT_RATING_SCALE,
+  DEFAULT_TIME_LIMIT_SECONDS,
+  MAX_ACCEPTED_ANSWERS,
+  MAX_OPTIONS,
+  MAX_TIME_LIMIT_SECONDS,
+  MIN_OPTIONS,
+  MIN_TIME_LIMIT_SECONDS,
+  TRUE_FALSE_OPTIONS,
+  getCorrectAnswer,
+  getMatchTargets,
+  getQuestionTypeLabel,
+  getRatingScale,
+  isQuestionType,
+} from './question-types';
+import { readBankFields } from './question-bank';
+import type { BankFields } from './question-bank';
+import { readGift, readMoodleXml } from './moodle-quiz-files';
+import type { ReadQuestions } from './moodle-quiz-files';
+
+// Quiz files: getting a quiz's questions in and out of the app. The importers check a whole file and
+// report every problem with its line number, so nothing is written until the file is clean; the quiz
+// editor then appends the questions to the quiz. Media attachments are not part of any format.
+//
+// JSON is the complete format (a quiz exported as JSON imports back unchanged):
+//
+//   {
+//     "version": 1,
+//     "title": "Capitals",
+//     "description": null,
+//     "questions": [
+//       { "type": "multiple_choice", "text": "Capital of France?", "options": ["Berlin", "Paris"], "correct": [1], "timeLimitSeconds": 20 }
+//     ]
+//   }
+//
+// Title and description are ignored on import. Every question has a type (default multiple_choice),
+// a text and optionally timeLimitSeconds (default 20), plus by type:
+//   - multiple_choice, multi_select: options, and correct: the 0-based indexes of the correct options
+//   - true_false: correct, [0] for true or [1] for false
+//   - numeric: value, and tolerance (default 0)
+//   - typed_answer: acceptedAnswers
+//   - ordering: options, in the correct order
+//   - matching: options and matches, matches[i] being the match of options[i]
+//   - poll, multi_poll: options
+//   - rating: scale, the top of the 1..scale range (default 5)
+//   - word_cloud, open_text: nothing else
+// Any question can also have the question bank fields subject, difficulty ("easy", "medium" or
+// "hard") and tags (a list of strings).
+//
+// CSV has a header row and then one row per question:
+//
+//   type,question,option_1,option_2,option_3,option_4,option_5,option_6,answer,time_limit_seconds
+//   multiple_choice,Capital of France?,Berlin,Paris,,,,,2,20
+//
+// Only the question column is required. An empty type is multiple_choice and an empty time limit the
+// default; matching pairs go in the option columns as "item => match". Optional subject, difficulty
+// and tags columns (tags separated by commas) fill in the question bank fields. The answer column holds:
+//   - multiple_choice, multi_select: the correct option number(s), e.g. "2" or "1|3"
+//   - true_false: "true" or "false"
+//   - numeric: the number and optionally a tolerance, e.g. "42" or "42 ± 2" ("+/-" works too)
+//   - typed_answer: the accepted answers, e.g. "Paris|Paris, France"
+//   - rating: the top of the scale, e.g. "5"
+//   - all other types: nothing
+//
+// Markdown has one "##" heading per question, followed by its options as a list and "key: value" lines:
+//
+//   # Capitals
+//
+//   ## Capital of France?
+//   time: 20
+//   - [ ] Berlin
+//   - [x] Paris
+//
+//   ## Put these in order
+//   type: ordering
+//   1. Smallest
+//   2. Largest
+//
+// The "# Title" and any text before the first question are ignored on import. Correct options are
+// ticked ("- [x]"); "type:", "time:", "answer:", "subject:", "difficulty:" and "tags:" work like the
+// CSV columns.
+//
+// Question banks from Moodle can be imported too, as Moodle XML or GIFT (see moodle-quiz-files.ts).
+
+export type QuizExportFormat = 'json' | 'csv' | 'markdown';
+export type QuizFileFormat = QuizExportFormat | 'moodle_xml' | 'gift';
+
+export const QUIZ_EXPORT_FORMATS: { format: QuizExportFormat; label: string; extension: string; contentType: string }[] = [
+  { format: 'json', label: 'JSON', extension: 'json', contentType: 'application/json' },
+  { format: 'csv', label: 'CSV', extension: 'csv', contentType: 'text/csv' },
+  { format: 'markdown', label: 'Markdown', extension: 'md', contentType: 'text/markdown' },
+];
+
+export const QUIZ_IMPORT_FORMATS: { format: QuizFileFormat; label: string }[] = [
+  ...QUIZ_EXPORT_FORMATS,
+  { format: 'moodle_xml', label: 'Moodle XML' },
+  { format: 'gift', label: 'GIFT (Moodle)' },
+];
+
+// Bump when the JSON format changes incompatibly
+export const QUIZ_FILE_VERSION = 1;
+// Largest file the importers accept
+export const MAX_QUIZ_FILE_BYTES = 1024 * 1024;
+
+export function isQuizFileFormat(value: unknown): value is QuizFileFormat {
+  return QUIZ_IMPORT_FORMATS.some(({ format }) => format === value);
+}
+
+// A question as written in a quiz file; the JSON format's "questions" entries
+export interface QuizFileQuestion {
+  type: QuestionType;
+  text: string;
+  options?: string[];
+  correct?: number[];
+  matches?: string[];
+  value?: number;
+  tolerance?: number;
+  acceptedAnswers?: string[];
+  scale?: number;
+  timeLimitSeconds?: number;
+  subject?: string;
+  difficulty?: string;
+  tags?: string[];
+}
+
+// The questions columns an imported question sets (it comes without media)
+export interface QuestionValues extends BankFields {
+  question_type: QuestionType;
+  question_text: string;
+  options: string[];
+  correct_option_index: number | null;
+  answer_spec: { correctOptionIndexes?: number[]; value?: number; tolerance?: number; acceptedAnswers?: string[]; matches?: string[]; scale?: number } | null;
+  time_limit_seconds: number;
+}
+
+export interface ImportIssue {
+  line: number | null; // 1-based; null for problems with the file as a whole
+  message: string;
+}
+
+export interface ImportResult {
+  questions: { line: number; values: QuestionValues }[];
+  errors: ImportIssue[]; // Any error blocks the import
+  warnings: ImportIssue[]; // Things left out, e.g. question types there is no equivalent for
+}
+
+interface QuizRow {
+  title: string;
+  description: string | null;
+}
+
+interface QuestionRow {
+  question_type: string | null;
+  question_text: string;
+  options: unknown;
+  correct_option_index: number | null;
+  answer_spec: unknown;
+  time_limit_seconds: number;
+  subject?: string | null;
+  difficulty?: string | null;
+  tags?: string[] | null;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+// Types whose correct options are marked: by index in JSON, by number in the answer column, ticked in Markdown
+function hasCorrectOptions(type: QuestionType) {
+  return type === 'multiple_choice' || type === 'true_false' || type === 'multi_select';
+}
+
+// Types that take a list of options (true/false options are fixed)
+function takesOptions(type: QuestionType) {
+  return ['multiple_choice', 'multi_select', 'ordering', 'matching', 'poll', 'multi_poll'].includes(type);
+}
+
+// --- Export ---
+
+/**
+ * A questions row in quiz file form.
+ */
+export function toQuizFileQuestion(row: QuestionRow): QuizFileQuestion {
+  const type = isQuestionType(row.question_type) ? row.question_type : 'multiple_choice';
+  const question: QuizFileQuestion = { type, text: row.question_text };
+  const options = Array.isArray(row.options) ? row.options.map(String) : [];
+  if (options.length > 0) question.options = options;
+  if (type === 'matching') question.matches = getMatchTargets(row);
+
+  const correct = getCorrectAnswer(row);
+  if (correct?.type === 'multiple_choice' || correct?.type === 'true_false') {
+    question.correct = [correct.optionIndex];
+  } else if (correct?.type === 'multi_select') {
+    question.correct = correct.optionIndexes;
+  } else if (correct?.type === 'numeric') {
+    question.value = correct.value;
+    question.tolerance = correct.tolerance;
+  } else if (correct?.type === 'typed_answer') {
+    question.acceptedAnswers = correct.acceptedAnswers;
+  }
+  if (type === 'rating') question.scale = getRatingScale(row) ?? DEFAULT_RATING_SCALE;
+  question.timeLimitSeconds = row.time_limit_seconds;
+  if (row.subject) question.subject = row.subject;
+  if (row.difficulty) question.difficulty = row.difficulty;
+  if (row.tags?.length) question.tags = row.tags;
+  return question;
+}
+
+// The CSV answer column / Markdown "answer:" line of a question (see the format description above)
+function formatAnswer(question: QuizFileQuestion): string {
+  switch (question.type) {
+    case 'multiple_choice':
+    case 'multi_select':
+      return (question.correct ?? []).map((index) => index + 1).join('|');
+    case 'true_false':
+      return question.correct ? (question.correct[0] === 0 ? 'true' : 'false') : '';
+    case 'numeric':
+      if (question.value === undefined) return '';
+      return question.tolerance ? `${question.value} ± ${question.tolerance}` : String(question.value);
+    case 'typed_answer':
+      return (question.acceptedAnswers ?? []).join('|');
+    case 'rating':
+      return String(question.scale ?? DEFAULT_RATING_SCALE);
+    default:
+      return '';
+  }
+}
+
+// Option cells and list items; matching pairs are written "item => match"
+function formatOptions(question: QuizFileQuestion): string[] {
+  if (!takesOptions(question.type)) return [];
+  const options = question.options ?? [];
+  return question.type === 'matching' ? options.map((option, index) => `${option} => ${question.matches?.[index] ?? ''}`) : options;
+}
+
+function formatCsvCell(value: string) {
+  return /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Markdown keeps a question or an option on one line
+function toSingleLine(text: string) {
+  return text.replace(/\s*[\r\n]+\s*/g, ' ');
+}
+
+function formatQuizCsv(questions: QuizFileQuestion[]) {
+  const optionColumns = Math.max(MAX_OPTIONS, ...questions.map((question) => formatOptions(question).length));
+  const header = [
+    'type', 'question', ...Array.from({ length: optionColumns }, (_, index) => `option_${index + 1}`),
+    'answer', 'time_limit_seconds', 'subject', 'difficulty', 'tags',
+  ];
+  const rows = questions.map((question) => {
+    const options = formatOptions(question);
+    return [
+      question.type,
+      question.text,
+      ...Array.from({ length: optionColumns }, (_, index) => options[index] ?? ''),
+      formatAnswer(question),
+      String(question.timeLimitSeconds ?? DEFAULT_TIME_LIMIT_SECONDS),
+      question.subject ?? '',
+      question.difficulty ?? '',
+      (question.tags ?? []).join(', '),
+    ];
+  });
+  return [header, ...rows].map((row) => row.map(formatCsvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function formatQuizMarkdown(quiz: QuizRow, questions: QuizFileQuestion[]) {
+  const lines = [`# ${toSingleLine(quiz.title)}`, ''];
+  if (quiz.description) lines.push(quiz.description, '');
+  for (const question of questions) {
+    lines.push(`## ${toSingleLine(question.text)}`, `type: ${question.type}`, `time: ${question.timeLimitSeconds ?? DEFAULT_TIME_LIMIT_SECONDS}`);
+    const answer = formatAnswer(question);
+    if (answer && question.type !== 'multiple_choice' && question.type !== 'multi_select') lines.push(`answer: ${answer}`);
+    if (question.subject) lines.push(`subject: ${toSingleLine(question.subject)}`);
+    if (question.difficulty) lines.push(`difficulty: ${question.difficulty}`);
+    if (question.tags?.length) lines.push(`tags: ${question.tags.join(', ')}`);
+    formatOptions(question).forEach((option, index) => {
+      const text = toSingleLine(option);
+      if (question.type === 'ordering') {
+        lines.push(`${index + 1}. ${text}`);
+      } else if (question.type === 'multiple_choice' || question.type === 'multi_select') {
+        lines.push(`- [${question.correct?.includes(index) ? 'x' : ' '}] ${text}`);
+      } else {
+        lines.push(`- ${text}`);
+      }
+    });
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * A quiz and its questions (in play order) as a quiz file.
+ */
+export function formatQuizFile(format: QuizExportFormat, quiz: QuizRow, rows: QuestionRow[]): string {
+  const questions = rows.map(toQuizFileQuestion);
+  switch (format) {
+    case 'json':
+      return JSON.stringify({ version: QUIZ_FILE_VERSION, title: quiz.title, description: quiz.description, questions }, null, 2) + '\n';
+    case 'csv':
+      return formatQuizCsv(questions);
+    case 'markdown':
+      return formatQuizMarkdown(quiz, questions);
+  }
+}
+
+// --- Import ---
+
+function toAnswerValues(question: QuizFileQuestion): Pick<QuestionValues, 'options' | 'correct_option_index' | 'answer_spec'> | { error: string } {
+  const { type } = question;
+  const label = getQuestionTypeLabel(type);
+  const options = (question.options ?? []).map((option) => option.trim());
+  const correct = question.correct ?? [];
+
+  if (takesOptions(type)) {
+    const noun = type === 'ordering' ? 'items' : type === 'matching' ? 'pairs' : 'options';
+    if (options.length < MIN_OPTIONS || options.length > MAX_OPTIONS) {
+      return { error: `${label} questions need between ${MIN_OPTIONS} and ${MAX_OPTIONS} ${noun}.` };
+    }
+    if (options.some((option) => !option)) {
+      return { error: 'Options cannot be empty.' };
+    }
+  } else if (type !== 'true_false' && options.length > 0) {
+    return { error: `${label} questions have no options.` };
+  }
+  if (!hasCorrectOptions(type) && question.correct !== undefined) {
+    return { error: `${label} questions have no correct options.` };
+  }
+  const optionCount = type === 'true_false' ? TRUE_FALSE_OPTIONS.length : options.length;
+  if (correct.some((index) => !Number.isInteger(index) || index < 0 || index >= optionCount)) {
+    return { error: 'A correct option refers to an option that does not exist.' };
+  }
+
+  switch (type) {
+    case 'multiple_choice':
+    case 'true_false':
+      if (correct.length !== 1) {
+        return { error: type === 'true_false' ? 'Say whether the statement is true or false.' : 'Mark exactly one option as correct.' };
+      }
+      return { options: type === 'true_false' ? TRUE_FALSE_OPTIONS : options, correct_option_index: correct[0], answer_spec: null };
+    case 'multi_select':
+      if (correct.length === 0) {
+        return { error: 'Mark at least one option as correct.' };
+      }
+      return { options, correct_option_index: null, answer_spec: { correctOptionIndexes: [...new Set(correct)].sort((a, b) => a - b) } };
+    case 'numeric': {
+      const { value, tolerance = 0 } = question;
+      if (value === undefined || !Number.isFinite(value)) {
+        return { error: 'Give the correct number.' };
+      }
+      if (!Number.isFinite(tolerance) || tolerance < 0) {
+        return { error: 'Tolerance must be zero or a positive number.' };
+      }
+      return { options: [], correct_option_index: null, answer_spec: { value, tolerance } };
+    }
+    case 'typed_answer': {
+      const acceptedAnswers = [...new Set((question.acceptedAnswers ?? []).map((answer) => answer.trim()).filter(Boolean))];
+      if (acceptedAnswers.length === 0 || acceptedAnswers.length > MAX_ACCEPTED_ANSWERS) {
+        return { error: `Give between 1 and ${MAX_ACCEPTED_ANSWERS} accepted answers.` };
+      }
+      if (acceptedAnswers.some((answer) => answer.length > MAX_TYPED_ANSWER_LENGTH)) {
+        return { error: `Accepted answers can be at most ${MAX_TYPED_ANSWER_LENGTH} characters.` };
+      }
+      return { options: [], correct_option_index: null, answer_spec: { acceptedAnswers } };
+    }
+    case 'matching': {
+      const matches = (question.matches ?? []).map((match) => match.trim());
+      if (matches.length !== options.length || matches.some((match) => !match)) {
+        return { error: 'Every item needs a match.' };
+      }
+      if (new Set(matches).size !== matches.length) {
+        return { error: 'Every item needs a different match.' };
+      }
+      return { options, correct_option_index: null, answer_spec: { matches } };
+    }
+    case 'ordering':
+    case 'poll':
+    case 'multi_poll':
+      return { options, correct_option_index: null, answer_spec: null };
+    case 'rating': {
+      const scale = question.scale ?? DEFAULT_RATING_SCALE;
+      if (!Number.isInteger(scale) || scale < MIN_RATING_SCALE || scale > MAX_RATING_SCALE) {
+        return { error: `The rating scale must go up to a whole number between ${MIN_RATING_SCALE} and ${MAX_RATING_SCALE}.` };
+      }
+      return { options: [], correct_option_index: null, answer_spec: { scale } };
+    }
+    case 'word_cloud':
+    case 'open_text':
+      return { options: [], correct_option_index: null, answer_spec: null };
+  }
+}
+
+/**
+ * Checks a quiz file question against the same rules as the quiz editor and turns it into questions columns.
+ */
+export function toQuestionValues(question: QuizFileQuestion): { values: QuestionValues } | { error: string } {
+  const text = question.text.trim();
+  if (!text) {
+    return { error: 'Question text is required.' };
+  }
+  const timeLimitSeconds = question.timeLimitSeconds ?? DEFAULT_TIME_LIMIT_SECONDS;
+  if (!Number.isInteger(timeLimitSeconds) || timeLimitSeconds < MIN_TIME_LIMIT_SECONDS || timeLimitSeconds > MAX_TIME_LIMIT_SECONDS) {
+    return { error: `Time limit must be a whole number between ${MIN_TIME_LIMIT_SECONDS} and ${MAX_TIME_LIMIT_SECONDS} seconds.` };
+  }
+  const answer = toAnswerValues(question);
+  if ('error' in answer) return answer;
+  const bank = readBankFields(question);
+  if ('error' in bank) return bank;
+  return { values: { question_type: question.type, question_text: text, ...answer, time_limit_seconds: timeLimitSeconds, ...bank.values } };
+}
+
+function addQuestion(result: ImportResult, line: number, question: QuizFileQuestion) {
+  const checked = toQuestionValues(question);
+  if ('error' in checked) {
+    result.errors.push({ line, message: checked.error });
+  } else {
+    result.questions.push({ line, values: checked.values });
+  }
+}
+
+function readQuestionType(text: string): QuestionType | null {
+  const type = text.trim().toLowerCase() || 'multiple_choice';
+  return isQuestionType(type) ? type : null;
+}
+
+// Splits "item => match" in matching option cells and list items
+function readPair(text: string) {
+  const separator = text.indexOf('=>');
+  return separator < 0 ? null : { option: text.slice(0, separator).trim(), match: text.slice(separator + 2).trim() };
+}
+
+/**
+ * Reads the CSV answer column / Markdown "answer:" line into the question's solution fields.
+ * optionNumbers[i] is the number the file uses for options[i].
+ */
+function readAnswer(type: QuestionType, text: string, optionNumbers: number[]): Partial<QuizFileQuestion> | { error: string } {
+  const answer = text.trim();
+  if (!answer) return {};
+  switch (type) {
+    case 'multiple_choice':
+    case 'multi_select': {
+      const correct: number[] = [];
+      for (const number of answer.split('|').map((part) => part.trim())) {
+        const index = optionNumbers.indexOf(Number(number));
+        if (!/^\d+$/.test(number) || index < 0) {
+          return { error: `Answer "${number}" is not the number of a filled-in option.` };
+        }
+        correct.push(index);
+      }
+      return { correct };
+    }
+    case 'true_false':
+      if (!/^(true|false)$/i.test(answer)) {
+        return { error: 'The answer of a true/false question must be "true" or "false".' };
+      }
+      return { correct: [answer.toLowerCase() === 'true' ? 0 : 1] };
+    case 'numeric': {
+      const [value, tolerance, ...rest] = answer.split(/±|\+\/-|\+-/).map((part) => part.trim());
+      if (!value || Number.isNaN(Number(value)) || tolerance === '' || Number.isNaN(Number(tolerance ?? 0)) || rest.length > 0) {
+        return { error: 'The answer must be a number, optionally followed by "±" and a tolerance.' };
+      }
+      return tolerance === undefined ? { value: Number(value) } : { value: Number(value), tolerance: Number(tolerance) };
+    }
+    case 'typed_answer':
+      return { acceptedAnswers: answer.split('|') };
+    case 'rating':
+      return { scale: Number(answer) };
+    default:
+      return { error: `${getQuestionTypeLabel(type)} questions take no answer.` };
+  }
+}
+
+// A time limit cell or "time:" line; "30s" is fine too. Empty means the default.
+function readTimeLimit(text: string) {
+  const seconds = text.trim().replace(/\s*s$/i, '');
+  return seconds === '' ? undefined : Number(seconds);
+}
+
+function getLineAt(text: string, position: number) {
+  return text.slice(0, position).split('\n').length;
+}
+
+// Line of each entry of the top-level "questions" array, so errors can point at the question.
+// Only called on text that JSON.parse accepted.
+function findJsonQuestionLines(text: string): number[] {
+  const lines: number[] = [];
+  const containers: { bracket: string; key: string | null }[] = [];
+  let line = 1;
+  let lastString: string | null = null;
+  let key: string | null = null;
+  for (let position = 0; position < text.length; position++) {
+    const char = text[position];
+    if (char === '\n') {
+      line++;
+    } else if (char === '"') {
+      let end = position + 1;
+      while (end < text.length && text[end] !== '"') end += text[end] === '\\' ? 2 : 1;
+      lastString = text.slice(position + 1, end);
+      position = end;
+    } else if (char === ':') {
+      key = lastString;
+    } else if (char === ',') {
+      key = null;
+    } else if (char === '{' || char === '[') {
+      const parent = containers[containers.length - 1];
+      if (char === '{' && containers.length === 2 && parent.bracket === '[' && parent.key === 'questions') lines.push(line);
+      containers.push({ bracket: char, key: parent?.bracket === '{' ? key : null });
+      key = null;
+    } else if (char === '}' || char === ']') {
+      containers.pop();
+    }
+  }
+  return lines;
+}
+
+const JSON_QUESTION_FIELDS = [
+  'type', 'text', 'options', 'correct', 'matches', 'value', 'tolerance', 'acceptedAnswers', 'scale', 'timeLimitSeconds',
+  'subject', 'difficulty', 'tags',
+];
+
+function readJsonQuestion(value: unknown): { question: QuizFileQuestion } | { error: string } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { error: 'Each question must be an object.' };
+  }
+  const fields = value as Record<string, unknown>;
+  const unknownField = Object.keys(fields).find((field) => !JSON_QUESTION_FIELDS.includes(field));
+  if (unknownField) {
+    return { error: `Unknown field "${unknownField}".` };
+  }
+  const type = fields.type ?? 'multiple_choice';
+  if (!isQuestionType(type)) {
+    return { error: `Unknown question type ${JSON.stringify(type)}.` };
+  }
+  if (typeof fields.text !== 'string') {
+    return { error: '"text" must be a string.' };
+  }
+
+  const question: QuizFileQuestion = { type, text: fields.text };
+  for (const field of ['subject', 'difficulty'] as const) {
+    const value = fields[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'string') return { error: `"${field}" must be a string.` };
+    question[field] = value;
+  }
+  for (const field of ['options', 'matches', 'acceptedAnswers', 'tags'] as const) {
+    const list = fields[field];
+    if (list === undefined) continue;
+    if (!isStringList(list)) return { error: `"${field}" must be a list of strings.` };
+    question[field] = list;
+  }
+  for (const field of ['value', 'tolerance', 'scale', 'timeLimitSeconds'] as const) {
+    const number = fields[field];
+    if (number === undefined) continue;
+    if (typeof number !== 'number') return { error: `"${field}" must be a number.` };
+    question[field] = number;
+  }
+  if (fields.correct !== undefined) {
+    if (!Array.isArray(fields.correct) || !fields.correct.every((index) => typeof index === 'number')) {
+      return { error: '"correct" must be a list of option indexes.' };
+    }
+    question.correct = fields.correct;
+  }
+  return { question };
+}
+
+function parseQuizJson(text: string): ImportResult {
+  const result: ImportResult = { questions: [], errors: [], warnings: [] };
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    const message = (error as Error).message;
+    const position = message.match(/at position (\d+)/)?.[1];
+    result.errors.push({ line: position ? getLineAt(text, Number(position)) : null, message: `Invalid JSON: ${message}` });
+    return result;
+  }
+
+  const root = typeof data === 'object' && data !== null && !Array.isArray(data) ? (data as Record<string, unknown>) : null;
+  if (!root || !Array.isArray(root.questions)) {
+    result.errors.push({ line: 1, message: 'Expected an object with a "questions" list.' });
+    return result;
+  }
+  if (root.version !== undefined && root.version !== QUIZ_FILE_VERSION) {
+    result.errors.push({ line: 1, message: `Unsupported quiz file version ${JSON.stringify(root.version)} (expected ${QUIZ_FILE_VERSION}).` });
+    return result;
+  }
+
+  const lines = findJsonQuestionLines(text);
+  root.questions.forEach((value, index) => {
+    const line = lines[index] ?? 1;
+    const read = readJsonQuestion(value);
+    if ('error' in read) {
+      result.errors.push({ line, message: read.error });
+    } else {
+      addQuestion(result, line, read.question);
+    }
+  });
+  return result;
+}
+
+/**
+ * RFC 4180 records, each with the line it starts on (quoted cells may span lines).
+ */
+function readCsvRecords(text: string, delimiter: string): { records: { line: number; cells: string[] }[] } | { error: ImportIssue } {
+  const records: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let line = 1;
+  let recordLine = 1;
+  let quoteLine: number | null = null; // Set while inside a quoted cell
+  for (let position = 0; position < text.length; position++) {
+    const char = text[position];
+    if (quoteLine !== null) {
+      if (char === '"' && text[position + 1] === '"') {
+        cell += '"';
+        position++;
+      } else if (char === '"') {
+        quoteLine = null;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoteLine = line;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[position + 1] === '\n') position++;
+      cells.push(cell);
+      records.push({ line: recordLine, cells });
+      cells = [];
+      cell = '';
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (quoteLine !== null) {
+    return { error: { line: quoteLine, message: 'A quoted cell is never closed.' } };
+  }
+  if (cell !== '' || cells.length > 0) {
+    cells.push(cell);
+    records.push({ line: recordLine, cells });
+  }
+  return { records };
+}
+
+function parseQuizCsv(text: string): ImportResult {
+  const result: ImportResult = { questions: [], errors: [], warnings: [] };
+  // Spreadsheets in some locales save with semicolons
+  const firstLine = text.split('\n', 1)[0];
+  const read = readCsvRecords(text, !firstLine.includes(',') && firstLine.includes(';') ? ';' : ',');
+  if ('error' in read) {
+    result.errors.push(read.error);
+    return result;
+  }
+  const [header, ...rows] = read.records.filter((record) => record.cells.some((cell) => cell.trim()));
+  if (!header) return result;
+
+  // Column names, option columns as their number
+  const columns = header.cells.map((name) => {
+    const column = name.trim().toLowerCase().replace(/[\s-]+/g, '_');
+    const option = column.match(/^option_?(\d+)$/);
+    return option ? Number(option[1]) : column;
+  });
+  columns.forEach((column, index) => {
+    if (typeof column === 'string' && !['type', 'question', 'answer', 'time_limit_seconds', 'subject', 'difficulty', 'tags'].includes(column)) {
+      result.errors.push({ line: header.line, message: `Unknown column "${header.cells[index].trim()}".` });
+    } else if (columns.indexOf(column) !== index) {
+      result.errors.push({ line: header.line, message: `Column "${header.cells[index].trim()}" appears twice.` });
+    }
+  });
+  if (!columns.includes('question')) {
+    result.errors.push({ line: header.line, message: 'The header row needs a "question" column.' });
+  }
+  if (result.errors.length > 0) return result;
+
+  const optionColumns = columns
+    .flatMap((column, index) => (typeof column === 'number' ? [{ number: column, index }] : []))
+    .sort((a, b) => a.number - b.number);
+
+  for (const row of rows) {
+    const cell = (column: string) => row.cells[columns.indexOf(column)]?.trim() ?? '';
+    if (row.cells.slice(columns.length).some((extra) => extra.trim())) {
+      result.errors.push({ line: row.line, message: 'The row has more cells than the header.' });
+      continue;
+    }
+    const type = readQuestionType(cell('type'));
+    if (!type) {
+      result.errors.push({ line: row.line, message: `Unknown question type "${cell('type')}".` });
+      continue;
+    }
+
+    // Empty option cells are skipped; the answer column refers to options by their column number
+    const filled = optionColumns.flatMap(({ number, index }) => (row.cells[index]?.trim() ? [{ number, text: row.cells[index].trim() }] : []));
+    const question: QuizFileQuestion = {
+      type,
+      text: cell('question'),
+      timeLimitSeconds: readTimeLimit(cell('time_limit_seconds')),
+      subject: cell('subject'),
+      difficulty: cell('difficulty'),
+      tags: cell('tags').split(','),
+    };
+    if (type === 'matching') {
+      const pairs = filled.map(({ text }) => readPair(text));
+      const missing = pairs.findIndex((pair) => !pair);
+      if (missing >= 0) {
+        result.errors.push({ line: row.line, message: `Option ${filled[missing].number} must be written "item => match".` });
+        continue;
+      }
+      question.options = pairs.map((pair) => pair!.option);
+      question.matches = pairs.map((pair) => pair!.match);
+    } else if (filled.length > 0) {
+      question.options = filled.map(({ text }) => text);
+    }
+    const answer = readAnswer(type, cell('answer'), filled.map(({ number }) => number));
+    if ('error' in answer) {
+      result.errors.push({ line: row.line, message: answer.error });
+      continue;
+    }
+    addQuestion(result, row.line, { ...question, ...answer });
+  }
+  return result;
+}
+
+interface MarkdownQuestion {
+  line: number;
+  text: string;
+  items: { line: number; text: string; ticked: boolean }[];
+  fields: Map<string, { line: number; value: string }>; // type, time, answer, subject, difficulty and tags
+}
+
+function addMarkdownQuestion(result: ImportResult, entry: MarkdownQuestion) {
+  const typeField = entry.fields.get('type');
+  const type = readQuestionType(typeField?.value ?? '');
+  if (!type) {
+    result.errors.push({ line: typeField?.line ?? entry.line, message: `Unknown question type "${typeField?.value}".` });
+    return;
+  }
+  const question: QuizFileQuestion = {
+    type,
+    text: entry.text,
+    timeLimitSeconds: readTimeLimit(entry.fields.get('time')?.value ?? ''),
+    subject: entry.fields.get('subject')?.value,
+    difficulty: entry.fields.get('difficulty')?.value,
+    tags: entry.fields.get('tags')?.value.split(','),
+  };
+
+  if (type === 'matching') {
+    question.options = [];
+    question.matches = [];
+    for (const item of entry.items) {
+      const pair = readPair(item.text);
+      if (!pair) {
+        result.errors.push({ line: item.line, message: 'Matching pairs must be written "item => match".' });
+        return;
+      }
+      question.options.push(pair.option);
+      question.matches.push(pair.match);
+    }
+  } else if (entry.items.length > 0) {
+    question.options = entry.items.map((item) => item.text);
+  }
+
+  const ticked = entry.items.filter((item) => item.ticked);
+  if (ticked.length > 0 && type !== 'multiple_choice' && type !== 'multi_select') {
+    result.errors.push({ line: ticked[0].line, message: `${getQuestionTypeLabel(type)} questions have no options to tick.` });
+    return;
+  }
+  if (ticked.length > 0) {
+    question.correct = entry.items.flatMap((item, index) => (item.ticked ? [index] : []));
+  }
+
+  const answerField = entry.fields.get('answer');
+  if (answerField) {
+    if (ticked.length > 0) {
+      result.errors.push({ line: answerField.line, message: 'Tick the correct options or give an "answer:" line, not both.' });
+      return;
+    }
+    const answer = readAnswer(type, answerField.value, entry.items.map((_, index) => index + 1));
+    if ('error' in answer) {
+      result.errors.push({ line: answerField.line, message: answer.error });
+      return;
+    }
+    Object.assign(question, answer);
+  }
+  addQuestion(result, entry.line, question);
+}
+
+function parseQuizMarkdown(text: string): ImportResult {
+  const result: ImportResult = { questions: [], errors: [], warnings: [] };
+  let current: MarkdownQuestion | null = null;
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = index + 1;
+    const content = rawLine.trim();
+    const heading = content.match(/^(#+)\s+(.*)$/);
+    if (heading && heading[1].length === 2) {
+      if (current) addMarkdownQuestion(result, current);
+      current = { line, text: heading[2], items: [], fields: new Map() };
+      return;
+    }
+    // The title and the description before the first question are not imported
+    if (!current || !content) return;
+
+    const item = content.match(/^(?:[-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/);
+    const field = content.match(/^(type|time|answer|subject|difficulty|tags)\s*:\s*(.*)$/i);
+    if (heading) {
+      result.errors.push({ line, message: 'Questions must be "##" headings.' });
+    } else if (item) {
+      current.items.push({ line, text: item[2], ticked: item[1] === 'x' || item[1] === 'X' });
+    } else if (field) {
+      const name = field[1].toLowerCase();
+      if (current.fields.has(name)) {
+        result.errors.push({ line, message: `"${name}:" is given twice for this question.` });
+      } else {
+        current.fields.set(name, { line, value: field[2] });
+      }
+    } else {
+      result.errors.push({ line, message: 'Expected an option ("- ...") or a "type:", "time:", "answer:", "subject:", "difficulty:" or "tags:" line.' });
+    }
+  });
+  if (current) addMarkdownQuestion(result, current);
+  return result;
+}
+
+/**
+ * Picks the format of an uploaded or pasted quiz file from its name, or failing that its content.
+ */
+export function detectQuizFileFormat(fileName: string, text: string): QuizFileFormat {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'json') return 'json';
+  if (extension === 'csv') return 'csv';
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+  if (extension === 'xml') return 'moodle_xml';
+  if (extension === 'gift') return 'gift';
+  const start = text.trimStart();
+  if (start.startsWith('{')) return 'json';
+  if (start.startsWith('<')) return 'moodle_xml';
+  if (start.startsWith('#')) return 'markdown';
+  // GIFT questions end in an answer block: "Question text {=right ~wrong}"
+  return /^(::|\$CATEGORY:|\/\/)/.test(start) || /\{[^}\n]*\}/.test(text) ? 'gift' : 'csv';
+}
+
+// Moodle questions go through the same checks as our own formats
+function checkMoodleQuestions(read: ReadQuestions): ImportResult {
+  const result: ImportResult = { questions: [], errors: read.errors, warnings: read.warnings };
+  for (const { line, question } of read.questions) addQuestion(result, line, question);
+  return result;
+}
+
+function readQuizFile(format: QuizFileFormat, text: string): ImportResult {
+  switch (format) {
+    case 'json':
+      return parseQuizJson(text);
+    case 'csv':
+      return parseQuizCsv(text);
+    case 'markdown':
+      return parseQuizMarkdown(text);
+    case 'moodle_xml':
+      return checkMoodleQuestions(readMoodleXml(text));
+    case 'gift':
+      return checkMoodleQuestions(readGift(text));
+  }
+}
+
+/**
+ * Reads and checks every question of a quiz file. Only import the questions if there are no errors.
+ */
+export function parseQuizFile(format: QuizFileFormat, text: string): ImportResult {
+  const content = text.replace(/^\uFEFF/, ''); // Byte order mark some editors write
+  const result = readQuizFile(format, content);
+  if (result.errors.length === 0 && result.questions.length === 0) {
+    const message = result.warnings.length > 0 ? 'None of the questions in the file can be imported.' : 'The file contains no questions.';
+    result.errors.push({ line: null, message });
+  }
+  result.errors.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+  result.warnings.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+  return result;
+}
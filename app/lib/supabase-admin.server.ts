@@ -0,0 +1,34 @@
+import { createClient } from '@supabase/supabase-js';
+
+// Server-only Supabase client used by the WebSocket game server and the join action.
+// The game server has no user session of its own, so it needs the service role key
+// to read quiz questions and keep game rows up to date past RLS. Players join through
+// the join action only, which inserts their row with this client once the nickname passed.
+const supabaseUrl = process.env.VITE_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const anonKey = process.env.VITE_SUPABASE_ANON_KEY;
+
+if (!supabaseUrl) {
+  console.error('Error: VITE_SUPABASE_URL environment variable is not set.');
+  throw new Error('VITE_SUPABASE_URL is not defined for the game server.');
+}
+
+if (!serviceRoleKey) {
+  // Fall back to the anon key so local setups keep working, but most reads/writes will be blocked by RLS.
+  console.warn('WARNING: SUPABASE_SERVICE_ROLE_KEY is not set. The game server will use the anon key and RLS will block question loading, game updates and player joins.');
+}
+
+const supabaseKey = serviceRoleKey || anonKey;
+if (!supabaseKey) {
+  console.error('Error: Neither SUPABASE_SERVICE_ROLE_KEY nor VITE_SUPABASE_ANON_KEY is set.');
+  throw new Error('No Supabase key configured for the game server.');
+}
+
+export const supabaseAdmin = createClient(supabaseUrl, supabaseKey, {
+  auth: {
+    // Never persist or refresh a session on the server; the service role key is used as-is
+    persistSession: false,
+    autoRefreshToken: false,
+    detectSessionInUrl: false,
+  },
+});
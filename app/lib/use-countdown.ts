@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+
+// Estimate of (server clock - local clock) in ms, from a message carrying the server's Date.now().
+// Ignores network latency, which is small compared to typical clock skew on phones.
+export function getClockOffset(serverTime: number) {
+  return serverTime - Date.now();
+}
+
+// Seconds left until a server-side deadline, corrected by the clock offset and ticking locally.
+// Returns null when there is no deadline.
+export function useCountdown(deadline: number | null, clockOffsetMs: number) {
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (deadline === null) {
+      setSecondsLeft(null);
+      return;
+    }
+    const update = () => {
+      const remainingMs = deadline - (Date.now() + clockOffsetMs);
+      setSecondsLeft(Math.max(0, Math.ceil(remainingMs / 1000)));
+    };
+    update();
+    const interval = setInterval(update, 250);
+    return () => clearInterval(interval);
+  }, [deadline, clockOffsetMs]);
+
+  return secondsLeft;
+}
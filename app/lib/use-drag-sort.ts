@@ -0,0 +1,90 @@
+import { useRef, useState } from 'react';
+import type { CSSProperties, PointerEvent } from 'react';
+
+// Vertical drag-and-drop sorting for short lists (ordering and matching questions).
+// Uses Pointer Events, so mouse, pen and touch all work the same way. Items get touch-action: none
+// so dragging on a phone moves the item instead of scrolling the page.
+
+interface DragState {
+  index: number; // Item being dragged
+  pointerId: number;
+  startY: number;
+  offsetY: number;
+  targetIndex: number; // Where the item would land if dropped now
+  rects: DOMRect[]; // Item positions measured when the drag started
+}
+
+const SHIFT_TRANSITION = 'transform 150ms ease';
+
+// The list with the item at `from` moved to `to`
+export function moveItem<T>(list: T[], from: number, to: number): T[] {
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+export function useDragSort(itemCount: number, onReorder: (from: number, to: number) => void) {
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const items = useRef<(HTMLElement | null)[]>([]);
+
+  // Keyboard/button alternative to dragging
+  const move = (index: number, delta: number) => {
+    const to = index + delta;
+    if (to >= 0 && to < itemCount) onReorder(index, to);
+  };
+
+  const onPointerDown = (index: number, event: PointerEvent<HTMLElement>) => {
+    if (event.pointerType === 'mouse' && event.button !== 0) return;
+    if ((event.target as HTMLElement).closest('button')) return; // Let the move buttons work
+    const rects = items.current.slice(0, itemCount).map((element) => element?.getBoundingClientRect()).filter((rect): rect is DOMRect => !!rect);
+    if (rects.length !== itemCount) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({ index, pointerId: event.pointerId, startY: event.clientY, offsetY: 0, targetIndex: index, rects });
+  };
+
+  const onPointerMove = (event: PointerEvent<HTMLElement>) => {
+    if (!drag || event.pointerId !== drag.pointerId) return;
+    const offsetY = event.clientY - drag.startY;
+    const dragged = drag.rects[drag.index];
+    const center = dragged.top + dragged.height / 2 + offsetY;
+    // The new position is the number of other items whose middle is above the dragged item's middle
+    const targetIndex = drag.rects.filter((rect, index) => index !== drag.index && rect.top + rect.height / 2 < center).length;
+    setDrag({ ...drag, offsetY, targetIndex });
+  };
+
+  const onPointerUp = (event: PointerEvent<HTMLElement>) => {
+    if (!drag || event.pointerId !== drag.pointerId) return;
+    setDrag(null);
+    if (drag.targetIndex !== drag.index) onReorder(drag.index, drag.targetIndex);
+  };
+
+  // While dragging, the dragged item follows the pointer and the items it passed make room for it
+  const getStyle = (index: number): CSSProperties => {
+    const base: CSSProperties = { touchAction: 'none', userSelect: 'none', cursor: drag ? 'grabbing' : 'grab' };
+    if (!drag) return base;
+    if (index === drag.index) {
+      return { ...base, transform: `translateY(${drag.offsetY}px)`, position: 'relative', zIndex: 10 };
+    }
+    const { rects } = drag;
+    const gap = rects.length > 1 ? rects[1].top - rects[0].bottom : 0;
+    const shift = rects[drag.index].height + gap;
+    let offset = 0;
+    if (drag.index < index && index <= drag.targetIndex) offset = -shift;
+    if (drag.targetIndex <= index && index < drag.index) offset = shift;
+    return { ...base, transform: `translateY(${offset}px)`, transition: SHIFT_TRANSITION };
+  };
+
+  const getItemProps = (index: number) => ({
+    ref: (element: HTMLElement | null) => {
+      items.current[index] = element;
+    },
+    onPointerDown: (event: PointerEvent<HTMLElement>) => onPointerDown(index, event),
+    onPointerMove,
+    onPointerUp,
+    onPointerCancel: () => setDrag(null),
+    style: getStyle(index),
+  });
+
+  return { dragIndex: drag?.index ?? null, getItemProps, move };
+}
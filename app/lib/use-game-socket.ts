@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { NO_RECONNECT_CLOSE_CODES, encodeMessage, parseServerMessage } from './game-protocol';
+import type { ClientMessage, ServerMessage } from './game-protocol';
+
+// Reconnect delays double from the initial value up to the cap, with jitter so a
+// room full of phones does not reconnect in lockstep after a server hiccup
+const INITIAL_RECONNECT_DELAY_MS = 500;
+const MAX_RECONNECT_DELAY_MS = 10000;
+
+interface GameSocketOptions {
+  enabled: boolean; // Connect only while true
+  label: string; // Prefix for console logs, e.g. 'Host' or the player's nickname
+  onOpen: () => void; // Called after every (re)connect; send the handshake from here
+  onMessage: (message: ServerMessage) => void;
+}
+
+function getReconnectDelay(attempt: number) {
+  const delay = Math.min(INITIAL_RECONNECT_DELAY_MS * 2 ** (attempt - 1), MAX_RECONNECT_DELAY_MS);
+  return Math.round(delay * (0.5 + Math.random() / 2));
+}
+
+// WebSocket connection to the game server that reconnects with exponential backoff
+// until it is closed on purpose (unmount, close(), or a close code in NO_RECONNECT_CLOSE_CODES).
+export function useGameSocket({ enabled, label, onOpen, onMessage }: GameSocketOptions) {
+  const [isConnected, setIsConnected] = useState(false);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0); // > 0 while waiting to reconnect
+  const ws = useRef<WebSocket | null>(null);
+  const stop = useRef<() => void>(() => {}); // Ends the current connection loop without reconnecting
+  // Latest callbacks, so reconnects do not depend on (and re-run for) every render
+  const onOpenRef = useRef(onOpen);
+  const onMessageRef = useRef(onMessage);
+  useEffect(() => {
+    onOpenRef.current = onOpen;
+    onMessageRef.current = onMessage;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    // Each run has its own flag and timer, so a socket from an earlier run that closes after
+    // cleanup cannot schedule a reconnect of its own
+    let stopped = false;
+    let attempt = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      const wsProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      const wsUrl = `${wsProtocol}//${window.location.host}/ws`;
+      console.log(`${label} connecting to WebSocket ${wsUrl}${attempt > 0 ? ` (attempt ${attempt + 1})` : ''}`);
+      const socket = new WebSocket(wsUrl);
+      ws.current = socket;
+
+      socket.onopen = () => {
+        console.log(`${label} WebSocket connected.`);
+        attempt = 0;
+        setReconnectAttempt(0);
+        setIsConnected(true);
+        onOpenRef.current();
+      };
+
+      socket.onmessage = (event) => {
+        const message = parseServerMessage(event.data);
+        if (!message) {
+          console.error(`${label} received malformed message:`, event.data);
+          return;
+        }
+        console.log(`${label} received message:`, message);
+        onMessageRef.current(message);
+      };
+
+      socket.onerror = (error) => {
+        console.error(`${label} WebSocket error:`, error);
+      };
+
+      socket.onclose = (event) => {
+        console.log(`${label} WebSocket disconnected. Code: ${event.code}, Reason: ${event.reason}`);
+        if (ws.current === socket) ws.current = null;
+        setIsConnected(false);
+        if (stopped || NO_RECONNECT_CLOSE_CODES.includes(event.code)) {
+          setReconnectAttempt(0);
+          return;
+        }
+        attempt += 1;
+        setReconnectAttempt(attempt);
+        const delay = getReconnectDelay(attempt);
+        console.log(`${label} reconnecting in ${delay}ms...`);
+        retryTimer = setTimeout(connect, delay);
+      };
+    };
+
+    const stopRun = () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+    };
+    stop.current = stopRun;
+    connect();
+
+    return () => {
+      stopRun();
+      if (ws.current) {
+        console.log(`${label} closing WebSocket connection.`);
+        ws.current.onclose = null; // Closes after the next run may have connected; leave its state alone
+        ws.current.close();
+        ws.current = null;
+      }
+      setIsConnected(false);
+      setReconnectAttempt(0);
+    };
+  }, [enabled, label]);
+
+  const send = useCallback((message: ClientMessage) => {
+    if (ws.current && ws.current.readyState === WebSocket.OPEN) {
+      ws.current.send(encodeMessage(message));
+      return true;
+    }
+    console.error('WebSocket not connected or not open.');
+    return false;
+  }, []);
+
+  // Close for good, e.g. once the game is over
+  const close = useCallback(() => {
+    stop.current();
+    ws.current?.close(1000, 'Client closed');
+  }, []);
+
+  return { isConnected, reconnectAttempt, send, close };
+}
@@ -11,4 +11,18 @@ export function generateGamePin(length: number = 6): string {
   return result;
 }
 
+/**
+ * Formats a rank as an English ordinal: 1 -> "1st", 2 -> "2nd", 11 -> "11th", 23 -> "23rd".
+ */
+export function formatOrdinal(n: number): string {
+  const lastTwo = n % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) return `${n}th`;
+  switch (n % 10) {
+    case 1: return `${n}st`;
+    case 2: return `${n}nd`;
+    case 3: return `${n}rd`;
+    default: return `${n}th`;
+  }
+}
+
 // Add other utility functions here if needed
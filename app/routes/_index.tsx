@@ -101,7 +101,12 @@ export default function Index() {
                 >
                   Host New Game
                 </Link>
-                {/* Add other admin links here if needed */}
+                <Link
+                  to="/quizzes"
+                  className="w-full block text-center rounded bg-teal-600 px-4 py-2 text-white font-semibold hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 mb-4"
+                >
+                  Manage Quizzes
+                </Link>
               </div>
             )}
 
@@ -1,17 +1,112 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useCallback } from 'react';
 import { useParams, useLoaderData } from '@remix-run/react';
 import type { LoaderFunctionArgs, MetaFunction } from '@remix-run/node';
 import { json } from '@remix-run/node';
 // import { supabase } from '~/lib/supabase'; // Don't use browser client in loader
 import { requireAdmin, createServerClient } from '~/lib/session.server'; // Import server client creator
+import { getAnswerOptionStyle } from '~/lib/answer-options';
+import { getClockOffset, useCountdown } from '~/lib/use-countdown';
+import { DEFAULT_LOBBY_SETTINGS, DEFAULT_TEAM_SETTINGS, MAX_PLAYERS_LIMIT, MAX_TEAMS, PROTOCOL_VERSION } from '~/lib/game-protocol';
+import type {
+  AnswerDistributionPayload,
+  ClientMessage,
+  CorrectAnswer,
+  GamePhase,
+  LeaderboardEntry,
+  LobbySettings,
+  PlayerListEntry,
+  PlayerSummary,
+  QuestionPayload,
+  ServerMessage,
+  TeamEntry,
+  TeamLeaderboardEntry,
+  TeamSettings,
+} from '~/lib/game-protocol';
+import { formatCorrectAnswer, hasOptions, isCorrectOption, isGraded } from '~/lib/question-types';
+import { useGameSocket } from '~/lib/use-game-socket';
+import { MediaView } from '~/lib/question-media-view';
+
+// Status dot and label for the player list
+function getPresence(player: PlayerListEntry) {
+  if (!player.connected) return { dot: 'bg-gray-400', label: 'offline' };
+  if (player.idle) return { dot: 'bg-yellow-400', label: 'idle' };
+  return { dot: 'bg-green-500', label: 'online' };
+}
+
+// Best guess from the games row until the server reports the live phase on HOST_JOIN
+function phaseFromStatus(status: string): GamePhase {
+  if (status === 'lobby') return 'lobby';
+  if (status === 'finished') return 'ended';
+  return 'question';
+}
+
+// Aggregated responses of an ungraded slide; the server re-sends them after every response
+function LiveResults({ question, distribution }: { question: QuestionPayload; distribution: AnswerDistributionPayload | null }) {
+  const counts = distribution?.counts ?? [];
+  const responses = distribution?.responses ?? [];
+
+  if (question.type === 'word_cloud' || question.type === 'open_text') {
+    if (responses.length === 0) {
+      return <p className="text-center text-xl text-gray-600 dark:text-gray-400">Waiting for responses...</p>;
+    }
+    if (question.type === 'open_text') {
+      return (
+        <ul className="grid gap-3 sm:grid-cols-2">
+          {responses.map((response) => (
+            <li key={response.answer} className="p-3 rounded bg-gray-100 dark:bg-gray-800 whitespace-pre-wrap break-words">
+              {response.answer}
+              {response.count > 1 && <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">×{response.count}</span>}
+            </li>
+          ))}
+        </ul>
+      );
+    }
+    // Word cloud: the more players gave a word, the bigger it gets
+    const topCount = Math.max(...responses.map((response) => response.count));
+    return (
+      <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-2" role="img" aria-label="Word cloud">
+        {responses.map((response) => (
+          <span
+            key={response.answer}
+            title={`${response.count}`}
+            style={{ fontSize: `${1 + (response.count / topCount) * 2.5}rem` }}
+            className="font-bold leading-tight text-indigo-600 dark:text-indigo-400"
+          >
+            {response.answer}
+          </span>
+        ))}
+      </div>
+    );
+  }
 
-// Define Player type for frontend state
-interface PlayerInfo {
-  id: string;
-  nickname: string;
-  score: number;
+  // Polls and rating scales: one bar per option or rating
+  const labels = question.type === 'rating' ? counts.map((_, index) => String(index + 1)) : question.options;
+  const topCount = Math.max(1, ...counts);
+  const ratingCount = counts.reduce((sum, count) => sum + count, 0);
+  const averageRating = counts.reduce((sum, count, index) => sum + count * (index + 1), 0) / Math.max(1, ratingCount);
+  return (
+    <div className="mx-auto max-w-2xl space-y-2">
+      {labels.map((label, index) => {
+        const count = counts[index] ?? 0;
+        return (
+          <div key={index} className="flex items-center gap-3">
+            <span className="w-40 truncate text-right font-semibold">{label}</span>
+            <div className="flex-1 h-8 rounded bg-gray-100 dark:bg-gray-800">
+              <div className="h-full rounded bg-indigo-500 transition-all" style={{ width: `${(count / topCount) * 100}%` }} />
+            </div>
+            <span className="w-10 text-xl font-bold">{count}</span>
+          </div>
+        );
+      })}
+      {question.type === 'rating' && ratingCount > 0 && (
+        <p className="pt-2 text-center text-xl font-semibold">Average: {averageRating.toFixed(1)} / {question.ratingScale}</p>
+      )}
+    </div>
+  );
 }
 
+const DEFAULT_TEAM_NAMES = ['Red', 'Blue', 'Green', 'Yellow', 'Purple', 'Orange', 'Pink', 'Teal'];
+
 export const meta: MetaFunction<typeof loader> = ({ data }) => {
   const gamePin = data?.game?.game_pin ?? 'Host';
   return [{ title: `Host Game: ${gamePin}` }];
@@ -116,82 +211,118 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
 
 export default function HostGame() {
   const { game, initialPlayers } = useLoaderData<typeof loader>();
-  const [players, setPlayers] = useState<PlayerInfo[]>(initialPlayers);
+  // Presence is unknown until the server's first PLAYER_LIST_UPDATE
+  const [players, setPlayers] = useState<PlayerListEntry[]>(
+    initialPlayers.map((player: PlayerSummary) => ({ ...player, connected: false, idle: false, teamId: null })),
+  );
   const [sharedState, setSharedState] = useState<number>(0); // Initial shared state
-  const [isConnected, setIsConnected] = useState(false);
-  const ws = useRef<WebSocket | null>(null);
+  const [phase, setPhase] = useState<GamePhase>(phaseFromStatus(game.status));
+  const [question, setQuestion] = useState<QuestionPayload | null>(null);
+  const [clockOffset, setClockOffset] = useState(0); // Server clock minus local clock, in ms
+  const [progress, setProgress] = useState({ answered: 0, total: 0 });
+  const [correctAnswer, setCorrectAnswer] = useState<CorrectAnswer | null>(null);
+  const [distribution, setDistribution] = useState<AnswerDistributionPayload | null>(null);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[] | null>(null);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const [lobbySettings, setLobbySettings] = useState<LobbySettings>(DEFAULT_LOBBY_SETTINGS);
+  const [maxPlayersInput, setMaxPlayersInput] = useState(''); // Empty means no limit
+  const [nicknameQueue, setNicknameQueue] = useState<PlayerListEntry[]>([]); // Nicknames waiting for approval
+  const [teamSettings, setTeamSettings] = useState<TeamSettings>(DEFAULT_TEAM_SETTINGS);
+  const [teams, setTeams] = useState<TeamEntry[]>([]);
+  const [teamCount, setTeamCount] = useState(2);
+  const [teamLeaderboard, setTeamLeaderboard] = useState<TeamLeaderboardEntry[] | null>(null);
 
   const gameId = game.id; // The actual UUID game ID
   const gamePin = game.game_pin; // The user-facing PIN
+  const secondsLeft = useCountdown(phase === 'question' ? question?.deadline ?? null : null, clockOffset);
+
+  // Handle a message from the game server
+  const handleMessage = (message: ServerMessage) => {
+    switch (message.type) {
+      case 'PLAYER_LIST_UPDATE':
+        setPlayers(message.payload.players);
+        break;
+      case 'SHARED_STATE_UPDATE':
+        setSharedState(message.payload.newState);
+        break;
+      case 'PHASE_CHANGED':
+        setPhase(message.payload.phase);
+        break;
+      case 'GAME_STARTED':
+        setPhase('question');
+        setLeaderboard(null);
+        setTeamLeaderboard(null);
+        break;
+      case 'SHOW_QUESTION':
+        setQuestion(message.payload);
+        setClockOffset(getClockOffset(message.payload.serverTime));
+        setProgress({ answered: 0, total: 0 }); // ANSWER_PROGRESS follows right after
+        setCorrectAnswer(null);
+        setDistribution(null);
+        setLeaderboard(null);
+        setTeamLeaderboard(null);
+        break;
+      case 'TIMER_SYNC':
+        setClockOffset(getClockOffset(message.payload.serverTime));
+        // The deadline moves if the game was paused while the host reconnected
+        setQuestion((current) => current && current.index === message.payload.questionIndex
+          ? { ...current, deadline: message.payload.deadline }
+          : current);
+        break;
+      case 'ANSWER_PROGRESS':
+        setProgress({ answered: message.payload.answered, total: message.payload.total });
+        break;
+      case 'QUESTION_RESULTS':
+        setCorrectAnswer(message.payload.correctAnswer);
+        break;
+      case 'ANSWER_DISTRIBUTION':
+        setDistribution(message.payload);
+        break;
+      case 'SHOW_LEADERBOARD':
+        setLeaderboard(message.payload.leaderboard);
+        setTeamLeaderboard(message.payload.teamLeaderboard);
+        break;
+      case 'LOBBY_SETTINGS_UPDATE':
+        setLobbySettings(message.payload);
+        setMaxPlayersInput(message.payload.maxPlayers?.toString() ?? '');
+        break;
+      case 'NICKNAME_QUEUE_UPDATE':
+        setNicknameQueue(message.payload.players);
+        break;
+      case 'TEAMS_UPDATE':
+        setTeamSettings(message.payload.settings);
+        setTeams(message.payload.teams);
+        break;
+      case 'GAME_ENDED':
+        setPhase('ended');
+        setLeaderboard(message.payload.leaderboard);
+        setTeamLeaderboard(message.payload.teamLeaderboard);
+        break;
+      case 'ERROR':
+        console.warn(`Server error ${message.payload.code}: ${message.payload.message}`);
+        setLastError(message.payload.message);
+        break;
+      default:
+        console.log('Host received unhandled message type:', message.type);
+    }
+  };
 
-  // WebSocket connection and message handling
-  useEffect(() => {
-    const wsProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const wsUrl = `${wsProtocol}//${window.location.host}/ws`;
-    ws.current = new WebSocket(wsUrl);
-    console.log(`Host attempting to connect WebSocket to ${wsUrl} for game ${gameId}`);
-
-    ws.current.onopen = () => {
-      console.log(`Host WebSocket connected for game ${gameId}`);
-      setIsConnected(true); // Set connected state HERE
+  // WebSocket connection; reconnects with backoff and re-sends HOST_JOIN, which resumes a paused game
+  const { isConnected, reconnectAttempt, send } = useGameSocket({
+    enabled: true,
+    label: `Host (game ${gameId})`,
+    onOpen: () => {
       // Send host identification message with gameId (UUID) and gamePin
-      ws.current?.send(JSON.stringify({
-          type: 'HOST_JOIN',
-          payload: { gameId: gameId, gamePin: gamePin }
-      }));
-    };
-
-    ws.current.onmessage = (event) => {
-      try {
-        const message = JSON.parse(event.data);
-        console.log('Host received message:', message);
-
-        switch (message.type) {
-          case 'PLAYER_LIST_UPDATE':
-            setPlayers(message.payload.players);
-            break;
-          case 'SHARED_STATE_UPDATE':
-            setSharedState(message.payload.newState);
-            break;
-          // Handle other messages like GAME_STARTED, SHOW_QUESTION etc.
-          default:
-            console.log('Host received unhandled message type:', message.type);
-        }
-      } catch (error) {
-        console.error('Error parsing message or handling update:', error);
-      }
-    };
-
-    ws.current.onerror = (error) => {
-      console.error('Host WebSocket error:', error);
-      setIsConnected(false); // Set disconnected on error
-    };
-
-    ws.current.onclose = (event) => {
-      console.log(`Host WebSocket disconnected for game ${gameId}. Code: ${event.code}, Reason: ${event.reason}`);
-      setIsConnected(false); // Set disconnected on close
-      // Maybe show a disconnected message or attempt reconnect
-    };
-
-    // Cleanup on component unmount
-    return () => {
-      if (ws.current) {
-         console.log(`Closing host WebSocket connection for game ${gameId}`);
-         ws.current.close();
-         ws.current = null;
-      }
-    };
-  }, [gameId, gamePin]); // Reconnect if gameId/gamePin changes (shouldn't happen often)
+      send({ type: 'HOST_JOIN', payload: { protocolVersion: PROTOCOL_VERSION, gameId: gameId, gamePin: gamePin } });
+    },
+    onMessage: handleMessage,
+  });
 
   // Function to send message to WebSocket server
-  const sendMessage = useCallback((message: any) => {
-    if (ws.current && ws.current.readyState === WebSocket.OPEN) {
-      ws.current.send(JSON.stringify(message));
-    } else {
-      console.error('WebSocket not connected or not open.');
-      // Optionally provide user feedback here
-    }
-  }, []);
+  const sendMessage = useCallback((message: ClientMessage) => {
+    setLastError(null);
+    send(message);
+  }, [send]);
 
   // Handler to update shared state
   const updateSharedState = (increment: number) => {
@@ -203,21 +334,70 @@ export default function HostGame() {
       });
   };
 
-  // Handler to start the game
-  const startGame = () => {
-      sendMessage({ type: 'START_GAME', payload: {} });
+  // Host game commands; the server validates every phase change
+  const startGame = () => sendMessage({ type: 'START_GAME' });
+  const revealAnswer = () => sendMessage({ type: 'REVEAL_ANSWER' });
+  const showLeaderboard = () => sendMessage({ type: 'SHOW_LEADERBOARD' });
+  const nextQuestion = () => sendMessage({ type: 'NEXT_QUESTION' });
+  const endGame = () => {
+    if (confirm('End the game for everyone?')) {
+      sendMessage({ type: 'END_GAME' });
+    }
   };
 
+  // Lobby moderation
+  const kickPlayer = (player: PlayerListEntry, ban: boolean) => {
+    const prompt = ban
+      ? `Remove ${player.nickname} and ban them from rejoining this game?`
+      : `Remove ${player.nickname} from the game? They can join again while the lobby is open.`;
+    if (confirm(prompt)) {
+      sendMessage({ type: 'KICK_PLAYER', payload: { playerId: player.id, ban } });
+    }
+  };
+  const updateLobbySettings = (settings: LobbySettings) => sendMessage({ type: 'UPDATE_LOBBY_SETTINGS', payload: settings });
+  const reviewNickname = (playerId: string, approve: boolean) => sendMessage({ type: 'REVIEW_NICKNAME', payload: { playerId, approve } });
+  const saveMaxPlayers = () => {
+    const value = maxPlayersInput.trim();
+    const maxPlayers = value === '' ? null : Number(value);
+    if (maxPlayers !== null && !(Number.isInteger(maxPlayers) && maxPlayers >= 1 && maxPlayers <= MAX_PLAYERS_LIMIT)) {
+      setLastError(`Max players must be a whole number between 1 and ${MAX_PLAYERS_LIMIT}, or empty for no limit.`);
+      return;
+    }
+    updateLobbySettings({ ...lobbySettings, maxPlayers });
+  };
+
+  // Team mode
+  const updateTeamSettings = (settings: TeamSettings) => sendMessage({ type: 'UPDATE_TEAM_SETTINGS', payload: settings });
+  const createTeams = () => {
+    if (teams.length > 0 && !confirm('Replace the current teams? Everyone will need a team again.')) return;
+    sendMessage({ type: 'SET_TEAMS', payload: { names: DEFAULT_TEAM_NAMES.slice(0, teamCount) } });
+  };
+  const assignTeam = (playerId: string, teamId: string | null) => sendMessage({ type: 'ASSIGN_TEAM', payload: { playerId, teamId } });
+  const autoBalanceTeams = () => sendMessage({ type: 'AUTO_BALANCE_TEAMS' });
+
+  const isLastQuestion = question !== null && question.index + 1 >= question.totalQuestions;
+  const maxCount = distribution ? Math.max(1, ...distribution.counts) : 1;
+  const revealedAnswer = distribution?.correctAnswer ?? correctAnswer;
+  const sortedPlayers = [...players].sort((a, b) => b.score - a.score);
+  const onlineCount = players.filter((player) => player.connected && !player.idle).length;
+  const teamNames = new Map(teams.map((team) => [team.id, team.name]));
+  const showTeams = teamSettings.enabled && teams.length > 0;
 
   return (
     <div className="p-6">
       <h1 className="text-3xl font-bold mb-4">Hosting Game: {gamePin}</h1>
       {/* Display connection status more clearly */}
       <p className={`mb-2 font-semibold ${isConnected ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
-         Status: {game.status} {isConnected ? '(Connected)' : '(Disconnected)'}
+         Status: {phase} {isConnected ? '(Connected)' : reconnectAttempt > 0 ? '(Reconnecting...)' : '(Disconnected)'}
       </p>
       <p className="mb-6">Share this PIN with players: <strong className="text-2xl tracking-widest">{gamePin}</strong></p>
 
+      {lastError && (
+        <p className="mb-4 p-3 text-red-700 bg-red-100 border border-red-400 rounded dark:bg-red-900 dark:text-red-200 dark:border-red-700">
+          {lastError}
+        </p>
+      )}
+
       {/* Shared State Control */}
       <div className="my-6 p-4 border rounded dark:border-gray-700">
           <h2 className="text-xl font-semibold mb-3">Shared State Control</h2>
@@ -241,41 +421,450 @@ export default function HostGame() {
       </div>
 
 
+      {/* Lobby moderation: only matters while players can still join */}
+      {phase === 'lobby' && (
+        <div className="my-6 p-4 border rounded dark:border-gray-700">
+          <h2 className="text-xl font-semibold mb-3">Lobby</h2>
+          <div className="flex flex-wrap items-center gap-4">
+            <button
+              onClick={() => updateLobbySettings({ ...lobbySettings, locked: !lobbySettings.locked })}
+              disabled={!isConnected}
+              className={`${lobbySettings.locked ? 'bg-gray-500 hover:bg-gray-600' : 'bg-orange-500 hover:bg-orange-600'} text-white font-bold py-2 px-4 rounded disabled:opacity-50`}
+            >
+              {lobbySettings.locked ? 'Unlock Lobby' : 'Lock Lobby'}
+            </button>
+            <label htmlFor="max-players" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Max players
+            </label>
+            <input
+              id="max-players"
+              type="number"
+              min={1}
+              max={MAX_PLAYERS_LIMIT}
+              placeholder="No limit"
+              value={maxPlayersInput}
+              onChange={(event) => setMaxPlayersInput(event.target.value)}
+              className="w-28 px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            />
+            <button
+              onClick={saveMaxPlayers}
+              disabled={!isConnected}
+              className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+            {lobbySettings.locked ? 'Locked: no new players can join.' : 'Open: players with the PIN can join.'}
+            {lobbySettings.maxPlayers !== null && ` Limited to ${lobbySettings.maxPlayers} players.`}
+          </p>
+          <div className="mt-4 flex flex-col gap-2">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={lobbySettings.nicknameApproval}
+                disabled={!isConnected}
+                onChange={(event) => updateLobbySettings({ ...lobbySettings, nicknameApproval: event.target.checked })}
+              />
+              Approve nicknames before players appear
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={lobbySettings.randomNicknames}
+                disabled={!isConnected}
+                onChange={(event) => updateLobbySettings({ ...lobbySettings, randomNicknames: event.target.checked })}
+              />
+              Random nicknames only
+            </label>
+          </div>
+        </div>
+      )}
+
+      {/* Team mode: set up in the lobby, scoring can still change later */}
+      {phase === 'lobby' && (
+        <div className="my-6 p-4 border rounded dark:border-gray-700">
+          <h2 className="text-xl font-semibold mb-3">Teams</h2>
+          <div className="flex flex-col gap-2">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={teamSettings.enabled}
+                disabled={!isConnected}
+                onChange={(event) => updateTeamSettings({ ...teamSettings, enabled: event.target.checked })}
+              />
+              Team mode
+            </label>
+            {teamSettings.enabled && (
+              <>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={teamSettings.playersChoose}
+                    disabled={!isConnected}
+                    onChange={(event) => updateTeamSettings({ ...teamSettings, playersChoose: event.target.checked })}
+                  />
+                  Players choose their team
+                </label>
+                <label htmlFor="team-scoring" className="flex items-center gap-2">
+                  Team score
+                  <select
+                    id="team-scoring"
+                    value={teamSettings.scoring}
+                    disabled={!isConnected}
+                    onChange={(event) => updateTeamSettings({ ...teamSettings, scoring: event.target.value === 'average' ? 'average' : 'sum' })}
+                    className="px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  >
+                    <option value="sum">Sum of member scores</option>
+                    <option value="average">Average member score</option>
+                  </select>
+                </label>
+              </>
+            )}
+          </div>
+          {teamSettings.enabled && (
+            <>
+              <div className="mt-4 flex flex-wrap items-center gap-4">
+                <label htmlFor="team-count" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Number of teams
+                </label>
+                <input
+                  id="team-count"
+                  type="number"
+                  min={2}
+                  max={MAX_TEAMS}
+                  value={teamCount}
+                  onChange={(event) => setTeamCount(Math.min(MAX_TEAMS, Math.max(2, Number(event.target.value) || 2)))}
+                  className="w-20 px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                />
+                <button
+                  onClick={createTeams}
+                  disabled={!isConnected}
+                  className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded disabled:opacity-50"
+                >
+                  {teams.length > 0 ? 'Recreate Teams' : 'Create Teams'}
+                </button>
+                <button
+                  onClick={autoBalanceTeams}
+                  disabled={!isConnected || teams.length === 0}
+                  className="bg-purple-500 hover:bg-purple-600 text-white font-bold py-2 px-4 rounded disabled:opacity-50"
+                >
+                  Auto-balance
+                </button>
+              </div>
+              {teams.length > 0 ? (
+                <ul className="mt-4 grid grid-cols-2 gap-3">
+                  {teams.map((team) => (
+                    <li key={team.id} className="p-3 border rounded dark:border-gray-700">
+                      <span className="font-semibold">{team.name}</span> ({team.playerIds.length})
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">Create teams before starting the game.</p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Nickname approval queue */}
+      {nicknameQueue.length > 0 && (
+        <div className="my-6 p-4 border rounded border-yellow-400 bg-yellow-50 dark:border-yellow-700 dark:bg-yellow-900/30">
+          <h2 className="text-xl font-semibold mb-3">Waiting for approval ({nicknameQueue.length})</h2>
+          <ul className="space-y-2">
+            {nicknameQueue.map((player) => (
+              <li key={player.id} className="flex items-center gap-2">
+                <span className={player.connected ? '' : 'text-gray-400 dark:text-gray-500'}>{player.nickname}</span>
+                {!player.connected && <span className="text-xs text-gray-500 dark:text-gray-400">offline</span>}
+                <button
+                  onClick={() => reviewNickname(player.id, true)}
+                  disabled={!isConnected}
+                  className="ml-auto bg-green-500 hover:bg-green-600 text-white text-sm font-bold py-1 px-3 rounded disabled:opacity-50"
+                >
+                  Approve
+                </button>
+                <button
+                  onClick={() => reviewNickname(player.id, false)}
+                  disabled={!isConnected}
+                  className="bg-red-500 hover:bg-red-600 text-white text-sm font-bold py-1 px-3 rounded disabled:opacity-50"
+                >
+                  Reject
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Game Controls */}
-      {game.status === 'lobby' && (
-         <button
-            onClick={startGame}
-            disabled={!isConnected || players.length === 0}
-            className="bg-green-500 hover:bg-green-600 text-white font-bold py-2 px-4 rounded mr-2 disabled:opacity-50"
-         >
-           Start Game
-         </button>
+      <div className="flex flex-wrap gap-2">
+        {phase === 'lobby' && (
+           <button
+              onClick={startGame}
+              disabled={!isConnected || players.length === 0}
+              className="bg-green-500 hover:bg-green-600 text-white font-bold py-2 px-4 rounded disabled:opacity-50"
+           >
+             Start Game
+           </button>
+        )}
+        {phase === 'question' && (
+           <button
+              onClick={revealAnswer}
+              disabled={!isConnected}
+              className="bg-yellow-500 hover:bg-yellow-600 text-white font-bold py-2 px-4 rounded disabled:opacity-50"
+           >
+             Reveal Answer
+           </button>
+        )}
+        {phase === 'reveal' && (
+           <button
+              onClick={showLeaderboard}
+              disabled={!isConnected}
+              className="bg-purple-500 hover:bg-purple-600 text-white font-bold py-2 px-4 rounded disabled:opacity-50"
+           >
+             Show Leaderboard
+           </button>
+        )}
+        {(phase === 'reveal' || phase === 'leaderboard') && (
+           <button
+              onClick={nextQuestion}
+              disabled={!isConnected}
+              className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded disabled:opacity-50"
+           >
+             {isLastQuestion ? 'Finish Game' : 'Next Question'}
+           </button>
+        )}
+        {phase !== 'lobby' && phase !== 'ended' && (
+           <button
+              onClick={endGame}
+              disabled={!isConnected}
+              className="bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-4 rounded disabled:opacity-50"
+           >
+             End Game
+           </button>
+        )}
+      </div>
+
+      {/* Question presentation */}
+      {question && (phase === 'question' || phase === 'reveal') && (
+        <section className="mt-8 p-6 border rounded dark:border-gray-700">
+          <div className="flex items-center justify-between mb-4 text-gray-600 dark:text-gray-400">
+            <span>Question {question.index + 1} of {question.totalQuestions}</span>
+            {phase === 'question' ? (
+              <span className="text-3xl font-bold text-gray-900 dark:text-gray-100" aria-live="polite">{secondsLeft ?? question.timeLimit}s</span>
+            ) : (
+              <span className="font-semibold">Time&apos;s up!</span>
+            )}
+          </div>
+          <h2 className="text-3xl font-bold text-center mb-6">{question.text}</h2>
+          {question.media && <MediaView media={question.media} className="mx-auto mb-6 max-h-96 max-w-full" />}
+
+          {!isGraded(question.type) ? (
+            <>
+              <LiveResults question={question} distribution={distribution} />
+              {phase === 'question' && (
+                <p className="mt-6 text-center text-2xl font-semibold" aria-live="polite">
+                  {progress.answered} of {progress.total} responded
+                </p>
+              )}
+            </>
+          ) : phase === 'question' ? (
+            <>
+              {hasOptions(question.type) ? (
+                <div className="grid grid-cols-2 gap-3">
+                  {question.options.map((option, index) => {
+                    const style = getAnswerOptionStyle(index);
+                    const media = question.optionMedia[index];
+                    return (
+                      <div key={index} className={`${style.bar} text-white text-xl font-semibold rounded p-4 flex items-center gap-3`}>
+                        <span aria-hidden="true">{style.shape}</span> {option}
+                        {media && <MediaView media={media} className="ml-auto max-h-24 max-w-[50%]" />}
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : question.type === 'ordering' ? (
+                <>
+                  <p className="mb-3 text-center text-gray-600 dark:text-gray-400">Players put these in the right order:</p>
+                  <ul className="mx-auto max-w-xl space-y-2">
+                    {question.options.map((option, index) => {
+                      const media = question.optionMedia[index];
+                      return (
+                        <li key={index} className="p-3 rounded bg-indigo-600 text-white text-xl font-semibold flex items-center gap-3">
+                          {option}
+                          {media && <MediaView media={media} className="ml-auto max-h-20 max-w-[50%]" />}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </>
+              ) : question.type === 'matching' ? (
+                <>
+                  <p className="mb-3 text-center text-gray-600 dark:text-gray-400">Players match each item on the left with one on the right:</p>
+                  <div className="mx-auto max-w-2xl grid grid-cols-2 gap-6">
+                    {[question.options, question.matchTargets].map((column, columnIndex) => (
+                      <ul key={columnIndex} className="space-y-2">
+                        {column.map((label, index) => {
+                          // Media belongs to the left-hand items
+                          const media = columnIndex === 0 ? question.optionMedia[index] : null;
+                          return (
+                            <li key={index} className="p-3 rounded bg-indigo-600 text-white text-xl font-semibold flex items-center gap-3">
+                              {label}
+                              {media && <MediaView media={media} className="ml-auto max-h-20 max-w-[50%]" />}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    ))}
+                  </div>
+                </>
+              ) : (
+                <p className="text-center text-xl text-gray-600 dark:text-gray-400">
+                  {question.type === 'numeric' ? 'Players enter a number on their device.' : 'Players type their answer on their device.'}
+                </p>
+              )}
+              {question.type === 'multi_select' && (
+                <p className="mt-3 text-center text-gray-600 dark:text-gray-400">More than one answer can be correct.</p>
+              )}
+              <p className="mt-6 text-center text-2xl font-semibold" aria-live="polite">
+                {progress.answered} of {progress.total} answered
+              </p>
+            </>
+          ) : !hasOptions(question.type) ? (
+            // Results: the accepted answer and the most common answers players gave
+            <div className="text-center">
+              {revealedAnswer?.type === 'ordering' ? (
+                <ol className="mx-auto max-w-xl space-y-2 list-decimal list-inside text-left text-2xl font-bold text-green-700 dark:text-green-400">
+                  {revealedAnswer.order.map((optionIndex) => <li key={optionIndex}>{question.options[optionIndex]}</li>)}
+                </ol>
+              ) : revealedAnswer?.type === 'matching' ? (
+                <ul className="mx-auto max-w-xl space-y-2 text-2xl font-bold text-green-700 dark:text-green-400">
+                  {revealedAnswer.matches.map((targetIndex, index) => (
+                    <li key={index}>{question.options[index]} = {question.matchTargets[targetIndex]}</li>
+                  ))}
+                </ul>
+              ) : revealedAnswer && (
+                <p className="text-2xl font-bold text-green-700 dark:text-green-400">
+                  ✓ {formatCorrectAnswer(revealedAnswer, question.options)}
+                </p>
+              )}
+              {distribution && (
+                <>
+                  <p className="mt-2 text-gray-600 dark:text-gray-400">{distribution.correctCount} correct</p>
+                  <ul className="mt-4 inline-block space-y-1 text-left">
+                    {distribution.responses.map((response) => (
+                      <li key={response.answer} className={response.correct ? 'font-semibold text-green-700 dark:text-green-400' : ''}>
+                        {response.answer}: {response.count}
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          ) : (
+            // Results: how many players chose each option, correct ones highlighted
+            <div className="flex items-end justify-center gap-6 h-64" role="img" aria-label="Answer distribution">
+              {question.options.map((option, index) => {
+                const style = getAnswerOptionStyle(index);
+                const count = distribution?.counts[index] ?? 0;
+                const isCorrect = isCorrectOption(revealedAnswer, index);
+                return (
+                  <div key={index} className="flex flex-col items-center justify-end h-full w-24">
+                    <span className="text-xl font-bold mb-1">{count}</span>
+                    <div
+                      className={`${style.bar} w-full rounded-t ${isCorrect ? 'ring-4 ring-green-400' : 'opacity-40'}`}
+                      style={{ height: `${(count / maxCount) * 80}%`, minHeight: '4px' }}
+                    />
+                    <span className={`mt-2 text-center text-sm ${isCorrect ? 'font-bold text-green-700 dark:text-green-400' : ''}`}>
+                      <span aria-hidden="true">{style.shape}</span> {option} {isCorrect ? '✓' : ''}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </section>
       )}
-       {game.status === 'active' && (
-         <button
-            // onClick={nextQuestion} // TODO: Implement next question logic
-            disabled={!isConnected}
-            className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded mr-2 disabled:opacity-50"
-         >
-           Next Question
-         </button>
-       )}
-
-
-      <h2 className="text-2xl font-semibold mt-8 mb-4">Players ({players.length})</h2>
+
+      {/* Leaderboard (between questions) and final standings */}
+      {(phase === 'leaderboard' && leaderboard) || phase === 'ended' ? (
+        <section className="mt-8 p-6 border rounded dark:border-gray-700">
+          <h2 className="text-2xl font-bold mb-4">{phase === 'ended' ? 'Final Standings' : 'Leaderboard'}</h2>
+          <ol className="space-y-2">
+            {(leaderboard ?? sortedPlayers.map((player, index) => ({ ...player, rank: index + 1 })))
+              .slice(0, 10)
+              .map((entry) => (
+                <li key={entry.id} className="flex justify-between text-lg">
+                  <span>{entry.rank}. {entry.nickname}</span>
+                  <span className="font-semibold">{entry.score}</span>
+                </li>
+              ))}
+          </ol>
+          {teamLeaderboard && (
+            <>
+              <h3 className="text-xl font-bold mt-6 mb-3">Teams ({teamSettings.scoring === 'average' ? 'average score' : 'total score'})</h3>
+              <ol className="space-y-2">
+                {teamLeaderboard.map((entry) => (
+                  <li key={entry.id} className="flex justify-between text-lg">
+                    <span>{entry.rank}. {entry.name} ({entry.memberCount})</span>
+                    <span className="font-semibold">{entry.score}</span>
+                  </li>
+                ))}
+              </ol>
+            </>
+          )}
+        </section>
+      ) : null}
+
+
+      <h2 className="text-2xl font-semibold mt-8 mb-4">
+        Players ({onlineCount} online of {players.length}{lobbySettings.maxPlayers !== null ? `, max ${lobbySettings.maxPlayers}` : ''})
+      </h2>
       {players.length > 0 ? (
-        <ul className="list-disc pl-5 space-y-2">
-          {players.map((player) => (
-            <li key={player.id}>
-              {player.nickname} (Score: {player.score})
-            </li>
-          ))}
+        <ul className="space-y-2">
+          {players.map((player) => {
+            const presence = getPresence(player);
+            return (
+              <li key={player.id} className={`flex items-center gap-2 ${player.connected ? '' : 'text-gray-400 dark:text-gray-500'}`}>
+                <span aria-hidden="true" className={`inline-block w-2.5 h-2.5 rounded-full ${presence.dot}`} />
+                {player.nickname} (Score: {player.score})
+                <span className="text-xs text-gray-500 dark:text-gray-400">{presence.label}</span>
+                {showTeams && (phase === 'lobby' ? (
+                  <select
+                    aria-label={`Team of ${player.nickname}`}
+                    value={player.teamId ?? ''}
+                    disabled={!isConnected}
+                    onChange={(event) => assignTeam(player.id, event.target.value || null)}
+                    className="ml-2 text-sm px-2 py-1 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  >
+                    <option value="">No team</option>
+                    {teams.map((team) => <option key={team.id} value={team.id}>{team.name}</option>)}
+                  </select>
+                ) : (
+                  <span className="text-sm text-gray-600 dark:text-gray-400">{player.teamId ? teamNames.get(player.teamId) : 'No team'}</span>
+                ))}
+                <button
+                  onClick={() => kickPlayer(player, false)}
+                  disabled={!isConnected}
+                  className="ml-auto text-sm text-red-600 hover:underline disabled:opacity-50 dark:text-red-400"
+                >
+                  Kick
+                </button>
+                <button
+                  onClick={() => kickPlayer(player, true)}
+                  disabled={!isConnected}
+                  className="text-sm text-red-800 hover:underline disabled:opacity-50 dark:text-red-300"
+                >
+                  Ban
+                </button>
+              </li>
+            );
+          })}
         </ul>
       ) : (
         <p>No players have joined yet.</p>
       )}
-
-      {/* TODO: Display current question, results, etc. */}
     </div>
   );
 }
@@ -1,9 +1,12 @@
-import type { ActionFunctionArgs, MetaFunction } from '@remix-run/node';
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from '@remix-run/node';
 import { json, redirect } from '@remix-run/node';
-import { Form, useActionData, useNavigation } from '@remix-run/react';
+import { Form, Link, useActionData, useLoaderData, useNavigation } from '@remix-run/react';
 // import { generate } from 'random-words'; // Remove this import
 import { requireAdmin, createServerClient } from '~/lib/session.server';
 import { generateGamePin } from '~/lib/utils'; // Import our utility function
+import { DIFFICULTIES, MAX_RANDOM_QUIZ_QUESTIONS, normalizeTag } from '~/lib/question-bank';
+import type { DifficultyMix } from '~/lib/question-bank';
+import { createRandomQuiz } from '~/lib/question-bank.server';
 
 export const meta: MetaFunction = () => [{ title: 'Host New Game - Live Quiz' }];
 
@@ -50,10 +53,76 @@ async function generateUniqueGamePin(supabase: ReturnType<typeof createServerCli
 }
 
 
+// Loader: List the admin's quizzes so one can be picked for the new game, and the tags of their
+// question bank for building a random quiz instead
+export async function loader({ request }: LoaderFunctionArgs) {
+  const adminUser = await requireAdmin(request);
+  const supabase = createServerClient(request);
+
+  const { data: quizzes, error } = await supabase
+    .from('quizzes')
+    .select('id, title, quiz_questions(count)')
+    .eq('owner_id', adminUser.id)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('[host._index.tsx loader] Error loading quizzes:', error);
+    throw new Response(`Error loading quizzes: ${error.message}`, { status: 500 });
+  }
+
+  const { data: bankQuestions, error: bankError } = await supabase
+    .from('questions')
+    .select('tags')
+    .eq('owner_id', adminUser.id);
+  if (bankError) {
+    console.error('[host._index.tsx loader] Error loading question bank tags:', bankError);
+  }
+
+  return json({
+    quizzes: (quizzes ?? []).map((quiz) => ({
+      id: quiz.id,
+      title: quiz.title,
+      questionCount: quiz.quiz_questions?.[0]?.count ?? 0,
+    })),
+    bankSize: bankQuestions?.length ?? 0,
+    tags: [...new Set((bankQuestions ?? []).flatMap((question) => question.tags ?? []))].sort(),
+  });
+}
+
+// Reads the random quiz form: how many questions, an optional tag and the difficulty weights
+function parseRandomQuizForm(formData: FormData) {
+  const count = Number(formData.get('questionCount'));
+  if (!Number.isInteger(count) || count < 1 || count > MAX_RANDOM_QUIZ_QUESTIONS) {
+    return { error: `Pick between 1 and ${MAX_RANDOM_QUIZ_QUESTIONS} questions.` } as const;
+  }
+  const mix: DifficultyMix = { easy: 0, medium: 0, hard: 0 };
+  for (const { difficulty, label } of DIFFICULTIES) {
+    const weight = Number(formData.get(`mix-${difficulty}`)?.toString().trim() || 0);
+    if (!Number.isFinite(weight) || weight < 0) {
+      return { error: `The ${label.toLowerCase()} share must be zero or a positive number.` } as const;
+    }
+    mix[difficulty] = weight;
+  }
+  const tag = normalizeTag(formData.get('tag')?.toString() ?? '') || null;
+  return { values: { count, tag, mix } } as const;
+}
+
+
 export async function action({ request }: ActionFunctionArgs) {
   const adminUser = await requireAdmin(request); // Ensure user is logged in and is an admin
   console.log(`\n--- [host._index.tsx action] --- Admin ${adminUser.email} attempting to create game.`);
 
+  const formData = await request.formData();
+  const isRandomQuiz = formData.get('intent') === 'random-quiz';
+  const chosenQuizId = formData.get('quizId')?.toString();
+  if (!chosenQuizId && !isRandomQuiz) {
+    return json({ error: 'Please choose a quiz for this game.' }, { status: 400 });
+  }
+  const randomQuizForm = isRandomQuiz ? parseRandomQuizForm(formData) : null;
+  if (randomQuizForm?.error) {
+    return json({ error: randomQuizForm.error }, { status: 400 });
+  }
+
   // --- Add logging here ---
   let supabase;
   try {
@@ -72,6 +141,31 @@ export async function action({ request }: ActionFunctionArgs) {
   }
   // --- End logging ---
 
+  // A random quiz is built from the admin's question bank first, then hosted like any other quiz
+  let quizId = chosenQuizId ?? '';
+  if (randomQuizForm?.values) {
+    const randomQuiz = await createRandomQuiz(supabase, adminUser.id, randomQuizForm.values);
+    if ('error' in randomQuiz) {
+      return json({ error: randomQuiz.error }, { status: randomQuiz.status });
+    }
+    quizId = randomQuiz.quizId;
+  }
+
+  // Make sure the quiz exists, belongs to this admin and actually has questions
+  const { data: quiz, error: quizError } = await supabase
+    .from('quizzes')
+    .select('id, quiz_questions(count)')
+    .eq('id', quizId)
+    .eq('owner_id', adminUser.id)
+    .single();
+
+  if (quizError || !quiz) {
+    console.error(`[host._index.tsx action] Quiz ${quizId} not found for admin ${adminUser.email}:`, quizError);
+    return json({ error: 'The selected quiz was not found.' }, { status: 404 });
+  }
+  if ((quiz.quiz_questions?.[0]?.count ?? 0) === 0) {
+    return json({ error: 'The selected quiz has no questions yet.' }, { status: 400 });
+  }
 
   try {
     const gamePin = await generateUniqueGamePin(supabase); // Pass the validated client
@@ -83,6 +177,7 @@ export async function action({ request }: ActionFunctionArgs) {
       .insert({
         game_pin: gamePin,
         host_id: adminUser.id, // Set the host_id during creation
+        quiz_id: quiz.id, // Questions are loaded from this quiz by the game server
         status: 'lobby', // Initial status
       })
       .select('id, game_pin') // Select the ID and PIN of the new game
@@ -119,24 +214,130 @@ export async function action({ request }: ActionFunctionArgs) {
 
 
 export default function HostIndexPage() {
+  const { quizzes, bankSize, tags } = useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
   const isCreating = navigation.state === 'submitting';
+  const playableQuizzes = quizzes.filter((quiz) => quiz.questionCount > 0);
 
   return (
     <div className="flex flex-col items-center justify-center gap-6 p-8">
       <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">Host a New Game</h1>
-      <p className="text-gray-600 dark:text-gray-400">Click the button below to create a new game lobby.</p>
-
-      <Form method="post">
-        <button
-          type="submit"
-          disabled={isCreating}
-          className="px-6 py-3 bg-indigo-600 text-white font-semibold rounded-md shadow hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 dark:focus:ring-offset-gray-800"
-        >
-          {isCreating ? 'Creating Game...' : 'Create New Game'}
-        </button>
-      </Form>
+      <p className="text-gray-600 dark:text-gray-400">Pick a quiz and create a new game lobby.</p>
+
+      {playableQuizzes.length === 0 ? (
+        <p className="text-gray-600 dark:text-gray-400">
+          You need a quiz with at least one question first.{' '}
+          <Link to="/quizzes" className="text-blue-600 hover:underline dark:text-blue-400">
+            Create a quiz
+          </Link>
+        </p>
+      ) : (
+        <Form method="post" className="flex flex-col items-center gap-4">
+          <div>
+            <label htmlFor="quizId" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Quiz
+            </label>
+            <select
+              id="quizId"
+              name="quizId"
+              required
+              className="w-72 rounded border border-gray-300 px-3 py-2 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-100"
+            >
+              {playableQuizzes.map((quiz) => (
+                <option key={quiz.id} value={quiz.id}>
+                  {quiz.title} ({quiz.questionCount} question{quiz.questionCount === 1 ? '' : 's'})
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={isCreating}
+            className="px-6 py-3 bg-indigo-600 text-white font-semibold rounded-md shadow hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 dark:focus:ring-offset-gray-800"
+          >
+            {isCreating ? 'Creating Game...' : 'Create New Game'}
+          </button>
+        </Form>
+      )}
+
+      {bankSize > 0 && (
+        <Form method="post" className="flex w-full max-w-md flex-col gap-4 p-4 border rounded dark:border-gray-700">
+          <input type="hidden" name="intent" value="random-quiz" />
+          <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100">Or build a random quiz</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Picks questions at random from your question bank ({bankSize} question{bankSize === 1 ? '' : 's'}) and saves them as a new quiz.
+          </p>
+          <div className="flex gap-3">
+            <div>
+              <label htmlFor="questionCount" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Questions
+              </label>
+              <input
+                type="number"
+                id="questionCount"
+                name="questionCount"
+                required
+                min={1}
+                max={MAX_RANDOM_QUIZ_QUESTIONS}
+                defaultValue={Math.min(10, bankSize)}
+                className="w-24 rounded border border-gray-300 px-3 py-2 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-100"
+              />
+            </div>
+            <div className="flex-1">
+              <label htmlFor="tag" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Tagged
+              </label>
+              <select
+                id="tag"
+                name="tag"
+                className="w-full rounded border border-gray-300 px-3 py-2 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-100"
+              >
+                <option value="">Any tag</option>
+                {tags.map((tag) => (
+                  <option key={tag} value={tag}>
+                    {tag}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Difficulty mix (relative shares, e.g. 30 / 50 / 20; leave empty for any difficulty)
+            </legend>
+            <div className="flex gap-3">
+              {DIFFICULTIES.map(({ difficulty, label }) => (
+                <label key={difficulty} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  {label}
+                  <input
+                    type="number"
+                    name={`mix-${difficulty}`}
+                    min={0}
+                    className="w-20 rounded border border-gray-300 px-2 py-1 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-100"
+                  />
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <button
+            type="submit"
+            disabled={isCreating}
+            className="self-center px-6 py-3 bg-indigo-600 text-white font-semibold rounded-md shadow hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 dark:focus:ring-offset-gray-800"
+          >
+            {isCreating ? 'Creating Game...' : 'Build Quiz and Create Game'}
+          </button>
+        </Form>
+      )}
+
+      <div className="flex gap-4">
+        <Link to="/quizzes" className="text-sm text-blue-600 hover:underline dark:text-blue-400">
+          Manage quizzes
+        </Link>
+        <Link to="/questions" className="text-sm text-blue-600 hover:underline dark:text-blue-400">
+          Question bank
+        </Link>
+      </div>
 
       {actionData?.error && (
         <p className="mt-4 text-sm text-red-600 dark:text-red-400">
@@ -1,6 +1,6 @@
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
 import { redirect } from "@remix-run/node";
-import { destroySession } from "~/lib/session.server";
+import { destroySessionCookie } from "~/lib/session.server";
 import { supabase } from "~/lib/supabase"; // Import Supabase client
 
 // Loader: Redirect GET requests to home or login
@@ -19,5 +19,5 @@ export async function action({ request }: ActionFunctionArgs) {
   }
 
   // Destroy the Remix session cookie
-  return destroySession(request);
+  return destroySessionCookie(request);
 }
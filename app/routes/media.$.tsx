@@ -0,0 +1,43 @@
+import type { LoaderFunctionArgs } from '@remix-run/node';
+import { getUser } from '~/lib/session.server';
+import { getMediaStore } from '~/lib/media-store.server';
+
+// Resource route serving question media from the media store to signed-in hosts and players.
+// Supports single byte ranges, which browsers need to seek in audio and video (clip start times).
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const user = await getUser(request);
+  if (!user) {
+    throw new Response('Sign in to view quiz media.', { status: 401 });
+  }
+
+  const key = params['*'] ?? '';
+  const file = await getMediaStore().load(key);
+  if (!file) {
+    throw new Response('Media not found.', { status: 404 });
+  }
+
+  const size = file.data.byteLength;
+  const headers = new Headers({
+    'Content-Type': file.contentType,
+    'Accept-Ranges': 'bytes',
+    // Keys are never reused, so a file never changes
+    'Cache-Control': 'private, max-age=31536000, immutable',
+  });
+
+  const range = request.headers.get('Range')?.match(/^bytes=(\d*)-(\d*)$/);
+  if (range && (range[1] || range[2])) {
+    // "bytes=a-b", "bytes=a-" or the last n bytes, "bytes=-n"
+    const start = range[1] ? Number(range[1]) : Math.max(0, size - Number(range[2]));
+    const end = range[1] && range[2] ? Math.min(Number(range[2]), size - 1) : size - 1;
+    if (start > end || start >= size) {
+      headers.set('Content-Range', `bytes */${size}`);
+      return new Response(null, { status: 416, headers });
+    }
+    headers.set('Content-Range', `bytes ${start}-${end}/${size}`);
+    headers.set('Content-Length', String(end - start + 1));
+    return new Response(file.data.subarray(start, end + 1), { status: 206, headers });
+  }
+
+  headers.set('Content-Length', String(size));
+  return new Response(file.data, { headers });
+}
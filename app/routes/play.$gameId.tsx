@@ -3,12 +3,114 @@ import { json, redirect } from '@remix-run/node';
 import { Form, Link, useActionData, useLoaderData, useNavigation } from '@remix-run/react';
 import { useEffect, useRef, useState } from 'react';
 import { requirePlayer, createServerClient } from '~/lib/session.server'; // Import server client creator
+import { getAnswerOptionStyle } from '~/lib/answer-options';
+import { getClockOffset, useCountdown } from '~/lib/use-countdown';
+import { formatOrdinal } from '~/lib/utils';
+import { generateNickname, isNicknameBlocked } from '~/lib/nicknames.server';
+import { supabaseAdmin } from '~/lib/supabase-admin.server';
+import {
+  DEFAULT_LOBBY_SETTINGS,
+  DEFAULT_TEAM_SETTINGS,
+  MAX_OPEN_TEXT_LENGTH,
+  MAX_TYPED_ANSWER_LENGTH,
+  MAX_WORD_CLOUD_LENGTH,
+  PROTOCOL_VERSION,
+} from '~/lib/game-protocol';
+import type {
+  AnswerResultPayload,
+  CorrectAnswer,
+  GamePhase,
+  LeaderboardEntry,
+  LobbySettings,
+  PlayerListEntry,
+  ProtocolErrorCode,
+  QuestionMedia,
+  QuestionPayload,
+  ServerMessage,
+  SubmittedAnswer,
+  TeamEntry,
+  TeamLeaderboardEntry,
+  TeamSettings,
+} from '~/lib/game-protocol';
+import { formatCorrectAnswer, formatSubmittedAnswer, isGraded } from '~/lib/question-types';
+import { useGameSocket } from '~/lib/use-game-socket';
+import { moveItem, useDragSort } from '~/lib/use-drag-sort';
+import { MediaView } from '~/lib/question-media-view';
 
-// Define Player type for frontend state
-interface PlayerInfo {
-  id: string;
-  nickname: string;
-  score: number;
+// Team standings under the individual leaderboard, own team highlighted
+function TeamStandings({ entries, myTeamId }: { entries: TeamLeaderboardEntry[]; myTeamId: string | null }) {
+  return (
+    <div className="w-full max-w-sm p-4 border rounded dark:border-gray-700 text-left">
+      <h2 className="text-xl font-semibold mb-2 text-center">Teams</h2>
+      <ol className="space-y-1">
+        {entries.map((entry) => (
+          <li key={entry.id} className={`flex justify-between ${entry.id === myTeamId ? 'font-bold text-indigo-600 dark:text-indigo-400' : ''}`}>
+            <span>{entry.rank}. {entry.name}</span>
+            <span>{entry.score}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+// Puzzle row height, shared by both columns of a matching question so the pairs line up
+const PUZZLE_ROW_CLASS = 'h-16 flex items-center gap-2 px-3 rounded-lg text-lg font-semibold';
+
+// Drag-and-drop list for ordering and matching questions; the arrow buttons do the same without dragging
+function SortableList({ items, onMove, disabled }: {
+  items: { key: number; label: string; media?: QuestionMedia | null }[];
+  onMove: (from: number, to: number) => void;
+  disabled: boolean;
+}) {
+  const { dragIndex, getItemProps, move } = useDragSort(items.length, onMove);
+  return (
+    <ol className="space-y-2">
+      {items.map((item, index) => (
+        <li
+          key={item.key}
+          {...(disabled ? {} : getItemProps(index))}
+          className={`${PUZZLE_ROW_CLASS} bg-indigo-600 text-white ${dragIndex === index ? 'shadow-lg ring-4 ring-indigo-300' : ''}`}
+        >
+          <span aria-hidden="true" className="text-indigo-200">⠿</span>
+          <span className="flex-1 truncate">{item.label}</span>
+          {item.media?.kind === 'image' && <MediaView media={item.media} className="h-12 max-w-[30%] pointer-events-none" />}
+          <button type="button" onClick={() => move(index, -1)} disabled={disabled || index === 0} aria-label={`Move ${item.label} up`} className="px-2 py-1 rounded bg-indigo-500 disabled:opacity-30">
+            ↑
+          </button>
+          <button type="button" onClick={() => move(index, 1)} disabled={disabled || index === items.length - 1} aria-label={`Move ${item.label} down`} className="px-2 py-1 rounded bg-indigo-500 disabled:opacity-30">
+            ↓
+          </button>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+// Audio and video attached to options cannot play inside the answer buttons, so they are listed above them
+function OptionClips({ question }: { question: QuestionPayload }) {
+  const clips = question.optionMedia.flatMap((media, index) => (media && media.kind !== 'image' ? [{ media, index }] : []));
+  if (clips.length === 0) return null;
+  return (
+    <ul className="space-y-2">
+      {clips.map(({ media, index }) => (
+        <li key={index} className="flex items-center gap-2">
+          <span className="font-semibold">{question.options[index]}</span>
+          <MediaView media={media} className="max-h-32 flex-1" />
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Errors the server sends back for a SUBMIT_ANSWER it did not record, so the player can try again
+const REJECTED_ANSWER_CODES: ProtocolErrorCode[] = ['ANSWER_CLOSED', 'INVALID_ANSWER', 'GAME_PAUSED', 'INVALID_MESSAGE', 'INTERNAL_ERROR'];
+
+// Starting arrangement of a puzzle question: items as shown (the server already shuffled them)
+function getInitialArrangement(question: QuestionPayload | null) {
+  if (question?.type === 'ordering') return question.options.map((_, index) => index);
+  if (question?.type === 'matching') return question.matchTargets.map((_, index) => index);
+  return [];
 }
 
 export const meta: MetaFunction<typeof loader> = ({ data }) => {
@@ -46,7 +148,7 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
   console.log(`[play.$gameId.tsx loader] Querying for game details with PIN: ${gamePin}`);
   const { data: game, error: dbError } = await supabase
     .from('games')
-    .select('id, game_pin, status, host_id') // Select necessary fields
+    .select('id, game_pin, status, host_id, random_nicknames') // Select necessary fields
     .eq('game_pin', gamePin)
     .single();
 
@@ -58,6 +160,26 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
      throw json({ error: errorMessage }, { status: dbError ? 500 : 404 });
   }
 
+  // A player who already joined (e.g. their tab was reloaded or discarded mid-game) goes straight back in
+  const { data: joinedPlayer, error: joinedPlayerError } = await supabase
+    .from('players')
+    .select('id, nickname')
+    .eq('game_id', game.id)
+    .eq('user_id', playerUser.id)
+    .order('joined_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (joinedPlayerError) {
+    console.error(`[play.$gameId.tsx loader] Error looking up player ${playerUser.email} in game ${gamePin}:`, joinedPlayerError);
+    throw json({ error: `Database error: ${joinedPlayerError.message}` }, { status: 500 });
+  }
+
+  if (joinedPlayer && game.status !== 'finished') {
+    console.log(`[play.$gameId.tsx loader] Player ${playerUser.email} already joined game ${gamePin} as ${joinedPlayer.nickname}. Rejoining.`);
+    return json({ game, playerUser, joinedPlayer: joinedPlayer as { id: string; nickname: string } | null });
+  }
+
    if (game.status !== 'lobby') {
      console.warn(`[play.$gameId.tsx loader] Attempt to load join page for game ${gamePin} which is not in lobby (status: ${game.status})`);
      throw json({ error: `Game is already ${game.status}. Cannot join now.` }, { status: 403 });
@@ -65,15 +187,18 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
 
   console.log(`[play.$gameId.tsx loader] Player ${playerUser.email} can join game ${gamePin}. Rendering join form.`);
   // Return game data and player info for the form page
-  return json({ game, playerUser, alreadyJoined: false }); // Assuming alreadyJoined logic is handled elsewhere or removed for simplicity
+  return json({ game, playerUser, joinedPlayer: null as { id: string; nickname: string } | null });
 }
 
+// Generated nicknames tried before giving up when they keep colliding with names already in the game
+const MAX_RANDOM_NICKNAME_ATTEMPTS = 5;
+
 // Action: Handle the form submission to join the game
 export async function action({ request, params }: ActionFunctionArgs) {
   const playerUser = await requirePlayer(request); // Ensure user is logged in and is a player
   const gamePin = params.gameId?.toUpperCase();
   const formData = await request.formData();
-  const nickname = formData.get('nickname')?.toString().trim();
+  let nickname = formData.get('nickname')?.toString().trim();
 
   console.log(`\n--- [play.$gameId.tsx action] --- Handling join attempt for game PIN: ${gamePin} by user: ${playerUser.email}`);
 
@@ -82,11 +207,6 @@ export async function action({ request, params }: ActionFunctionArgs) {
     return json({ error: 'Game PIN missing in URL.' }, { status: 400 });
   }
 
-  if (!nickname || nickname.length === 0 || nickname.length > 20) {
-    console.warn(`[play.$gameId.tsx action] Invalid nickname provided: "${nickname}"`);
-    return json({ error: 'Nickname must be between 1 and 20 characters.' }, { status: 400 });
-  }
-
   let supabase;
   try {
     console.log("[play.$gameId.tsx action] Attempting to create server client...");
@@ -108,7 +228,7 @@ export async function action({ request, params }: ActionFunctionArgs) {
   console.log(`[play.$gameId.tsx action] Checking game status for PIN: ${gamePin}`);
   const { data: game, error: gameCheckError } = await supabase
     .from('games')
-    .select('id, status, host_id') // Select needed fields
+    .select('id, status, host_id, lobby_locked, max_players, nickname_approval, random_nicknames') // Select needed fields
     .eq('game_pin', gamePin)
     .single();
 
@@ -128,47 +248,122 @@ export async function action({ request, params }: ActionFunctionArgs) {
       return json({ error: 'Hosts cannot join their own game as a player.' }, { status: 403 });
   }
 
-   console.log(`[play.$gameId.tsx action] Checking nickname uniqueness: "${nickname}" in game ID: ${game.id}`);
-   const { data: existingNickname, error: nicknameCheckError } = await supabase
-     .from('players')
-     .select('nickname')
-     .eq('game_id', game.id)
-     .eq('nickname', nickname)
-     .maybeSingle();
-
-   if (nicknameCheckError) {
-     // *** ENHANCED LOGGING ***
-     console.error(`[play.$gameId.tsx action] Error checking nickname uniqueness for game ${gamePin}. Nickname: "${nickname}", GameID: ${game.id}`);
-     console.error('[play.$gameId.tsx action] Full Nickname Check Error:', JSON.stringify(nicknameCheckError, null, 2)); // Log the full error object
-     // *** END ENHANCED LOGGING ***
-     return json({ error: 'Database error checking nickname.' }, { status: 500 });
-   }
+  // *** Lobby moderation: locked lobby, banned user, full game (checked again with can_join_game before the insert) ***
+  if (game.lobby_locked) {
+    console.warn(`[play.$gameId.tsx action] Attempt to join locked lobby of game ${gamePin}`);
+    return json({ error: 'The host has locked this lobby. No new players can join.' }, { status: 403 });
+  }
 
-   if (existingNickname) {
-     console.warn(`[play.$gameId.tsx action] Nickname "${nickname}" already taken in game ${gamePin}.`);
-     return json({ error: `Nickname "${nickname}" is already taken in this game.` }, { status: 409 }); // 409 Conflict
-   }
+  const { data: ban, error: banCheckError } = await supabase
+    .from('game_bans')
+    .select('game_id')
+    .eq('game_id', game.id)
+    .eq('user_id', playerUser.id)
+    .maybeSingle();
+
+  if (banCheckError) {
+    console.error(`[play.$gameId.tsx action] Error checking bans for game ${gamePin}:`, banCheckError);
+    return json({ error: 'Database error checking whether you can join.' }, { status: 500 });
+  }
+
+  if (ban) {
+    console.warn(`[play.$gameId.tsx action] Banned user ${playerUser.email} attempted to rejoin game ${gamePin}.`);
+    return json({ error: 'The host removed you from this game. You cannot rejoin it.' }, { status: 403 });
+  }
+
+  if (game.max_players !== null) {
+    const { count: playerCount, error: countError } = await supabase
+      .from('players')
+      .select('id', { count: 'exact', head: true })
+      .eq('game_id', game.id);
+
+    if (countError) {
+      console.error(`[play.$gameId.tsx action] Error counting players in game ${gamePin}:`, countError);
+      return json({ error: 'Database error checking whether the game is full.' }, { status: 500 });
+    }
+
+    if ((playerCount ?? 0) >= game.max_players) {
+      console.warn(`[play.$gameId.tsx action] Game ${gamePin} is full (${playerCount}/${game.max_players}).`);
+      return json({ error: 'This game is full.' }, { status: 403 });
+    }
+  }
+
+  // *** Nickname moderation: generated names only, or the player's own name if it passes the word filter ***
+  if (!game.random_nicknames) {
+    if (!nickname || nickname.length === 0 || nickname.length > 20) {
+      console.warn(`[play.$gameId.tsx action] Invalid nickname provided: "${nickname}"`);
+      return json({ error: 'Nickname must be between 1 and 20 characters.' }, { status: 400 });
+    }
+
+    if (isNicknameBlocked(nickname)) {
+      console.warn(`[play.$gameId.tsx action] Blocked nickname "${nickname}" in game ${gamePin}.`);
+      return json({ error: 'Please choose a different nickname.' }, { status: 400 });
+    }
+  }
+
+  // A generated name that is taken is replaced with another one: the player never chose it
+  const nicknameAttempts = game.random_nicknames ? MAX_RANDOM_NICKNAME_ATTEMPTS : 1;
+  for (let attempt = 1; ; attempt++) {
+    if (game.random_nicknames) {
+      nickname = generateNickname();
+      console.log(`[play.$gameId.tsx action] Game ${gamePin} uses random nicknames. Trying "${nickname}".`);
+    }
+
+    console.log(`[play.$gameId.tsx action] Checking nickname uniqueness: "${nickname}" in game ID: ${game.id}`);
+    const { data: existingNickname, error: nicknameCheckError } = await supabase
+      .from('players')
+      .select('nickname')
+      .eq('game_id', game.id)
+      .eq('nickname', nickname)
+      .maybeSingle();
+
+    if (nicknameCheckError) {
+      // *** ENHANCED LOGGING ***
+      console.error(`[play.$gameId.tsx action] Error checking nickname uniqueness for game ${gamePin}. Nickname: "${nickname}", GameID: ${game.id}`);
+      console.error('[play.$gameId.tsx action] Full Nickname Check Error:', JSON.stringify(nicknameCheckError, null, 2)); // Log the full error object
+      // *** END ENHANCED LOGGING ***
+      return json({ error: 'Database error checking nickname.' }, { status: 500 });
+    }
+
+    if (!existingNickname) break;
+    console.warn(`[play.$gameId.tsx action] Nickname "${nickname}" already taken in game ${gamePin}.`);
+    if (attempt >= nicknameAttempts) {
+      return json({
+        error: game.random_nicknames
+          ? 'Could not find a free nickname for you. Please try again.'
+          : `Nickname "${nickname}" is already taken in this game.`,
+      }, { status: 409 }); // 409 Conflict
+    }
+  }
+
+  // *** Last check with the same rules the database used to enforce on insert (lobby, lock, cap, bans) ***
+  const { data: canJoin, error: canJoinError } = await supabase.rpc('can_join_game', { game_uuid: game.id, user_uuid: playerUser.id });
+  if (canJoinError) {
+    console.error(`[play.$gameId.tsx action] Error checking whether ${playerUser.email} can join game ${gamePin}:`, canJoinError);
+    return json({ error: 'Database error checking whether you can join.' }, { status: 500 });
+  }
+  if (!canJoin) {
+    console.warn(`[play.$gameId.tsx action] ${playerUser.email} can no longer join game ${gamePin}.`);
+    return json({ error: 'Failed to join the game. The lobby may have been locked or filled up in the meantime.' }, { status: 403 });
+  }
 
   // *** Attempt to insert the player AND return the ID ***
+  // Players cannot insert their own row (there is no INSERT policy on players), so the nickname rules above
+  // cannot be skipped by writing to the database directly
   console.log(`[play.$gameId.tsx action] Inserting player "${nickname}" (User ID: ${playerUser.id}) into game ID: ${game.id}`);
-  const { data: newPlayer, error: insertError } = await supabase
+  const { data: newPlayer, error: insertError } = await supabaseAdmin
     .from('players')
     .insert({
       game_id: game.id, // Use the validated game ID
       nickname: nickname,
-      user_id: playerUser.id // Link player to the authenticated user
+      user_id: playerUser.id, // Link player to the authenticated user
+      approved: !game.nickname_approval, // Waits in the host's queue if the game reviews nicknames
     })
     .select('id') // Select the ID of the newly inserted row
     .single(); // Expect only one row back
 
   if (insertError) {
     console.error(`[play.$gameId.tsx action] Error inserting player ${nickname} into game ${gamePin} (ID: ${game.id}):`, insertError);
-    // Check if the error is specifically RLS violation (code 42501)
-    if (insertError.code === '42501') {
-       console.error("[play.$gameId.tsx action] RLS policy violation confirmed during insert.");
-       return json({ error: 'Failed to join the game. Please ensure the game is still in the lobby and accepting players. (RLS)' }, { status: 403 });
-    }
-    // Handle other potential DB errors
     console.error('[play.$gameId.tsx action] Full Insert Error:', JSON.stringify(insertError, null, 2)); // Log full insert error too
     return json({ error: `Failed to join the game. Database error: ${insertError.message}` }, { status: 500 });
   }
@@ -187,22 +382,45 @@ export async function action({ request, params }: ActionFunctionArgs) {
 
 // Component: Form for joining a game OR Lobby view
 export default function JoinGamePage() {
-  const { game, playerUser } = useLoaderData<typeof loader>();
+  const { game, joinedPlayer } = useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
   const isSubmitting = navigation.state === 'submitting';
 
   // State for WebSocket connection, player list, and shared state
-  const [players, setPlayers] = useState<PlayerInfo[]>([]);
+  const [players, setPlayers] = useState<PlayerListEntry[]>([]);
   const [sharedState, setSharedState] = useState<number>(0); // Initial shared state for player view
-  const [isConnected, setIsConnected] = useState(false);
-  const [hasJoined, setHasJoined] = useState(actionData?.success ?? false);
-  const [joinedNickname, setJoinedNickname] = useState(actionData?.joinedNickname ?? '');
-  const [playerId, setPlayerId] = useState(actionData?.playerId ?? ''); // Store player ID
-  const ws = useRef<WebSocket | null>(null);
+  // A player who joined before (e.g. before reloading the page) comes back from the loader
+  const [hasJoined, setHasJoined] = useState(actionData?.success ?? !!joinedPlayer);
+  const [joinedNickname, setJoinedNickname] = useState(actionData?.joinedNickname ?? joinedPlayer?.nickname ?? '');
+  const [playerId, setPlayerId] = useState(actionData?.playerId ?? joinedPlayer?.id ?? ''); // Store player ID
+  // Game play state, driven by server messages
+  const [phase, setPhase] = useState<GamePhase>('lobby');
+  const [question, setQuestion] = useState<QuestionPayload | null>(null);
+  const [clockOffset, setClockOffset] = useState(0); // Server clock minus local clock, in ms
+  const [selectedAnswer, setSelectedAnswer] = useState<SubmittedAnswer | null>(null);
+  const [answerConfirmed, setAnswerConfirmed] = useState(false); // Server acknowledged selectedAnswer with ANSWER_RECEIVED
+  const [pickedOptions, setPickedOptions] = useState<number[]>([]); // Multi-select answer being put together
+  const [typedAnswer, setTypedAnswer] = useState(''); // Numeric, typed or free-text answer being entered
+  const [arrangement, setArrangement] = useState<number[]>([]); // Ordering/matching answer being arranged
+  const [correctAnswer, setCorrectAnswer] = useState<CorrectAnswer | null>(null);
+  const [answerResult, setAnswerResult] = useState<AnswerResultPayload | null>(null);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [endMessage, setEndMessage] = useState<string | null>(null);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const [hostPausedMessage, setHostPausedMessage] = useState<string | null>(null); // Set while the host is reconnecting
+  const [lobbySettings, setLobbySettings] = useState<LobbySettings>(DEFAULT_LOBBY_SETTINGS);
+  const [kickedMessage, setKickedMessage] = useState<string | null>(null); // Set once the host removed this player
+  const [nicknamePendingMessage, setNicknamePendingMessage] = useState<string | null>(null); // Set while the host reviews our nickname
+  const [teamSettings, setTeamSettings] = useState<TeamSettings>(DEFAULT_TEAM_SETTINGS);
+  const [teams, setTeams] = useState<TeamEntry[]>([]);
+  const [teamLeaderboard, setTeamLeaderboard] = useState<TeamLeaderboardEntry[] | null>(null);
+  const resumeToken = useRef<string | null>(null); // Issued by the server on IDENTIFY_SUCCESS
 
   const gameId = game.id; // The actual UUID game ID
+  const resumeTokenKey = `resumeToken:${gameId}`; // Kept in sessionStorage so a reloaded tab resumes the same session
   const gamePin = game.game_pin; // The user-facing PIN
+  const secondsLeft = useCountdown(phase === 'question' ? question?.deadline ?? null : null, clockOffset);
 
   // Update state if actionData changes (e.g., after form submission)
   useEffect(() => {
@@ -213,92 +431,523 @@ export default function JoinGamePage() {
     }
   }, [actionData]);
 
-  // Effect to establish WebSocket connection after joining
-  useEffect(() => {
-    // Only connect if the player has successfully joined (either via action or if they were already joined)
-    if (hasJoined && playerId && gameId) {
-      console.log(`Player ${joinedNickname} (ID: ${playerId}) attempting WebSocket connection for game ${gameId}...`);
-
-      const wsProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-      const wsUrl = `${wsProtocol}//${window.location.host}/ws`; // Connect to the base WS endpoint
-      console.log(`Connecting to WebSocket: ${wsUrl}`);
-
-      ws.current = new WebSocket(wsUrl);
-
-      ws.current.onopen = () => {
-        console.log(`WebSocket connected for player ${joinedNickname} in game ${gameId}`);
-        setIsConnected(true);
-        // Send PLAYER_IDENTIFY message with gameId (UUID), playerId (UUID), and nickname
-        ws.current?.send(JSON.stringify({
-            type: 'PLAYER_IDENTIFY',
-            payload: {
-                gameId: gameId,
-                playerId: playerId,
-                nickname: joinedNickname
-            }
-        }));
-      };
-
-      ws.current.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data);
-          console.log(`Player ${joinedNickname} received message:`, message);
-
-          switch (message.type) {
-            case 'PLAYER_LIST_UPDATE':
-              setPlayers(message.payload.players);
-              break;
-            case 'SHARED_STATE_UPDATE':
-              setSharedState(message.payload.newState);
-              break;
-            case 'IDENTIFY_SUCCESS':
-              console.log('Server confirmed WebSocket identification.');
-              break;
-            case 'GAME_ENDED':
-              console.log('Game ended by host.');
-              alert(`Game Over: ${message.payload || 'The host ended the game.'}`);
-              // TODO: Redirect or update UI to reflect game end
-              setHasJoined(false); // Go back to join form state maybe?
-              ws.current?.close();
-              break;
-            // Handle other game messages (e.g., SHOW_QUESTION)
-            default:
-              console.log(`Player received unhandled message type: ${message.type}`);
-          }
-        } catch (error) {
-          console.error('Error parsing WebSocket message:', error);
+  // Handle a message from the game server
+  const handleMessage = (message: ServerMessage) => {
+    switch (message.type) {
+      case 'PLAYER_LIST_UPDATE':
+        setPlayers(message.payload.players);
+        break;
+      case 'SHARED_STATE_UPDATE':
+        setSharedState(message.payload.newState);
+        break;
+      case 'IDENTIFY_SUCCESS':
+        console.log('Server confirmed WebSocket identification.');
+        resumeToken.current = message.payload.resumeToken;
+        sessionStorage.setItem(resumeTokenKey, message.payload.resumeToken);
+        setNicknamePendingMessage(null);
+        break;
+      case 'NICKNAME_PENDING':
+        setNicknamePendingMessage(message.payload.message);
+        break;
+      case 'STATE_SNAPSHOT': {
+        // Sent after every (re)connect: rebuild the screen from the server's view of the game
+        const snapshot = message.payload;
+        setPhase(snapshot.phase);
+        setQuestion(snapshot.question);
+        if (snapshot.question) setClockOffset(getClockOffset(snapshot.question.serverTime));
+        setSelectedAnswer(snapshot.answer);
+        setAnswerConfirmed(snapshot.answer !== null);
+        setArrangement(getInitialArrangement(snapshot.question));
+        setCorrectAnswer(snapshot.correctAnswer);
+        setAnswerResult(snapshot.answerResult);
+        if (snapshot.leaderboard) setLeaderboard(snapshot.leaderboard);
+        setTeamLeaderboard(snapshot.teamLeaderboard);
+        if (!snapshot.hostPaused) setHostPausedMessage(null);
+        setLastError(null);
+        break;
+      }
+      case 'PHASE_CHANGED':
+        setPhase(message.payload.phase);
+        break;
+      case 'GAME_STARTED':
+        setPhase('question');
+        break;
+      case 'SHOW_QUESTION':
+        setQuestion(message.payload);
+        setClockOffset(getClockOffset(message.payload.serverTime));
+        setSelectedAnswer(null);
+        setAnswerConfirmed(false);
+        setPickedOptions([]);
+        setTypedAnswer('');
+        setArrangement(getInitialArrangement(message.payload));
+        setCorrectAnswer(null);
+        setAnswerResult(null);
+        setLastError(null);
+        break;
+      case 'TIMER_SYNC':
+        setClockOffset(getClockOffset(message.payload.serverTime));
+        // The deadline moves if the game was paused while the host reconnected
+        setQuestion((current) => current && current.index === message.payload.questionIndex
+          ? { ...current, deadline: message.payload.deadline }
+          : current);
+        break;
+      case 'ANSWER_RECEIVED':
+        console.log(`Answer for question ${message.payload.questionIndex} locked in.`);
+        if (message.payload.questionIndex === question?.index) setAnswerConfirmed(true);
+        break;
+      case 'QUESTION_RESULTS':
+        setCorrectAnswer(message.payload.correctAnswer);
+        break;
+      case 'ANSWER_RESULT':
+        setAnswerResult(message.payload);
+        break;
+      case 'SHOW_LEADERBOARD':
+        setLeaderboard(message.payload.leaderboard);
+        setTeamLeaderboard(message.payload.teamLeaderboard);
+        break;
+      case 'GAME_ENDED':
+        console.log('Game ended:', message.payload.message);
+        setHostPausedMessage(null);
+        setPhase('ended');
+        setEndMessage(message.payload.message);
+        setLeaderboard(message.payload.leaderboard);
+        setTeamLeaderboard(message.payload.teamLeaderboard);
+        closeSocket();
+        break;
+      case 'HOST_DISCONNECTED':
+        setHostPausedMessage(message.payload.message);
+        break;
+      case 'HOST_RECONNECTED':
+        setHostPausedMessage(null);
+        setPhase(message.payload.phase);
+        break;
+      case 'LOBBY_SETTINGS_UPDATE':
+        setLobbySettings(message.payload);
+        break;
+      case 'TEAMS_UPDATE':
+        setTeamSettings(message.payload.settings);
+        setTeams(message.payload.teams);
+        break;
+      case 'KICKED':
+        setKickedMessage(message.payload.message);
+        sessionStorage.removeItem(resumeTokenKey);
+        closeSocket();
+        break;
+      case 'ERROR':
+        console.warn(`Server error ${message.payload.code}: ${message.payload.message}`);
+        if (message.payload.code === 'RESUME_FAILED') {
+          // The server no longer knows this session (e.g. it restarted): identify from scratch
+          resumeToken.current = null;
+          sessionStorage.removeItem(resumeTokenKey);
+          identify();
+          break;
         }
-      };
-
-      ws.current.onerror = (error) => {
-        console.error(`WebSocket error for player ${joinedNickname}:`, error);
-        setIsConnected(false);
-      };
-
-      ws.current.onclose = (event) => {
-        console.log(`WebSocket disconnected for player ${joinedNickname}. Code: ${event.code}, Reason: ${event.reason}`);
-        setIsConnected(false);
-        // Optionally attempt reconnect or show disconnected state
-      };
-
-      // Cleanup function
-      return () => {
-        if (ws.current) {
-          console.log(`Closing WebSocket connection for player ${joinedNickname}`);
-          ws.current.close();
-          ws.current = null;
+        if (selectedAnswer !== null && !answerConfirmed) {
+          if (REJECTED_ANSWER_CODES.includes(message.payload.code)) {
+            setSelectedAnswer(null); // Not recorded: show the answer inputs again
+          } else if (message.payload.code === 'DUPLICATE_ANSWER') {
+            setAnswerConfirmed(true); // The server already has this question's answer
+          }
         }
-      };
+        setLastError(message.payload.message);
+        break;
+      default:
+        console.log(`Player received unhandled message type: ${message.type}`);
+    }
+  };
+
+  // Send PLAYER_IDENTIFY message with gameId (UUID), playerId (UUID), and nickname
+  const identify = () => {
+    sendMessage({
+      type: 'PLAYER_IDENTIFY',
+      payload: { protocolVersion: PROTOCOL_VERSION, gameId, playerId, nickname: joinedNickname },
+    });
+  };
+
+  // Connect once the player has joined; reconnects automatically (e.g. after a phone locks) and
+  // resumes the same session with the token from IDENTIFY_SUCCESS
+  const { isConnected, reconnectAttempt, send: sendMessage, close: closeSocket } = useGameSocket({
+    enabled: hasJoined && !!playerId,
+    label: `Player ${joinedNickname}`,
+    onOpen: () => {
+      resumeToken.current ??= sessionStorage.getItem(resumeTokenKey);
+      if (resumeToken.current) {
+        sendMessage({ type: 'PLAYER_RESUME', payload: { protocolVersion: PROTOCOL_VERSION, resumeToken: resumeToken.current } });
+      } else {
+        identify();
+      }
+    },
+    onMessage: handleMessage,
+  });
+
+  const chooseTeam = (teamId: string) => sendMessage({ type: 'CHOOSE_TEAM', payload: { teamId } });
+  const myTeam = teamSettings.enabled ? teams.find((team) => team.playerIds.includes(playerId)) ?? null : null;
+
+  // Send an answer; it is only locked in once the server replies with ANSWER_RECEIVED, and
+  // comes back for another try if the server rejects it (late, invalid or paused game)
+  const submitAnswer = (answer: SubmittedAnswer) => {
+    if (!question || selectedAnswer !== null) return;
+    if (sendMessage({ type: 'SUBMIT_ANSWER', payload: { questionIndex: question.index, answer } })) {
+      setSelectedAnswer(answer);
+      setAnswerConfirmed(false);
+      setLastError(null);
+    }
+  };
+  const submitOption = (optionIndex: number) => {
+    if (question?.type === 'multiple_choice' || question?.type === 'true_false' || question?.type === 'poll') {
+      submitAnswer({ type: question.type, optionIndex });
+    }
+  };
+  const submitPickedOptions = () => {
+    if (question?.type === 'multi_select' || question?.type === 'multi_poll') {
+      submitAnswer({ type: question.type, optionIndexes: pickedOptions });
     }
-  }, [hasJoined, gameId, playerId, joinedNickname]); // Dependencies for establishing connection
+  };
+  const togglePickedOption = (optionIndex: number) => {
+    setPickedOptions((picked) => picked.includes(optionIndex) ? picked.filter((index) => index !== optionIndex) : [...picked, optionIndex]);
+  };
+  // Numeric and typed answers are entered first, then submitted
+  const submitEnteredAnswer = (event: React.FormEvent) => {
+    event.preventDefault();
+    const text = typedAnswer.trim();
+    if (!text) return;
+    if (question?.type === 'numeric') {
+      const value = Number(text);
+      if (Number.isFinite(value)) submitAnswer({ type: 'numeric', value });
+    } else if (question?.type === 'typed_answer' || question?.type === 'word_cloud' || question?.type === 'open_text') {
+      submitAnswer({ type: question.type, text });
+    }
+  };
+
+  const moveArrangedItem = (from: number, to: number) => setArrangement((current) => moveItem(current, from, to));
+  const submitArrangement = () => {
+    if (question?.type === 'ordering') submitAnswer({ type: 'ordering', order: arrangement });
+    if (question?.type === 'matching') submitAnswer({ type: 'matching', matches: arrangement });
+  };
+
+  const connectionStatus = isConnected ? 'Connected' : reconnectAttempt > 0 ? 'Reconnecting...' : 'Disconnected';
 
 
   // --- Render Logic ---
 
+  const hostPausedBanner = hostPausedMessage && (
+    <div role="status" className="w-full p-3 rounded bg-yellow-100 text-yellow-800 text-center font-semibold dark:bg-yellow-900 dark:text-yellow-100">
+      {hostPausedMessage}
+    </div>
+  );
+
+  const reconnectingBanner = !isConnected && reconnectAttempt > 0 && (
+    <div role="status" className="w-full p-3 rounded bg-orange-100 text-orange-800 text-center font-semibold dark:bg-orange-900 dark:text-orange-100">
+      Connection lost. Reconnecting...
+    </div>
+  );
+
+  if (kickedMessage) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-4 p-8">
+        <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">Removed from the game</h1>
+        <p className="text-gray-600 dark:text-gray-300">{kickedMessage}</p>
+        <Link to="/" className="mt-6 text-blue-600 hover:underline dark:text-blue-400">
+          Back to home
+        </Link>
+      </div>
+    );
+  }
+
+  if (hasJoined && nicknamePendingMessage) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-4 p-8">
+        {reconnectingBanner}
+        <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">Almost in, {joinedNickname}!</h1>
+        <p className="text-gray-600 dark:text-gray-300" role="status">{nicknamePendingMessage}</p>
+        <Link to="/" className="mt-6 text-blue-600 hover:underline dark:text-blue-400">
+          Leave Game
+        </Link>
+      </div>
+    );
+  }
+
+  if (hasJoined && phase === 'ended') {
+    // Final podium
+    const podium = leaderboard.slice(0, 3);
+    const me = leaderboard.find((entry) => entry.id === playerId);
+    // Show 2nd, 1st, 3rd from left to right like a real podium
+    const podiumOrder = [podium[1], podium[0], podium[2]].filter(Boolean);
+    const podiumHeights: Record<number, string> = { 1: 'h-32', 2: 'h-24', 3: 'h-16' };
+
+    return (
+      <div className="flex flex-col items-center justify-center gap-6 p-8">
+        <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">Game Over</h1>
+        {endMessage && <p className="text-gray-600 dark:text-gray-300">{endMessage}</p>}
+        {podium.length > 0 && (
+          <div className="flex items-end justify-center gap-3 w-full max-w-md">
+            {podiumOrder.map((entry) => (
+              <div key={entry.id} className="flex flex-col items-center flex-1">
+                <span className={`font-semibold ${entry.id === playerId ? 'text-indigo-600 dark:text-indigo-400' : ''}`}>{entry.nickname}</span>
+                <span className="text-sm text-gray-600 dark:text-gray-400">{entry.score} pts</span>
+                <div className={`w-full ${podiumHeights[entry.rank] ?? 'h-12'} mt-1 rounded-t bg-indigo-500 flex items-start justify-center text-white text-2xl font-bold pt-2`}>
+                  {entry.rank}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        {me && (
+          <p className="text-lg">
+            You finished <strong>{formatOrdinal(me.rank)}</strong> of {leaderboard.length} with <strong>{me.score}</strong> points.
+          </p>
+        )}
+        {teamLeaderboard && <TeamStandings entries={teamLeaderboard} myTeamId={myTeam?.id ?? null} />}
+        <Link to="/" className="mt-6 text-blue-600 hover:underline dark:text-blue-400">
+          Back to home
+        </Link>
+      </div>
+    );
+  }
+
+  if (hasJoined && phase === 'question' && question) {
+    // Answer controller
+    const isMultiPick = question.type === 'multi_select' || question.type === 'multi_poll';
+    return (
+      <div className="flex flex-col gap-4 p-4 min-h-[70vh]">
+        {hostPausedBanner}
+        {reconnectingBanner}
+        <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400">
+          <span>Question {question.index + 1} of {question.totalQuestions}</span>
+          <span className="text-xl font-bold text-gray-900 dark:text-gray-100" aria-live="polite">{hostPausedMessage ? 'Paused' : `${secondsLeft ?? question.timeLimit}s`}</span>
+        </div>
+        <h1 className="text-2xl font-bold text-center text-gray-800 dark:text-gray-100">{question.text}</h1>
+        {question.media && <MediaView media={question.media} className="mx-auto max-h-48 max-w-full" />}
+
+        {selectedAnswer === null && question.type === 'rating' ? (
+          <div className="flex-1 flex flex-col items-center justify-center gap-3">
+            <p className="text-gray-600 dark:text-gray-400">Tap your rating (1 = lowest)</p>
+            <div className="flex flex-wrap justify-center gap-2">
+              {Array.from({ length: question.ratingScale ?? 0 }, (_, index) => index + 1).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => submitAnswer({ type: 'rating', value })}
+                  disabled={!isConnected || secondsLeft === 0 || hostPausedMessage !== null}
+                  className="w-14 h-14 bg-indigo-600 hover:bg-indigo-700 text-white text-xl font-bold rounded-lg disabled:opacity-50"
+                >
+                  {value}
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : selectedAnswer === null && (question.type === 'numeric' || question.type === 'typed_answer' || question.type === 'word_cloud' || question.type === 'open_text') ? (
+          <form onSubmit={submitEnteredAnswer} className="flex-1 flex flex-col items-center justify-center gap-3">
+            <label htmlFor="typed-answer" className="text-gray-600 dark:text-gray-400">
+              {question.type === 'numeric' ? 'Enter a number' : question.type === 'word_cloud' ? 'Enter a word or short phrase' : question.type === 'open_text' ? 'Share your thoughts' : 'Type your answer'}
+            </label>
+            {question.type === 'open_text' ? (
+              <textarea
+                id="typed-answer"
+                rows={4}
+                maxLength={MAX_OPEN_TEXT_LENGTH}
+                value={typedAnswer}
+                onChange={(event) => setTypedAnswer(event.target.value)}
+                className="w-full max-w-sm px-3 py-3 text-lg border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              />
+            ) : (
+              <input
+                id="typed-answer"
+                type={question.type === 'numeric' ? 'number' : 'text'}
+                step={question.type === 'numeric' ? 'any' : undefined}
+                inputMode={question.type === 'numeric' ? 'decimal' : 'text'}
+                maxLength={question.type === 'word_cloud' ? MAX_WORD_CLOUD_LENGTH : MAX_TYPED_ANSWER_LENGTH}
+                autoComplete="off"
+                value={typedAnswer}
+                onChange={(event) => setTypedAnswer(event.target.value)}
+                className="w-full max-w-sm px-3 py-3 text-xl text-center border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              />
+            )}
+            <button
+              type="submit"
+              disabled={!isConnected || secondsLeft === 0 || hostPausedMessage !== null || typedAnswer.trim() === ''}
+              className="w-full max-w-sm py-3 bg-indigo-600 hover:bg-indigo-700 text-white text-lg font-semibold rounded-lg disabled:opacity-50"
+            >
+              Submit
+            </button>
+          </form>
+        ) : selectedAnswer === null && (question.type === 'ordering' || question.type === 'matching') ? (
+          <div className="flex-1 flex flex-col gap-3 w-full max-w-xl mx-auto">
+            <p className="text-center text-gray-600 dark:text-gray-400">
+              {question.type === 'ordering' ? 'Drag the items into the right order, then submit.' : 'Drag each match next to its item, then submit.'}
+            </p>
+            <OptionClips question={question} />
+            {question.type === 'ordering' ? (
+              <SortableList
+                items={arrangement.map((optionIndex) => ({
+                  key: optionIndex,
+                  label: question.options[optionIndex],
+                  media: question.optionMedia[optionIndex],
+                }))}
+                onMove={moveArrangedItem}
+                disabled={hostPausedMessage !== null}
+              />
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                <ol className="space-y-2">
+                  {question.options.map((option, index) => {
+                    const media = question.optionMedia[index];
+                    return (
+                      <li key={index} className={`${PUZZLE_ROW_CLASS} bg-gray-200 text-gray-900 dark:bg-gray-700 dark:text-gray-100`}>
+                        <span className="flex-1 truncate">{option}</span>
+                        {media?.kind === 'image' && <MediaView media={media} className="h-12 max-w-[40%]" />}
+                        <span aria-hidden="true">=</span>
+                      </li>
+                    );
+                  })}
+                </ol>
+                <SortableList
+                  items={arrangement.map((targetIndex) => ({ key: targetIndex, label: question.matchTargets[targetIndex] }))}
+                  onMove={moveArrangedItem}
+                  disabled={hostPausedMessage !== null}
+                />
+              </div>
+            )}
+            <button
+              type="button"
+              onClick={submitArrangement}
+              disabled={!isConnected || secondsLeft === 0 || hostPausedMessage !== null || arrangement.length === 0}
+              className="py-3 bg-indigo-600 hover:bg-indigo-700 text-white text-lg font-semibold rounded-lg disabled:opacity-50"
+            >
+              Submit
+            </button>
+          </div>
+        ) : selectedAnswer === null ? (
+          <>
+            {question.type === 'multi_select' && (
+              <p className="text-center text-gray-600 dark:text-gray-400">Pick every correct answer, then submit.</p>
+            )}
+            {question.type === 'multi_poll' && (
+              <p className="text-center text-gray-600 dark:text-gray-400">Pick as many as you like, then submit.</p>
+            )}
+            <OptionClips question={question} />
+            <div className="grid grid-cols-2 gap-3 flex-1">
+              {question.options.map((option, index) => {
+                const style = getAnswerOptionStyle(index);
+                const picked = pickedOptions.includes(index);
+                const media = question.optionMedia[index];
+                return (
+                  <button
+                    key={index}
+                    type="button"
+                    onClick={() => (isMultiPick ? togglePickedOption(index) : submitOption(index))}
+                    disabled={!isConnected || secondsLeft === 0 || hostPausedMessage !== null}
+                    aria-pressed={isMultiPick ? picked : undefined}
+                    className={`${style.button} ${picked ? 'ring-4 ring-offset-2 ring-indigo-400' : ''} text-white text-lg font-semibold rounded-lg p-4 min-h-24 flex flex-col items-center justify-center gap-1 disabled:opacity-50`}
+                  >
+                    <span aria-hidden="true" className="text-3xl">{picked ? '✓' : style.shape}</span>
+                    {media?.kind === 'image' && <MediaView media={media} className="max-h-24 max-w-full rounded" />}
+                    {option}
+                  </button>
+                );
+              })}
+            </div>
+            {isMultiPick && (
+              <button
+                type="button"
+                onClick={submitPickedOptions}
+                disabled={!isConnected || secondsLeft === 0 || hostPausedMessage !== null || pickedOptions.length === 0}
+                className="py-3 bg-indigo-600 hover:bg-indigo-700 text-white text-lg font-semibold rounded-lg disabled:opacity-50"
+              >
+                Submit ({pickedOptions.length} selected)
+              </button>
+            )}
+          </>
+        ) : (
+          <div className="flex-1 flex flex-col items-center justify-center gap-3">
+            {'optionIndex' in selectedAnswer ? (
+              <div className={`${getAnswerOptionStyle(selectedAnswer.optionIndex).bar} text-white rounded-lg px-6 py-4 text-xl font-semibold`}>
+                <span aria-hidden="true">{getAnswerOptionStyle(selectedAnswer.optionIndex).shape}</span> {question.options[selectedAnswer.optionIndex]}
+              </div>
+            ) : (
+              <div className="bg-indigo-600 text-white rounded-lg px-6 py-4 text-xl font-semibold">
+                {formatSubmittedAnswer(selectedAnswer, question.options, question.matchTargets)}
+              </div>
+            )}
+            {answerConfirmed ? (
+              <>
+                <p className="text-xl font-semibold">Answer locked in!</p>
+                <p className="text-gray-600 dark:text-gray-400">Waiting for the other players...</p>
+              </>
+            ) : (
+              <p className="text-xl font-semibold">Sending your answer...</p>
+            )}
+          </div>
+        )}
+        {lastError && <p className="text-center text-sm text-red-600 dark:text-red-400">{lastError}</p>}
+      </div>
+    );
+  }
+
+  if (hasJoined && (phase === 'reveal' || phase === 'leaderboard') && question) {
+    // Per-question feedback, then the leaderboard
+    const me = leaderboard.find((entry) => entry.id === playerId);
+    const rankDelta = answerResult?.rank && answerResult.previousRank ? answerResult.previousRank - answerResult.rank : 0;
+
+    return (
+      <div className="flex flex-col items-center justify-center gap-4 p-8 text-center">
+        {hostPausedBanner}
+        {reconnectingBanner}
+        {!isGraded(question.type) ? (
+          <p className="text-xl font-semibold">{answerResult?.answered ? 'Thanks, your response was recorded!' : 'This slide is closed.'}</p>
+        ) : answerResult ? (
+          <div className={`w-full max-w-sm rounded-lg p-6 text-white ${answerResult.correct ? 'bg-green-600' : answerResult.pointsEarned > 0 ? 'bg-yellow-600' : 'bg-red-600'}`}>
+            <p className="text-3xl font-bold">
+              {answerResult.correct ? 'Correct!' : answerResult.pointsEarned > 0 ? 'Partly correct' : answerResult.answered ? 'Incorrect' : "Time's up!"}
+            </p>
+            <p className="mt-2 text-xl">+{answerResult.pointsEarned} points</p>
+            <p className="mt-1">Total: {answerResult.totalScore}</p>
+            {answerResult.rank !== null && (
+              <p className="mt-3 text-lg">
+                You are {formatOrdinal(answerResult.rank)} of {answerResult.totalPlayers}
+                {rankDelta > 0 && ` (up ${rankDelta})`}
+                {rankDelta < 0 && ` (down ${-rankDelta})`}
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-xl font-semibold">Time&apos;s up!</p>
+        )}
+
+        {correctAnswer && (
+          <p className="text-gray-700 dark:text-gray-300">
+            {correctAnswer.type === 'multi_select' ? 'Correct answers' : 'Correct answer'}: <strong>{formatCorrectAnswer(correctAnswer, question.options, question.matchTargets)}</strong>
+          </p>
+        )}
+
+        {phase === 'leaderboard' && leaderboard.length > 0 && (
+          <div className="w-full max-w-sm p-4 border rounded dark:border-gray-700 text-left">
+            <h2 className="text-xl font-semibold mb-2 text-center">Leaderboard</h2>
+            <ol className="space-y-1">
+              {leaderboard.slice(0, 5).map((entry) => (
+                <li key={entry.id} className={`flex justify-between ${entry.id === playerId ? 'font-bold text-indigo-600 dark:text-indigo-400' : ''}`}>
+                  <span>{entry.rank}. {entry.nickname}</span>
+                  <span>{entry.score}</span>
+                </li>
+              ))}
+            </ol>
+            {me && me.rank > 5 && (
+              <p className="mt-2 text-center font-semibold">You: {formatOrdinal(me.rank)} ({me.score})</p>
+            )}
+          </div>
+        )}
+        {phase === 'leaderboard' && teamLeaderboard && <TeamStandings entries={teamLeaderboard} myTeamId={myTeam?.id ?? null} />}
+        <p className="text-sm text-gray-500 dark:text-gray-400">Waiting for the host...</p>
+      </div>
+    );
+  }
+
   if (hasJoined) {
     // Display Lobby/Waiting screen
     return (
       <div className="flex flex-col items-center justify-center gap-4 p-8">
+        {hostPausedBanner}
+        {reconnectingBanner}
         <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">
           Game Lobby: {gamePin}
         </h1>
@@ -306,9 +955,34 @@ export default function JoinGamePage() {
           Welcome, {joinedNickname}! Waiting for the host to start...
         </p>
         <p className={`text-sm font-semibold ${isConnected ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
-          {isConnected ? 'Connected' : 'Disconnected'}
+          {connectionStatus}
         </p>
 
+        {/* Team picker (or the team the host assigned) */}
+        {teamSettings.enabled && teams.length > 0 && (
+          <div className="w-full max-w-sm p-4 border rounded dark:border-gray-600">
+            <h2 className="text-lg font-semibold mb-2 text-center">
+              {myTeam ? `Your team: ${myTeam.name}` : teamSettings.playersChoose ? 'Pick a team' : 'The host will put you in a team'}
+            </h2>
+            {teamSettings.playersChoose && (
+              <div className="grid grid-cols-2 gap-2">
+                {teams.map((team) => (
+                  <button
+                    key={team.id}
+                    type="button"
+                    onClick={() => chooseTeam(team.id)}
+                    disabled={!isConnected || team.id === myTeam?.id}
+                    className={`py-2 px-3 rounded font-semibold ${team.id === myTeam?.id ? 'bg-indigo-600 text-white' : 'bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600'} disabled:cursor-default`}
+                  >
+                    {team.name} ({team.playerIds.length})
+                  </button>
+                ))}
+              </div>
+            )}
+            {lastError && <p className="mt-2 text-center text-sm text-red-600 dark:text-red-400">{lastError}</p>}
+          </div>
+        )}
+
         {/* Display Shared State */}
         <div className="my-4 p-3 border rounded dark:border-gray-600 bg-gray-100 dark:bg-gray-800">
             <h2 className="text-lg font-semibold mb-2 text-center">Shared Counter</h2>
@@ -317,12 +991,17 @@ export default function JoinGamePage() {
 
 
         <div className="mt-4 w-full max-w-sm p-4 border rounded bg-gray-50 dark:bg-gray-700">
-          <h2 className="text-xl font-semibold mb-2 text-center">Players Joined ({players.length}):</h2>
+          <h2 className="text-xl font-semibold mb-2 text-center">
+            Players Joined ({players.length}{lobbySettings.maxPlayers !== null ? ` of ${lobbySettings.maxPlayers}` : ''}):
+          </h2>
+          {lobbySettings.locked && (
+            <p className="mb-2 text-sm text-center text-gray-500 dark:text-gray-400">The host has locked the lobby.</p>
+          )}
           {players.length > 0 ? (
             <ul className="list-disc list-inside space-y-1">
               {players.map((player) => (
-                <li key={player.id} className="text-gray-700 dark:text-gray-200">
-                    {player.nickname} {player.id === playerId ? '(You)' : ''}
+                <li key={player.id} className={player.connected ? 'text-gray-700 dark:text-gray-200' : 'text-gray-400 dark:text-gray-500'}>
+                    {player.nickname} {player.id === playerId ? '(You)' : ''} {player.connected ? '' : '(offline)'}
                 </li>
               ))}
             </ul>
@@ -343,9 +1022,12 @@ export default function JoinGamePage() {
       <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">
         Join Game: <span className="font-mono tracking-widest">{gamePin}</span>
       </h1>
-      <p className="text-gray-600 dark:text-gray-400">Enter a nickname to join the game.</p>
+      <p className="text-gray-600 dark:text-gray-400">
+        {game.random_nicknames ? "This game hands out random nicknames. You'll get yours when you join." : 'Enter a nickname to join the game.'}
+      </p>
 
       <Form method="post" className="w-full max-w-xs space-y-4">
+        {!game.random_nicknames && (
         <div>
           <label htmlFor="nickname" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
             Nickname
@@ -361,6 +1043,7 @@ export default function JoinGamePage() {
             aria-describedby="nickname-error"
           />
         </div>
+        )}
 
         {actionData?.error && !actionData?.success && ( // Only show error if not successful
           <p id="nickname-error" className="text-sm text-red-600 dark:text-red-400">
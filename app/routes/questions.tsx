@@ -0,0 +1,402 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from '@remix-run/node';
+import { json } from '@remix-run/node';
+import { Form, Link, useActionData, useLoaderData, useNavigation } from '@remix-run/react';
+import { requireAdmin, createServerClient } from '~/lib/session.server';
+import type { QuestionType } from '~/lib/game-protocol';
+import { removeMedia } from '~/lib/media-store.server';
+import { getMediaKeys } from '~/lib/question-media';
+import { QUESTION_TYPES, getQuestionTypeLabel, isQuestionType } from '~/lib/question-types';
+import { DIFFICULTIES, MAX_SUBJECT_LENGTH, getDifficultyLabel, isDifficulty, normalizeTag, readBankFields } from '~/lib/question-bank';
+import type { Difficulty } from '~/lib/question-bank';
+import { linkQuestionsToQuiz } from '~/lib/question-bank.server';
+
+export const meta: MetaFunction = () => [{ title: 'Question Bank - Live Quiz' }];
+
+// Most questions listed at once; narrow the search to see the rest
+const MAX_RESULTS = 100;
+
+interface BankQuestion {
+  id: string;
+  question_type: QuestionType;
+  question_text: string;
+  subject: string | null;
+  difficulty: Difficulty | null;
+  tags: string[];
+  quizIds: string[]; // Quizzes using the question
+}
+
+// Loader: The admin's questions matching the search (?q=) and filters (?tag=, ?subject=, ?difficulty=, ?type=).
+// ?quiz= is the quiz the admin came from, preselected when adding questions to a quiz.
+export async function loader({ request }: LoaderFunctionArgs) {
+  const adminUser = await requireAdmin(request);
+  const supabase = createServerClient(request);
+  const searchParams = new URL(request.url).searchParams;
+  const filters = {
+    q: searchParams.get('q')?.trim() ?? '',
+    tag: normalizeTag(searchParams.get('tag') ?? ''),
+    subject: searchParams.get('subject')?.trim() ?? '',
+    difficulty: searchParams.get('difficulty') ?? '',
+    type: searchParams.get('type') ?? '',
+  };
+
+  console.log(`\n--- [questions.tsx loader] --- Searching the question bank of admin ${adminUser.email}:`, filters);
+  const { data: quizzes, error: quizzesError } = await supabase
+    .from('quizzes')
+    .select('id, title')
+    .eq('owner_id', adminUser.id)
+    .order('created_at', { ascending: false });
+  if (quizzesError) {
+    console.error('[questions.tsx loader] Error loading quizzes:', quizzesError);
+    throw new Response(`Error loading quizzes: ${quizzesError.message}`, { status: 500 });
+  }
+
+  let query = supabase
+    .from('questions')
+    .select('id, question_type, question_text, subject, difficulty, tags, quiz_questions(quiz_id)')
+    .eq('owner_id', adminUser.id);
+  if (filters.q) {
+    // The text is matched literally, so % and _ are not wildcards
+    query = query.ilike('question_text', `%${filters.q.replace(/[\\%_]/g, '\\$&')}%`);
+  }
+  if (filters.tag) query = query.contains('tags', [filters.tag]);
+  if (filters.subject) query = query.eq('subject', filters.subject);
+  if (isDifficulty(filters.difficulty)) query = query.eq('difficulty', filters.difficulty);
+  if (isQuestionType(filters.type)) query = query.eq('question_type', filters.type);
+  const { data: questions, error: questionsError } = await query
+    .order('created_at', { ascending: false })
+    .limit(MAX_RESULTS + 1);
+  if (questionsError) {
+    console.error('[questions.tsx loader] Error searching questions:', questionsError);
+    throw new Response(`Error searching questions: ${questionsError.message}`, { status: 500 });
+  }
+
+  // Every tag and subject in the bank, for the filters
+  const { data: allQuestions } = await supabase.from('questions').select('tags, subject').eq('owner_id', adminUser.id);
+  const tags = [...new Set((allQuestions ?? []).flatMap((question) => question.tags ?? []))].sort();
+  const subjects = [...new Set((allQuestions ?? []).flatMap((question) => (question.subject ? [question.subject] : [])))].sort();
+
+  const currentQuizId = searchParams.get('quiz');
+  return json({
+    filters,
+    quizzes: quizzes ?? [],
+    currentQuiz: (quizzes ?? []).find((quiz) => quiz.id === currentQuizId) ?? null,
+    tags,
+    subjects,
+    bankSize: allQuestions?.length ?? 0,
+    hasMore: (questions ?? []).length > MAX_RESULTS,
+    questions: (questions ?? []).slice(0, MAX_RESULTS).map((question) => ({
+      id: question.id,
+      question_type: question.question_type,
+      question_text: question.question_text,
+      subject: question.subject,
+      difficulty: question.difficulty,
+      tags: question.tags ?? [],
+      quizIds: (question.quiz_questions ?? []).map((link: { quiz_id: string }) => link.quiz_id),
+    })) as BankQuestion[],
+  });
+}
+
+// Action: Edit a question's subject, difficulty and tags, add it to a quiz, or delete it from the bank
+export async function action({ request }: ActionFunctionArgs) {
+  const adminUser = await requireAdmin(request);
+  const supabase = createServerClient(request);
+  const formData = await request.formData();
+  const intent = formData.get('intent');
+  const questionId = formData.get('questionId')?.toString();
+
+  if (!questionId) {
+    return json({ error: 'Question ID missing.' }, { status: 400 });
+  }
+
+  console.log(`\n--- [questions.tsx action] --- Admin ${adminUser.email} running "${intent}" on question ${questionId}`);
+
+  switch (intent) {
+    case 'update-details': {
+      const bank = readBankFields({
+        subject: formData.get('subject')?.toString(),
+        difficulty: formData.get('difficulty')?.toString(),
+        tags: formData.get('tags')?.toString(),
+      });
+      if ('error' in bank) {
+        return json({ error: bank.error }, { status: 400 });
+      }
+      const { error } = await supabase.from('questions').update(bank.values).eq('id', questionId).eq('owner_id', adminUser.id);
+      if (error) {
+        console.error(`[questions.tsx action] Error updating question ${questionId}:`, error);
+        return json({ error: `Failed to update question: ${error.message}` }, { status: 500 });
+      }
+      return json({ error: null });
+    }
+
+    case 'add-to-quiz': {
+      const quizId = formData.get('quizId')?.toString();
+      if (!quizId) {
+        return json({ error: 'Please choose a quiz.' }, { status: 400 });
+      }
+      const { data: existing } = await supabase
+        .from('quiz_questions')
+        .select('question_id')
+        .eq('quiz_id', quizId)
+        .eq('question_id', questionId)
+        .maybeSingle();
+      if (existing) {
+        return json({ error: 'The question is already in that quiz.' }, { status: 400 });
+      }
+      const error = await linkQuestionsToQuiz(supabase, quizId, [questionId]);
+      if (error) {
+        console.error(`[questions.tsx action] Error adding question ${questionId} to quiz ${quizId}:`, error);
+        return json({ error: `Failed to add the question: ${error.message}` }, { status: error.code === '42501' ? 403 : 500 });
+      }
+      return json({ error: null });
+    }
+
+    case 'delete-question': {
+      // Also takes the question out of every quiz using it (ON DELETE CASCADE); its media files go separately
+      const { data: deleted, error } = await supabase
+        .from('questions')
+        .delete()
+        .eq('id', questionId)
+        .eq('owner_id', adminUser.id)
+        .select('media, option_media');
+      if (error) {
+        console.error(`[questions.tsx action] Error deleting question ${questionId}:`, error);
+        return json({ error: `Failed to delete question: ${error.message}` }, { status: 500 });
+      }
+      await removeMedia((deleted ?? []).flatMap(getMediaKeys));
+      return json({ error: null });
+    }
+
+    default:
+      return json({ error: 'Unknown action.' }, { status: 400 });
+  }
+}
+
+export default function QuestionBankPage() {
+  const { filters, quizzes, currentQuiz, tags, subjects, bankSize, hasMore, questions } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === 'submitting';
+  const quizTitles = new Map(quizzes.map((quiz) => [quiz.id, quiz.title]));
+  const inputClassName = 'px-3 py-1 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+
+  return (
+    <div className="mx-auto max-w-4xl p-6 space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">Question Bank</h1>
+        <Link to="/quizzes" className="text-blue-600 hover:underline dark:text-blue-400">
+          My quizzes
+        </Link>
+      </div>
+      <p className="text-gray-600 dark:text-gray-400">
+        Every question you write is kept here and can be used in any of your quizzes. Questions are added to the bank from the quiz
+        editor.
+      </p>
+
+      {currentQuiz && (
+        <p className="p-3 text-sm border border-indigo-300 rounded bg-indigo-50 dark:bg-indigo-950 dark:border-indigo-700">
+          Adding questions to <strong>{currentQuiz.title}</strong>.{' '}
+          <Link to={`/quizzes/${currentQuiz.id}`} className="text-blue-600 hover:underline dark:text-blue-400">
+            Back to the quiz
+          </Link>
+        </p>
+      )}
+
+      <Form method="get" className="flex flex-wrap items-end gap-3 p-4 border rounded dark:border-gray-700">
+        {currentQuiz && <input type="hidden" name="quiz" value={currentQuiz.id} />}
+        <div className="flex-1">
+          <label htmlFor="q" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Search
+          </label>
+          <input type="search" id="q" name="q" defaultValue={filters.q} placeholder="Question text" className={`mt-1 w-full ${inputClassName}`} />
+        </div>
+        <div>
+          <label htmlFor="filter-tag" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Tag
+          </label>
+          <select id="filter-tag" name="tag" defaultValue={filters.tag} className={`mt-1 ${inputClassName}`}>
+            <option value="">Any</option>
+            {tags.map((tag) => (
+              <option key={tag} value={tag}>
+                {tag}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="filter-subject" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Subject
+          </label>
+          <select id="filter-subject" name="subject" defaultValue={filters.subject} className={`mt-1 ${inputClassName}`}>
+            <option value="">Any</option>
+            {subjects.map((subject) => (
+              <option key={subject} value={subject}>
+                {subject}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="filter-difficulty" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Difficulty
+          </label>
+          <select id="filter-difficulty" name="difficulty" defaultValue={filters.difficulty} className={`mt-1 ${inputClassName}`}>
+            <option value="">Any</option>
+            {DIFFICULTIES.map(({ difficulty, label }) => (
+              <option key={difficulty} value={difficulty}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="filter-type" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Type
+          </label>
+          <select id="filter-type" name="type" defaultValue={filters.type} className={`mt-1 ${inputClassName}`}>
+            <option value="">Any</option>
+            {QUESTION_TYPES.map(({ type, label }) => (
+              <option key={type} value={type}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button type="submit" className="px-4 py-1 bg-gray-600 text-white rounded-md hover:bg-gray-700">
+          Search
+        </button>
+        <Link to={currentQuiz ? `/questions?quiz=${currentQuiz.id}` : '/questions'} className="py-1 text-sm text-blue-600 hover:underline dark:text-blue-400">
+          Clear
+        </Link>
+      </Form>
+
+      {actionData?.error && (
+        <p className="text-sm text-red-600 dark:text-red-400">Error: {actionData.error}</p>
+      )}
+
+      <section className="space-y-4">
+        <h2 className="text-2xl font-semibold">
+          {questions.length} of {bankSize} question{bankSize === 1 ? '' : 's'}
+        </h2>
+        {hasMore && (
+          <p className="text-sm text-gray-600 dark:text-gray-400">Showing the newest {questions.length} matches; narrow the search to find the others.</p>
+        )}
+        {questions.length === 0 && (
+          <p className="text-gray-600 dark:text-gray-400">
+            {bankSize === 0 ? 'Your question bank is empty. Add questions in the quiz editor.' : 'No questions match the search.'}
+          </p>
+        )}
+        <ul className="space-y-4">
+          {questions.map((question) => {
+            const otherQuizzes = quizzes.filter((quiz) => !question.quizIds.includes(quiz.id));
+            return (
+              <li key={question.id} className="p-4 space-y-2 border rounded dark:border-gray-700">
+                <p className="font-semibold">
+                  {question.question_text}
+                  <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">({getQuestionTypeLabel(question.question_type)})</span>
+                </p>
+                <p className="flex flex-wrap gap-2 text-xs text-gray-600 dark:text-gray-400">
+                  {question.subject && <span>{question.subject}</span>}
+                  {question.difficulty && <span>{getDifficultyLabel(question.difficulty)}</span>}
+                  {question.tags.map((tag) => (
+                    <Link
+                      key={tag}
+                      to={`/questions?tag=${encodeURIComponent(tag)}${currentQuiz ? `&quiz=${currentQuiz.id}` : ''}`}
+                      className="px-2 bg-gray-100 rounded-full hover:underline dark:bg-gray-800"
+                    >
+                      #{tag}
+                    </Link>
+                  ))}
+                </p>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {question.quizIds.length === 0 ? 'Not used in any quiz.' : 'Used in: '}
+                  {question.quizIds.map((quizId, index) => (
+                    <span key={quizId}>
+                      {index > 0 && ', '}
+                      <Link to={`/quizzes/${quizId}`} className="text-blue-600 hover:underline dark:text-blue-400">
+                        {quizTitles.get(quizId) ?? 'Untitled quiz'}
+                      </Link>
+                    </span>
+                  ))}
+                </p>
+
+                <div className="flex flex-wrap items-start gap-2 text-sm">
+                  {otherQuizzes.length > 0 && (
+                    <Form method="post" className="flex gap-2">
+                      <input type="hidden" name="intent" value="add-to-quiz" />
+                      <input type="hidden" name="questionId" value={question.id} />
+                      <select
+                        name="quizId"
+                        aria-label="Quiz to add the question to"
+                        defaultValue={otherQuizzes.some((quiz) => quiz.id === currentQuiz?.id) ? currentQuiz?.id : otherQuizzes[0].id}
+                        className={inputClassName}
+                      >
+                        {otherQuizzes.map((quiz) => (
+                          <option key={quiz.id} value={quiz.id}>
+                            {quiz.title}
+                          </option>
+                        ))}
+                      </select>
+                      <button type="submit" disabled={isSubmitting} className="px-2 py-1 border rounded disabled:opacity-50 dark:border-gray-600">
+                        Add to quiz
+                      </button>
+                    </Form>
+                  )}
+                  <details className="flex-1">
+                    <summary className="cursor-pointer px-2 py-1">Subject, difficulty and tags</summary>
+                    <Form method="post" className="flex flex-wrap items-end gap-2 mt-2">
+                      <input type="hidden" name="intent" value="update-details" />
+                      <input type="hidden" name="questionId" value={question.id} />
+                      <input
+                        type="text"
+                        name="subject"
+                        aria-label="Subject"
+                        placeholder="Subject"
+                        maxLength={MAX_SUBJECT_LENGTH}
+                        defaultValue={question.subject ?? ''}
+                        className={`w-40 ${inputClassName}`}
+                      />
+                      <select name="difficulty" aria-label="Difficulty" defaultValue={question.difficulty ?? ''} className={inputClassName}>
+                        <option value="">No difficulty</option>
+                        {DIFFICULTIES.map(({ difficulty, label }) => (
+                          <option key={difficulty} value={difficulty}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        name="tags"
+                        aria-label="Tags (comma-separated)"
+                        placeholder="Tags, comma-separated"
+                        defaultValue={question.tags.join(', ')}
+                        className={`flex-1 ${inputClassName}`}
+                      />
+                      <button type="submit" disabled={isSubmitting} className="px-3 py-1 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50">
+                        Save
+                      </button>
+                    </Form>
+                  </details>
+                  <Form
+                    method="post"
+                    onSubmit={(event) => {
+                      const usage = question.quizIds.length > 0 ? ` It is removed from ${question.quizIds.length} quiz${question.quizIds.length === 1 ? '' : 'zes'}.` : '';
+                      if (!confirm(`Delete this question for good?${usage}`)) {
+                        event.preventDefault();
+                      }
+                    }}
+                  >
+                    <input type="hidden" name="intent" value="delete-question" />
+                    <input type="hidden" name="questionId" value={question.id} />
+                    <button type="submit" className="px-2 py-1 text-red-600 border border-red-300 rounded dark:text-red-400">
+                      Delete
+                    </button>
+                  </Form>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import type { LoaderFunctionArgs } from '@remix-run/node';
+import { requireAdmin, createServerClient } from '~/lib/session.server';
+import { QUIZ_EXPORT_FORMATS, formatQuizFile } from '~/lib/quiz-files';
+import { sortByQuizOrder } from '~/lib/question-bank';
+
+// Resource route downloading a quiz as a quiz file: /quizzes/<id>/export?format=json|csv|markdown
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const adminUser = await requireAdmin(request);
+  const supabase = createServerClient(request);
+  const quizId = params.quizId;
+  const requestedFormat = new URL(request.url).searchParams.get('format') ?? 'json';
+  const format = QUIZ_EXPORT_FORMATS.find((entry) => entry.format === requestedFormat);
+
+  if (!quizId) {
+    throw new Response('Quiz ID not provided', { status: 400 });
+  }
+  if (!format) {
+    throw new Response(`Unknown export format "${requestedFormat}".`, { status: 400 });
+  }
+
+  const { data: quiz, error: quizError } = await supabase
+    .from('quizzes')
+    .select('id, title, description')
+    .eq('id', quizId)
+    .eq('owner_id', adminUser.id)
+    .single();
+
+  if (quizError || !quiz) {
+    console.error(`[quizzes.$quizId.export.tsx loader] Quiz ${quizId} not found for admin ${adminUser.email}:`, quizError);
+    throw new Response('Quiz not found or you are not its owner.', { status: 404 });
+  }
+
+  const { data: questions, error: questionsError } = await supabase
+    .from('questions')
+    .select('question_type, question_text, options, correct_option_index, answer_spec, time_limit_seconds, subject, difficulty, tags, quiz_questions!inner(order)')
+    .eq('quiz_questions.quiz_id', quiz.id);
+
+  if (questionsError) {
+    console.error(`[quizzes.$quizId.export.tsx loader] Error loading questions for quiz ${quiz.id}:`, questionsError);
+    throw new Response(`Error loading questions: ${questionsError.message}`, { status: 500 });
+  }
+
+  console.log(`[quizzes.$quizId.export.tsx loader] Admin ${adminUser.email} exporting quiz ${quiz.id} as ${format.label}`);
+  const fileName = quiz.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'quiz';
+  return new Response(formatQuizFile(format.format, quiz, sortByQuizOrder(questions ?? [])), {
+    headers: {
+      'Content-Type': `${format.contentType}; charset=utf-8`,
+      'Content-Disposition': `attachment; filename="${fileName}.${format.extension}"`,
+    },
+  });
+}
@@ -0,0 +1,1225 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from '@remix-run/node';
+import { json } from '@remix-run/node';
+import { Form, Link, useActionData, useLoaderData, useNavigation } from '@remix-run/react';
+import { useState } from 'react';
+import { requireAdmin, createServerClient } from '~/lib/session.server';
+import { MAX_RATING_SCALE, MAX_TYPED_ANSWER_LENGTH, MIN_RATING_SCALE } from '~/lib/game-protocol';
+import type { QuestionMedia, QuestionType } from '~/lib/game-protocol';
+import { removeMedia, saveUploadedMedia } from '~/lib/media-store.server';
+import { MEDIA_ACCEPT, getMediaKeys, parseMedia, parseOptionMedia } from '~/lib/question-media';
+import { MediaView, getMediaLabel } from '~/lib/question-media-view';
+import { MAX_QUIZ_FILE_BYTES, QUIZ_EXPORT_FORMATS, QUIZ_IMPORT_FORMATS, detectQuizFileFormat, isQuizFileFormat, parseQuizFile } from '~/lib/quiz-files';
+import type { ImportResult, QuizFileFormat } from '~/lib/quiz-files';
+import { DIFFICULTIES, MAX_SUBJECT_LENGTH, getDifficultyLabel, readBankFields, sortByQuizOrder } from '~/lib/question-bank';
+import type { Difficulty } from '~/lib/question-bank';
+import { linkQuestionsToQuiz } from '~/lib/question-bank.server';
+import {
+  DEFAULT_RATING_SCALE,
+  DEFAULT_TIME_LIMIT_SECONDS,
+  MAX_ACCEPTED_ANSWERS,
+  MAX_OPTIONS,
+  MAX_TIME_LIMIT_SECONDS,
+  MIN_OPTIONS,
+  MIN_TIME_LIMIT_SECONDS,
+  QUESTION_TYPES,
+  TRUE_FALSE_OPTIONS,
+  formatCorrectAnswer,
+  getCorrectAnswer,
+  getMatchTargets,
+  getQuestionTypeLabel,
+  getRatingScale,
+  hasOptions,
+  isCorrectOption,
+  isGraded,
+  isQuestionType,
+} from '~/lib/question-types';
+
+interface QuestionInfo {
+  id: string;
+  question_type: QuestionType;
+  question_text: string;
+  options: string[];
+  correct_option_index: number | null;
+  answer_spec: { correctOptionIndexes?: number[]; value?: number; tolerance?: number; acceptedAnswers?: string[]; matches?: string[]; scale?: number } | null;
+  media: QuestionMedia | null;
+  option_media: (QuestionMedia | null)[]; // Parallel to options
+  time_limit_seconds: number;
+  subject: string | null;
+  difficulty: Difficulty | null;
+  tags: string[];
+  quizCount: number; // Quizzes using this question, this one included
+}
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => {
+  return [{ title: data?.quiz ? `Edit ${data.quiz.title} - Live Quiz` : 'Edit Quiz - Live Quiz' }];
+};
+
+// Loader: Fetch the quiz (owned by the admin) and its questions in play order
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const adminUser = await requireAdmin(request);
+  const supabase = createServerClient(request);
+  const quizId = params.quizId;
+
+  if (!quizId) {
+    throw new Response('Quiz ID not provided', { status: 400 });
+  }
+
+  const { data: quiz, error: quizError } = await supabase
+    .from('quizzes')
+    .select('id, title, description')
+    .eq('id', quizId)
+    .eq('owner_id', adminUser.id)
+    .single();
+
+  if (quizError || !quiz) {
+    console.error(`[quizzes.$quizId.tsx loader] Quiz ${quizId} not found for admin ${adminUser.email}:`, quizError);
+    throw new Response('Quiz not found or you are not its owner.', { status: 404 });
+  }
+
+  const { data: questions, error: questionsError } = await supabase
+    .from('questions')
+    .select('id, question_type, question_text, options, correct_option_index, answer_spec, media, option_media, time_limit_seconds, subject, difficulty, tags, quiz_questions!inner(order)')
+    .eq('quiz_questions.quiz_id', quiz.id);
+
+  if (questionsError) {
+    console.error(`[quizzes.$quizId.tsx loader] Error loading questions for quiz ${quiz.id}:`, questionsError);
+    throw new Response(`Error loading questions: ${questionsError.message}`, { status: 500 });
+  }
+
+  // Which of the admin's quizzes use each question, so edits to shared questions are not a surprise
+  const { data: usages, error: usagesError } = await supabase
+    .from('quiz_questions')
+    .select('question_id')
+    .in('question_id', (questions ?? []).map((question) => question.id));
+  if (usagesError) {
+    console.error(`[quizzes.$quizId.tsx loader] Error counting quizzes per question for quiz ${quiz.id}:`, usagesError);
+  }
+
+  const questionInfos = sortByQuizOrder(questions ?? []).map((question) => ({
+    ...question,
+    media: parseMedia(question.media),
+    option_media: parseOptionMedia(question.option_media),
+    quizCount: (usages ?? []).filter((usage) => usage.question_id === question.id).length,
+  })) as QuestionInfo[];
+  return json({ quiz, questions: questionInfos });
+}
+
+// Reads the options and the correct one(s) from the option inputs.
+// Blank option inputs are skipped, and the selected correct options are remapped accordingly.
+function parseOptions(formData: FormData) {
+  const rawOptions = formData.getAll('option').map((value) => value.toString().trim());
+  const correctSlots = formData.getAll('correctOption').map(Number);
+  const options: string[] = [];
+  const correctOptionIndexes: number[] = [];
+  rawOptions.forEach((option, slot) => {
+    if (!option) return;
+    if (correctSlots.includes(slot)) correctOptionIndexes.push(options.length);
+    options.push(option);
+  });
+
+  if (options.length < MIN_OPTIONS || options.length > MAX_OPTIONS) {
+    return { error: `A question needs between ${MIN_OPTIONS} and ${MAX_OPTIONS} options.` } as const;
+  }
+  if (correctOptionIndexes.length === 0) {
+    return { error: 'Select which (non-empty) option is correct.' } as const;
+  }
+  return { options, correctOptionIndexes } as const;
+}
+
+// The options and solution columns for a question type (see questions_answer_matches_type)
+function parseAnswerFields(type: QuestionType, formData: FormData) {
+  switch (type) {
+    case 'multiple_choice': {
+      const parsed = parseOptions(formData);
+      if (parsed.error) return { error: parsed.error } as const;
+      return { values: { options: parsed.options, correct_option_index: parsed.correctOptionIndexes[0], answer_spec: null } } as const;
+    }
+    case 'true_false': {
+      const correct = formData.get('correctOption');
+      if (correct !== '0' && correct !== '1') {
+        return { error: 'Select whether the statement is true or false.' } as const;
+      }
+      return { values: { options: TRUE_FALSE_OPTIONS, correct_option_index: Number(correct), answer_spec: null } } as const;
+    }
+    case 'multi_select': {
+      const parsed = parseOptions(formData);
+      if (parsed.error) return { error: parsed.error } as const;
+      return {
+        values: { options: parsed.options, correct_option_index: null, answer_spec: { correctOptionIndexes: parsed.correctOptionIndexes } },
+      } as const;
+    }
+    case 'numeric': {
+      const rawValue = formData.get('correctValue')?.toString().trim() ?? '';
+      const value = Number(rawValue);
+      const tolerance = Number(formData.get('tolerance')?.toString().trim() || 0);
+      if (rawValue === '' || !Number.isFinite(value)) {
+        return { error: 'Enter the correct number.' } as const;
+      }
+      if (!Number.isFinite(tolerance) || tolerance < 0) {
+        return { error: 'Tolerance must be zero or a positive number.' } as const;
+      }
+      return { values: { options: [], correct_option_index: null, answer_spec: { value, tolerance } } } as const;
+    }
+    case 'typed_answer': {
+      // One accepted spelling per line
+      const acceptedAnswers = [...new Set(
+        (formData.get('acceptedAnswers')?.toString() ?? '').split('\n').map((answer) => answer.trim()).filter(Boolean),
+      )];
+      if (acceptedAnswers.length === 0 || acceptedAnswers.length > MAX_ACCEPTED_ANSWERS) {
+        return { error: `Enter between 1 and ${MAX_ACCEPTED_ANSWERS} accepted answers, one per line.` } as const;
+      }
+      if (acceptedAnswers.some((answer) => answer.length > MAX_TYPED_ANSWER_LENGTH)) {
+        return { error: `Accepted answers can be at most ${MAX_TYPED_ANSWER_LENGTH} characters.` } as const;
+      }
+      return { values: { options: [], correct_option_index: null, answer_spec: { acceptedAnswers } } } as const;
+    }
+    case 'ordering':
+    case 'poll':
+    case 'multi_poll': {
+      // Ordering items are entered in the correct order; the game server shuffles them for players
+      const options = formData.getAll('option').map((value) => value.toString().trim()).filter(Boolean);
+      if (options.length < MIN_OPTIONS || options.length > MAX_OPTIONS) {
+        const noun = type === 'ordering' ? 'An ordering question' : 'A poll';
+        return { error: `${noun} needs between ${MIN_OPTIONS} and ${MAX_OPTIONS} ${type === 'ordering' ? 'items' : 'options'}.` } as const;
+      }
+      return { values: { options, correct_option_index: null, answer_spec: null } } as const;
+    }
+    case 'matching': {
+      // Each slot is a pair: the left item and the match it belongs to
+      const lefts = formData.getAll('option').map((value) => value.toString().trim());
+      const rights = formData.getAll('matchTarget').map((value) => value.toString().trim());
+      const options: string[] = [];
+      const matches: string[] = [];
+      for (let slot = 0; slot < Math.max(lefts.length, rights.length); slot++) {
+        const left = lefts[slot] ?? '';
+        const right = rights[slot] ?? '';
+        if (!left && !right) continue;
+        if (!left || !right) {
+          return { error: `Pair ${slot + 1} needs both an item and its match.` } as const;
+        }
+        options.push(left);
+        matches.push(right);
+      }
+      if (options.length < MIN_OPTIONS || options.length > MAX_OPTIONS) {
+        return { error: `A matching question needs between ${MIN_OPTIONS} and ${MAX_OPTIONS} pairs.` } as const;
+      }
+      if (new Set(matches).size !== matches.length) {
+        return { error: 'Every item needs a different match.' } as const;
+      }
+      return { values: { options, correct_option_index: null, answer_spec: { matches } } } as const;
+    }
+    case 'rating': {
+      const scale = Number(formData.get('ratingScale'));
+      if (!Number.isInteger(scale) || scale < MIN_RATING_SCALE || scale > MAX_RATING_SCALE) {
+        return { error: `The rating scale must go up to a whole number between ${MIN_RATING_SCALE} and ${MAX_RATING_SCALE}.` } as const;
+      }
+      return { values: { options: [], correct_option_index: null, answer_spec: { scale } } } as const;
+    }
+    case 'word_cloud':
+    case 'open_text':
+      return { values: { options: [], correct_option_index: null, answer_spec: null } } as const;
+  }
+}
+
+// Reads the question fields shared by the add and edit forms.
+function parseQuestionForm(formData: FormData) {
+  const questionText = formData.get('questionText')?.toString().trim();
+  if (!questionText) {
+    return { error: 'Question text is required.' } as const;
+  }
+
+  const questionType = formData.get('questionType') ?? 'multiple_choice';
+  if (!isQuestionType(questionType)) {
+    return { error: 'Unknown question type.' } as const;
+  }
+  const answer = parseAnswerFields(questionType, formData);
+  if (answer.error) {
+    return { error: answer.error } as const;
+  }
+
+  const timeLimitSeconds = Number(formData.get('timeLimitSeconds'));
+  if (!Number.isInteger(timeLimitSeconds) || timeLimitSeconds < MIN_TIME_LIMIT_SECONDS || timeLimitSeconds > MAX_TIME_LIMIT_SECONDS) {
+    return { error: `Time limit must be a whole number between ${MIN_TIME_LIMIT_SECONDS} and ${MAX_TIME_LIMIT_SECONDS} seconds.` } as const;
+  }
+
+  const bank = readBankFields({
+    subject: formData.get('subject')?.toString(),
+    difficulty: formData.get('difficulty')?.toString(),
+    tags: formData.get('tags')?.toString(),
+  });
+  if ('error' in bank) {
+    return { error: bank.error } as const;
+  }
+
+  return {
+    values: {
+      question_type: questionType,
+      question_text: questionText,
+      ...answer.values,
+      time_limit_seconds: timeLimitSeconds,
+      ...bank.values,
+    },
+  } as const;
+}
+
+// Types whose options come from the numbered option inputs, which can each carry media
+const OPTION_INPUT_TYPES: QuestionType[] = ['multiple_choice', 'multi_select', 'ordering', 'matching', 'poll', 'multi_poll'];
+
+// An optional number of seconds; undefined when the input is left empty
+function parseSeconds(value: FormDataEntryValue | null) {
+  const text = value?.toString().trim() ?? '';
+  return text === '' ? undefined : Number(text);
+}
+
+// Question and option attachments from the form. A new upload replaces the current file, a ticked
+// "remove" box clears it, and otherwise the current one is kept (option media stays with its input slot).
+// Returns the keys it uploaded, so the caller can remove them again if saving the question fails.
+async function parseMediaFields(formData: FormData, type: QuestionType, current: { media: unknown; option_media: unknown } | null) {
+  const startSeconds = parseSeconds(formData.get('mediaStart'));
+  const endSeconds = parseSeconds(formData.get('mediaEnd'));
+  if ([startSeconds, endSeconds].some((seconds) => seconds !== undefined && (!Number.isFinite(seconds) || seconds < 0))) {
+    return { error: 'Clip start and end must be zero or a positive number of seconds.' } as const;
+  }
+  if (startSeconds !== undefined && endSeconds !== undefined && endSeconds <= startSeconds) {
+    return { error: 'The clip must end after it starts.' } as const;
+  }
+
+  const uploadedKeys: string[] = [];
+  const fail = async (error: string) => {
+    await removeMedia(uploadedKeys);
+    return { error } as const;
+  };
+  const pickMedia = async (file: FormDataEntryValue | undefined | null, remove: boolean, existing: QuestionMedia | null) => {
+    if (!(file instanceof File) || file.size === 0) {
+      return { media: remove ? null : existing };
+    }
+    try {
+      const saved = await saveUploadedMedia(file);
+      if ('media' in saved) uploadedKeys.push(saved.media.key);
+      return saved;
+    } catch (error) {
+      console.error(`[quizzes.$quizId.tsx action] Error storing ${file.name}:`, error);
+      return { error: `Failed to store ${file.name}.` };
+    }
+  };
+
+  const question = await pickMedia(formData.get('questionMedia'), formData.has('removeQuestionMedia'), parseMedia(current?.media));
+  if ('error' in question) return fail(question.error);
+  const media: QuestionMedia | null = question.media ? { kind: question.media.kind, key: question.media.key } : null;
+  if (media?.kind === 'image') {
+    const alt = formData.get('mediaAlt')?.toString().trim();
+    if (alt) media.alt = alt;
+  } else if (media) {
+    if (startSeconds !== undefined) media.startSeconds = startSeconds;
+    if (endSeconds !== undefined) media.endSeconds = endSeconds;
+  }
+
+  // Blank option inputs are dropped by the option parsers, so only filled slots get an entry
+  const optionSlots = OPTION_INPUT_TYPES.includes(type)
+    ? formData.getAll('option').flatMap((value, slot) => (value.toString().trim() ? [slot] : []))
+    : [];
+  const files = formData.getAll('optionMedia');
+  const removedSlots = formData.getAll('removeOptionMedia').map(Number);
+  const currentOptionMedia = parseOptionMedia(current?.option_media);
+  const optionMedia: (QuestionMedia | null)[] = [];
+  for (const slot of optionSlots) {
+    const option = await pickMedia(files[slot], removedSlots.includes(slot), currentOptionMedia[slot] ?? null);
+    if ('error' in option) return fail(option.error);
+    optionMedia.push(option.media);
+  }
+  return { values: { media, option_media: optionMedia }, uploadedKeys } as const;
+}
+
+// Reads the quiz file from the import form, uploaded or pasted, and checks every question in it.
+// The format is detected unless one is picked.
+async function readQuizFile(formData: FormData) {
+  const file = formData.get('importFile');
+  const isUpload = file instanceof File && file.size > 0;
+  const text = isUpload ? await file.text() : formData.get('importText')?.toString() ?? '';
+  if (!text.trim()) {
+    return { error: 'Choose a quiz file or paste its contents.' } as const;
+  }
+  if (new TextEncoder().encode(text).byteLength > MAX_QUIZ_FILE_BYTES) {
+    return { error: `Quiz files can be at most ${MAX_QUIZ_FILE_BYTES / 1024 / 1024} MB.` } as const;
+  }
+  const chosenFormat = formData.get('importFormat');
+  const format = isQuizFileFormat(chosenFormat) ? chosenFormat : detectQuizFileFormat(isUpload ? file.name : '', text);
+  return { text, format, result: parseQuizFile(format, text) } as const;
+}
+
+// What the import report shows; the text goes back with the confirmation so it is checked again
+function toImportPreview(text: string, format: QuizFileFormat, result: ImportResult) {
+  return {
+    text,
+    format,
+    errors: result.errors,
+    warnings: result.warnings,
+    questions: result.questions.map(({ line, values }) => ({ line, type: values.question_type, text: values.question_text })),
+  };
+}
+
+// Action: Edit quiz details and create, edit, reorder, remove or import its questions.
+// New questions go into the admin's question bank and are added to this quiz.
+export async function action({ request, params }: ActionFunctionArgs) {
+  const adminUser = await requireAdmin(request);
+  const supabase = createServerClient(request);
+  const quizId = params.quizId;
+  const formData = await request.formData();
+  const intent = formData.get('intent');
+
+  if (!quizId) {
+    return json({ error: 'Quiz ID missing.' }, { status: 400 });
+  }
+
+  console.log(`\n--- [quizzes.$quizId.tsx action] --- Admin ${adminUser.email} running "${intent}" on quiz ${quizId}`);
+
+  switch (intent) {
+    case 'update-quiz': {
+      const title = formData.get('title')?.toString().trim();
+      const description = formData.get('description')?.toString().trim() || null;
+      if (!title || title.length > 100) {
+        return json({ error: 'Title must be between 1 and 100 characters.' }, { status: 400 });
+      }
+      const { error } = await supabase.from('quizzes').update({ title, description }).eq('id', quizId);
+      if (error) {
+        console.error('[quizzes.$quizId.tsx action] Error updating quiz:', error);
+        return json({ error: `Failed to update quiz: ${error.message}` }, { status: 500 });
+      }
+      return json({ error: null });
+    }
+
+    case 'add-question': {
+      const parsed = parseQuestionForm(formData);
+      if ('error' in parsed) {
+        return json({ error: parsed.error }, { status: 400 });
+      }
+      const media = await parseMediaFields(formData, parsed.values.question_type, null);
+      if ('error' in media) {
+        return json({ error: media.error }, { status: 400 });
+      }
+
+      const { data: added, error } = await supabase
+        .from('questions')
+        .insert({ ...parsed.values, ...media.values, owner_id: adminUser.id })
+        .select('id')
+        .single();
+      if (error || !added) {
+        console.error('[quizzes.$quizId.tsx action] Error adding question:', error);
+        await removeMedia(media.uploadedKeys);
+        return json({ error: `Failed to add question: ${error?.message ?? 'no question returned'}` }, { status: error?.code === '42501' ? 403 : 500 });
+      }
+      const linkError = await linkQuestionsToQuiz(supabase, quizId, [added.id]);
+      if (linkError) {
+        console.error(`[quizzes.$quizId.tsx action] Error adding question ${added.id} to quiz ${quizId}:`, linkError);
+        await supabase.from('questions').delete().eq('id', added.id);
+        await removeMedia(media.uploadedKeys);
+        return json({ error: `Failed to add question: ${linkError.message}` }, { status: linkError.code === '42501' ? 403 : 500 });
+      }
+      return json({ error: null });
+    }
+
+    case 'update-question': {
+      const questionId = formData.get('questionId')?.toString();
+      const parsed = parseQuestionForm(formData);
+      if (!questionId) {
+        return json({ error: 'Question ID missing.' }, { status: 400 });
+      }
+      if ('error' in parsed) {
+        return json({ error: parsed.error }, { status: 400 });
+      }
+      // Questions are edited in the bank, so the change shows in every quiz using the question
+      const { data: current } = await supabase
+        .from('questions')
+        .select('media, option_media')
+        .eq('id', questionId)
+        .eq('owner_id', adminUser.id)
+        .maybeSingle();
+      if (!current) {
+        return json({ error: 'Question not found.' }, { status: 404 });
+      }
+      const media = await parseMediaFields(formData, parsed.values.question_type, current);
+      if ('error' in media) {
+        return json({ error: media.error }, { status: 400 });
+      }
+      const { error } = await supabase
+        .from('questions')
+        .update({ ...parsed.values, ...media.values })
+        .eq('id', questionId)
+        .eq('owner_id', adminUser.id);
+      if (error) {
+        console.error(`[quizzes.$quizId.tsx action] Error updating question ${questionId}:`, error);
+        await removeMedia(media.uploadedKeys);
+        return json({ error: `Failed to update question: ${error.message}` }, { status: 500 });
+      }
+      // Files the question no longer refers to (replaced or removed)
+      const keptKeys = getMediaKeys(media.values);
+      await removeMedia(getMediaKeys(current).filter((key) => !keptKeys.includes(key)));
+      return json({ error: null });
+    }
+
+    case 'remove-question': {
+      // Only takes the question out of this quiz; it stays in the bank (deleted from the bank page)
+      const questionId = formData.get('questionId')?.toString();
+      if (!questionId) {
+        return json({ error: 'Question ID missing.' }, { status: 400 });
+      }
+      const { error } = await supabase
+        .from('quiz_questions')
+        .delete()
+        .eq('quiz_id', quizId)
+        .eq('question_id', questionId);
+      if (error) {
+        console.error(`[quizzes.$quizId.tsx action] Error removing question ${questionId} from quiz ${quizId}:`, error);
+        return json({ error: `Failed to remove question: ${error.message}` }, { status: 500 });
+      }
+      return json({ error: null });
+    }
+
+    case 'move-question': {
+      const questionId = formData.get('questionId')?.toString();
+      const direction = formData.get('direction') === 'up' ? -1 : 1;
+
+      const { data: questions, error: loadError } = await supabase
+        .from('quiz_questions')
+        .select('question_id, order')
+        .eq('quiz_id', quizId)
+        .order('order', { ascending: true });
+      if (loadError || !questions) {
+        console.error('[quizzes.$quizId.tsx action] Error loading questions to reorder:', loadError);
+        return json({ error: 'Failed to reorder questions.' }, { status: 500 });
+      }
+
+      const from = questions.findIndex((question) => question.question_id === questionId);
+      const to = from + direction;
+      if (from < 0 || to < 0 || to >= questions.length) {
+        return json({ error: null }); // Already at the top/bottom, nothing to do
+      }
+
+      // Swap in the list, then renumber so "order" is always a dense 0..n-1 sequence
+      [questions[from], questions[to]] = [questions[to], questions[from]];
+      const changed = questions
+        .map((question, index) => ({ id: question.question_id, previousOrder: question.order, order: index }))
+        .filter((question) => question.previousOrder !== question.order);
+
+      for (const question of changed) {
+        const { error } = await supabase
+          .from('quiz_questions')
+          .update({ order: question.order })
+          .eq('quiz_id', quizId)
+          .eq('question_id', question.id);
+        if (error) {
+          console.error(`[quizzes.$quizId.tsx action] Error reordering question ${question.id}:`, error);
+          return json({ error: `Failed to reorder questions: ${error.message}` }, { status: 500 });
+        }
+      }
+      return json({ error: null });
+    }
+
+    case 'check-import': {
+      const file = await readQuizFile(formData);
+      if (file.error) {
+        return json({ error: file.error }, { status: 400 });
+      }
+      console.log(`[quizzes.$quizId.tsx action] Checked ${file.format} import: ${file.result.questions.length} question(s), ${file.result.errors.length} error(s)`);
+      return json({ error: null, importPreview: toImportPreview(file.text, file.format, file.result) });
+    }
+
+    case 'import-questions': {
+      const file = await readQuizFile(formData);
+      if (file.error) {
+        return json({ error: file.error }, { status: 400 });
+      }
+      // Checked again: nothing is written unless the whole file is valid
+      if (file.result.errors.length > 0) {
+        return json({ error: null, importPreview: toImportPreview(file.text, file.format, file.result) }, { status: 400 });
+      }
+      const { data: added, error } = await supabase
+        .from('questions')
+        .insert(file.result.questions.map(({ values }) => ({ ...values, owner_id: adminUser.id })))
+        .select('id');
+      if (error || !added) {
+        console.error('[quizzes.$quizId.tsx action] Error importing questions:', error);
+        return json({ error: `Failed to import questions: ${error?.message ?? 'no questions returned'}` }, { status: error?.code === '42501' ? 403 : 500 });
+      }
+      // Inserted rows come back in the order they were given, which is the file's order
+      const addedIds = added.map((question) => question.id);
+      const linkError = await linkQuestionsToQuiz(supabase, quizId, addedIds);
+      if (linkError) {
+        console.error(`[quizzes.$quizId.tsx action] Error adding imported questions to quiz ${quizId}:`, linkError);
+        await supabase.from('questions').delete().in('id', addedIds);
+        return json({ error: `Failed to import questions: ${linkError.message}` }, { status: 500 });
+      }
+      console.log(`[quizzes.$quizId.tsx action] Imported ${file.result.questions.length} question(s) into quiz ${quizId}`);
+      return json({ error: null, imported: file.result.questions.length });
+    }
+
+    default:
+      return json({ error: 'Unknown action.' }, { status: 400 });
+  }
+}
+
+// File input for one option slot; the option's current media (if any) can be removed
+function OptionMediaInput({ slot, current }: { slot: number; current: QuestionMedia | null }) {
+  return (
+    <span className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+      {current && (
+        <label className="flex items-center gap-1 whitespace-nowrap" title="Tick to remove this option's media">
+          <input type="checkbox" name="removeOptionMedia" value={slot} />
+          Remove {getMediaLabel(current)}
+        </label>
+      )}
+      <input type="file" name="optionMedia" accept={MEDIA_ACCEPT} aria-label={`Media for option ${slot + 1}`} className="w-32" />
+    </span>
+  );
+}
+
+function QuestionFields({ question }: { question?: QuestionInfo }) {
+  const idPrefix = question?.id ?? 'new';
+  const [questionType, setQuestionType] = useState<QuestionType>(question?.question_type ?? 'multiple_choice');
+  // Only prefill the solution when editing a question of the selected type
+  const correct = question && question.question_type === questionType ? getCorrectAnswer(question) : null;
+  const inputClassName = 'px-3 py-1 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+  return (
+    <>
+      <div>
+        <label htmlFor={`${idPrefix}-text`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Question
+        </label>
+        <textarea
+          id={`${idPrefix}-text`}
+          name="questionText"
+          required
+          rows={2}
+          defaultValue={question?.question_text}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+        />
+      </div>
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium text-gray-700 dark:text-gray-300">Media (optional image, audio or video)</legend>
+        {question?.media && (
+          <div className="flex items-center gap-3">
+            <MediaView media={question.media} className="max-h-24 max-w-xs" />
+            <label className="flex items-center gap-1 text-sm">
+              <input type="checkbox" name="removeQuestionMedia" />
+              Remove
+            </label>
+          </div>
+        )}
+        <input type="file" name="questionMedia" accept={MEDIA_ACCEPT} aria-label={question?.media ? 'Replace media' : 'Upload media'} className="block text-sm" />
+        <div className="flex flex-wrap gap-4">
+          <div>
+            <label htmlFor={`${idPrefix}-media-alt`} className="block text-xs text-gray-600 dark:text-gray-400">Image description</label>
+            <input
+              type="text"
+              id={`${idPrefix}-media-alt`}
+              name="mediaAlt"
+              maxLength={200}
+              defaultValue={question?.media?.alt ?? ''}
+              className={`mt-1 w-64 ${inputClassName}`}
+            />
+          </div>
+          <div>
+            <label htmlFor={`${idPrefix}-media-start`} className="block text-xs text-gray-600 dark:text-gray-400">Clip start (s, audio/video)</label>
+            <input
+              type="number"
+              id={`${idPrefix}-media-start`}
+              name="mediaStart"
+              min={0}
+              step="any"
+              defaultValue={question?.media?.startSeconds}
+              className={`mt-1 w-32 ${inputClassName}`}
+            />
+          </div>
+          <div>
+            <label htmlFor={`${idPrefix}-media-end`} className="block text-xs text-gray-600 dark:text-gray-400">Clip end (s, audio/video)</label>
+            <input
+              type="number"
+              id={`${idPrefix}-media-end`}
+              name="mediaEnd"
+              min={0}
+              step="any"
+              defaultValue={question?.media?.endSeconds}
+              className={`mt-1 w-32 ${inputClassName}`}
+            />
+          </div>
+        </div>
+      </fieldset>
+      <div>
+        <label htmlFor={`${idPrefix}-type`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Question type
+        </label>
+        <select
+          id={`${idPrefix}-type`}
+          name="questionType"
+          value={questionType}
+          onChange={(event) => setQuestionType(event.target.value as QuestionType)}
+          className={`mt-1 ${inputClassName}`}
+        >
+          {QUESTION_TYPES.map(({ type, label }) => (
+            <option key={type} value={type}>{label}</option>
+          ))}
+        </select>
+      </div>
+      {(questionType === 'multiple_choice' || questionType === 'multi_select') && (
+        <fieldset key={questionType} className="space-y-2">
+          <legend className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            {questionType === 'multi_select'
+              ? 'Options (tick every correct one, leave unused options blank)'
+              : 'Options (select the correct one, leave unused options blank)'}
+          </legend>
+          {Array.from({ length: MAX_OPTIONS }, (_, slot) => (
+            <div key={slot} className="flex items-center gap-2">
+              <input
+                type={questionType === 'multi_select' ? 'checkbox' : 'radio'}
+                name="correctOption"
+                value={slot}
+                aria-label={`Option ${slot + 1} is correct`}
+                defaultChecked={correct ? isCorrectOption(correct, slot) : slot === 0}
+              />
+              <input
+                type="text"
+                name="option"
+                aria-label={`Option ${slot + 1}`}
+                defaultValue={question?.options[slot] ?? ''}
+                placeholder={slot < MIN_OPTIONS ? `Option ${slot + 1}` : `Option ${slot + 1} (optional)`}
+                className={`flex-1 ${inputClassName}`}
+              />
+              <OptionMediaInput slot={slot} current={question?.option_media[slot] ?? null} />
+            </div>
+          ))}
+        </fieldset>
+      )}
+      {questionType === 'true_false' && (
+        <fieldset className="flex gap-4">
+          <legend className="text-sm font-medium text-gray-700 dark:text-gray-300">The statement is</legend>
+          {TRUE_FALSE_OPTIONS.map((label, index) => (
+            <label key={label} className="flex items-center gap-2">
+              <input type="radio" name="correctOption" value={index} defaultChecked={correct ? isCorrectOption(correct, index) : index === 0} />
+              {label}
+            </label>
+          ))}
+        </fieldset>
+      )}
+      {(questionType === 'ordering' || questionType === 'poll' || questionType === 'multi_poll') && (
+        <fieldset key={questionType} className="space-y-2">
+          <legend className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            {questionType === 'ordering'
+              ? 'Items in the correct order (players get them shuffled; leave unused items blank)'
+              : 'Options (no right answer; leave unused options blank)'}
+          </legend>
+          {Array.from({ length: MAX_OPTIONS }, (_, slot) => (
+            <div key={slot} className="flex items-center gap-2">
+              <input
+                type="text"
+                name="option"
+                aria-label={`Item ${slot + 1}`}
+                defaultValue={question?.options[slot] ?? ''}
+                placeholder={slot < MIN_OPTIONS ? `${slot + 1}.` : `${slot + 1}. (optional)`}
+                className={`flex-1 ${inputClassName}`}
+              />
+              <OptionMediaInput slot={slot} current={question?.option_media[slot] ?? null} />
+            </div>
+          ))}
+        </fieldset>
+      )}
+      {questionType === 'matching' && (
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Pairs (players get the matches shuffled; leave unused pairs blank)
+          </legend>
+          {Array.from({ length: MAX_OPTIONS }, (_, slot) => (
+            <div key={slot} className="flex items-center gap-2">
+              <input
+                type="text"
+                name="option"
+                aria-label={`Pair ${slot + 1} item`}
+                defaultValue={question?.options[slot] ?? ''}
+                placeholder={slot < MIN_OPTIONS ? 'Item' : 'Item (optional)'}
+                className={`flex-1 ${inputClassName}`}
+              />
+              <span aria-hidden="true">=</span>
+              <input
+                type="text"
+                name="matchTarget"
+                aria-label={`Pair ${slot + 1} match`}
+                defaultValue={question ? getMatchTargets(question)[slot] ?? '' : ''}
+                placeholder={slot < MIN_OPTIONS ? 'Match' : 'Match (optional)'}
+                className={`flex-1 ${inputClassName}`}
+              />
+              <OptionMediaInput slot={slot} current={question?.option_media[slot] ?? null} />
+            </div>
+          ))}
+        </fieldset>
+      )}
+      {questionType === 'rating' && (
+        <div>
+          <label htmlFor={`${idPrefix}-scale`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Players rate from 1 to
+          </label>
+          <input
+            type="number"
+            id={`${idPrefix}-scale`}
+            name="ratingScale"
+            required
+            min={MIN_RATING_SCALE}
+            max={MAX_RATING_SCALE}
+            defaultValue={(question && getRatingScale(question)) ?? DEFAULT_RATING_SCALE}
+            className={`mt-1 w-32 ${inputClassName}`}
+          />
+        </div>
+      )}
+      {(questionType === 'word_cloud' || questionType === 'open_text') && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {questionType === 'word_cloud'
+            ? 'Players enter a word or short phrase; the host screen builds a word cloud from them.'
+            : 'Players write a free-text response; the host screen lists them as they arrive.'}
+        </p>
+      )}
+      {questionType === 'numeric' && (
+        <div className="flex flex-wrap gap-4">
+          <div>
+            <label htmlFor={`${idPrefix}-value`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Correct number
+            </label>
+            <input
+              type="number"
+              id={`${idPrefix}-value`}
+              name="correctValue"
+              required
+              step="any"
+              defaultValue={correct?.type === 'numeric' ? correct.value : undefined}
+              className={`mt-1 w-40 ${inputClassName}`}
+            />
+          </div>
+          <div>
+            <label htmlFor={`${idPrefix}-tolerance`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Tolerance (±)
+            </label>
+            <input
+              type="number"
+              id={`${idPrefix}-tolerance`}
+              name="tolerance"
+              min={0}
+              step="any"
+              defaultValue={correct?.type === 'numeric' ? correct.tolerance : 0}
+              className={`mt-1 w-32 ${inputClassName}`}
+            />
+          </div>
+        </div>
+      )}
+      {questionType === 'typed_answer' && (
+        <div>
+          <label htmlFor={`${idPrefix}-accepted`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Accepted answers (one per line; case and spaces are ignored)
+          </label>
+          <textarea
+            id={`${idPrefix}-accepted`}
+            name="acceptedAnswers"
+            required
+            rows={3}
+            defaultValue={correct?.type === 'typed_answer' ? correct.acceptedAnswers.join('\n') : ''}
+            className={`mt-1 block w-full ${inputClassName}`}
+          />
+        </div>
+      )}
+      <div>
+        <label htmlFor={`${idPrefix}-time-limit`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Time limit (seconds)
+        </label>
+        <input
+          type="number"
+          id={`${idPrefix}-time-limit`}
+          name="timeLimitSeconds"
+          required
+          min={MIN_TIME_LIMIT_SECONDS}
+          max={MAX_TIME_LIMIT_SECONDS}
+          defaultValue={question?.time_limit_seconds ?? DEFAULT_TIME_LIMIT_SECONDS}
+          className={`mt-1 w-32 ${inputClassName}`}
+        />
+      </div>
+      <div className="flex flex-wrap gap-3">
+        <div>
+          <label htmlFor={`${idPrefix}-subject`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Subject
+          </label>
+          <input
+            type="text"
+            id={`${idPrefix}-subject`}
+            name="subject"
+            maxLength={MAX_SUBJECT_LENGTH}
+            defaultValue={question?.subject ?? ''}
+            className={`mt-1 w-48 ${inputClassName}`}
+          />
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-difficulty`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Difficulty
+          </label>
+          <select id={`${idPrefix}-difficulty`} name="difficulty" defaultValue={question?.difficulty ?? ''} className={`mt-1 ${inputClassName}`}>
+            <option value="">Not set</option>
+            {DIFFICULTIES.map(({ difficulty, label }) => (
+              <option key={difficulty} value={difficulty}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1">
+          <label htmlFor={`${idPrefix}-tags`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Tags (comma-separated)
+          </label>
+          <input
+            type="text"
+            id={`${idPrefix}-tags`}
+            name="tags"
+            defaultValue={question?.tags.join(', ') ?? ''}
+            placeholder="geography, europe"
+            className={`mt-1 w-full ${inputClassName}`}
+          />
+        </div>
+      </div>
+    </>
+  );
+}
+
+type ImportPreview = ReturnType<typeof toImportPreview>;
+
+function ImportIssueList({ issues, className }: { issues: ImportPreview['errors']; className: string }) {
+  return (
+    <ul className={`pl-5 list-disc ${className}`}>
+      {issues.map((issue, index) => (
+        <li key={index}>
+          {issue.line === null ? 'File' : `Line ${issue.line}`}: {issue.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Result of checking a quiz file: its errors by line, or the questions it would add and a button to add them.
+// Questions that are left out (e.g. Moodle types with no equivalent here) are listed either way.
+function ImportReport({ preview }: { preview: ImportPreview }) {
+  const skipped = preview.warnings.length > 0 && (
+    <>
+      <p className="font-semibold text-yellow-700 dark:text-yellow-400">
+        {preview.warnings.length} note{preview.warnings.length === 1 ? '' : 's'} about what will not be imported:
+      </p>
+      <ImportIssueList issues={preview.warnings} className="text-yellow-700 dark:text-yellow-400" />
+    </>
+  );
+  if (preview.errors.length > 0) {
+    return (
+      <div className="space-y-2 text-sm">
+        <p className="font-semibold text-red-600 dark:text-red-400">
+          Found {preview.errors.length} problem{preview.errors.length === 1 ? '' : 's'}; nothing was imported. Fix the file and check it again.
+        </p>
+        <ImportIssueList issues={preview.errors} className="text-red-600 dark:text-red-400" />
+        {skipped}
+      </div>
+    );
+  }
+  return (
+    <Form method="post" className="space-y-2 text-sm">
+      <input type="hidden" name="intent" value="import-questions" />
+      <input type="hidden" name="importFormat" value={preview.format} />
+      <input type="hidden" name="importText" value={preview.text} />
+      {skipped}
+      <p className="font-semibold text-green-700 dark:text-green-400">
+        The file is valid. These {preview.questions.length} question{preview.questions.length === 1 ? '' : 's'} will be added after the current ones:
+      </p>
+      <ol className="pl-5 list-decimal">
+        {preview.questions.map((question, index) => (
+          <li key={index}>
+            {question.text} <span className="text-gray-500 dark:text-gray-400">({getQuestionTypeLabel(question.type)}, line {question.line})</span>
+          </li>
+        ))}
+      </ol>
+      <button type="submit" className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-md shadow hover:bg-indigo-700">
+        Import {preview.questions.length} question{preview.questions.length === 1 ? '' : 's'}
+      </button>
+    </Form>
+  );
+}
+
+export default function EditQuizPage() {
+  const { quiz, questions } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === 'submitting';
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const correctAnswers = new Map(questions.map((question) => [question.id, getCorrectAnswer(question)]));
+  // Only some intents return these, and the jsonified union of all responses does not narrow on them
+  const importPreview = actionData && 'importPreview' in actionData ? (actionData.importPreview as ImportPreview) : null;
+  const importedCount = actionData && 'imported' in actionData ? Number(actionData.imported) : null;
+
+  return (
+    <div className="mx-auto max-w-3xl p-6 space-y-8">
+      <Link to="/quizzes" className="text-blue-600 hover:underline dark:text-blue-400">
+        &larr; All quizzes
+      </Link>
+
+      <Form method="post" className="space-y-3 p-4 border rounded dark:border-gray-700">
+        <input type="hidden" name="intent" value="update-quiz" />
+        <label htmlFor="title" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Quiz title
+        </label>
+        <input
+          type="text"
+          id="title"
+          name="title"
+          required
+          maxLength={100}
+          defaultValue={quiz.title}
+          className="block w-full px-3 py-2 text-2xl font-bold border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+        />
+        <label htmlFor="description" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Description
+        </label>
+        <textarea
+          id="description"
+          name="description"
+          rows={2}
+          defaultValue={quiz.description ?? ''}
+          className="block w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+        />
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 disabled:opacity-50"
+        >
+          Save details
+        </button>
+      </Form>
+
+      {actionData?.error && (
+        <p className="text-sm text-red-600 dark:text-red-400">Error: {actionData.error}</p>
+      )}
+
+      <section className="space-y-4">
+        <h2 className="text-2xl font-semibold">Questions ({questions.length})</h2>
+        {questions.length === 0 && (
+          <p className="text-gray-600 dark:text-gray-400">No questions yet. Add the first one below.</p>
+        )}
+        <ol className="space-y-4">
+          {questions.map((question, index) => (
+            <li key={question.id} className="p-4 border rounded dark:border-gray-700">
+              {editingId === question.id ? (
+                <Form method="post" encType="multipart/form-data" className="space-y-3" onSubmit={() => setEditingId(null)}>
+                  <input type="hidden" name="intent" value="update-question" />
+                  <input type="hidden" name="questionId" value={question.id} />
+                  <QuestionFields question={question} />
+                  {question.quizCount > 1 && (
+                    <p className="text-sm text-yellow-700 dark:text-yellow-400">
+                      This question is also used in {question.quizCount - 1} other quiz{question.quizCount === 2 ? '' : 'zes'}; your changes apply there too.
+                    </p>
+                  )}
+                  <div className="flex gap-2">
+                    <button type="submit" className="px-3 py-1 bg-indigo-600 text-white rounded hover:bg-indigo-700">
+                      Save
+                    </button>
+                    <button type="button" onClick={() => setEditingId(null)} className="px-3 py-1 border rounded dark:border-gray-600">
+                      Cancel
+                    </button>
+                  </div>
+                </Form>
+              ) : (
+                <div className="space-y-2">
+                  <p className="font-semibold">
+                    {index + 1}. {question.question_text}
+                    <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">
+                      ({getQuestionTypeLabel(question.question_type)}, {question.time_limit_seconds}s)
+                    </span>
+                  </p>
+                  {(question.subject || question.difficulty || question.tags.length > 0) && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {[question.subject, question.difficulty && getDifficultyLabel(question.difficulty), ...question.tags.map((tag) => `#${tag}`)]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </p>
+                  )}
+                  {question.media && <MediaView media={question.media} className="max-h-32 max-w-xs" />}
+                  {question.option_media.some(Boolean) && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Option media: {question.option_media.flatMap((media, optionIndex) => (media ? [`${optionIndex + 1}. ${getMediaLabel(media)}`] : [])).join(', ')}
+                    </p>
+                  )}
+                  {hasOptions(question.question_type) ? (
+                    <ul className="pl-5 list-disc text-sm">
+                      {question.options.map((option, optionIndex) => {
+                        const isCorrect = isCorrectOption(correctAnswers.get(question.id) ?? null, optionIndex);
+                        return (
+                          <li key={optionIndex} className={isCorrect ? 'font-semibold text-green-700 dark:text-green-400' : ''}>
+                            {option} {isCorrect ? '(correct)' : ''}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  ) : !isGraded(question.question_type) ? (
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      No right answer{question.question_type === 'rating' ? `; rated from 1 to ${getRatingScale(question) ?? '?'}` : ''}.
+                    </p>
+                  ) : (
+                    <p className="text-sm font-semibold text-green-700 dark:text-green-400">
+                      Answer: {correctAnswers.get(question.id) ? formatCorrectAnswer(correctAnswers.get(question.id)!, question.options, getMatchTargets(question)) : 'missing'}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap gap-2 text-sm">
+                    <Form method="post">
+                      <input type="hidden" name="intent" value="move-question" />
+                      <input type="hidden" name="questionId" value={question.id} />
+                      <input type="hidden" name="direction" value="up" />
+                      <button type="submit" disabled={index === 0 || isSubmitting} className="px-2 py-1 border rounded disabled:opacity-50 dark:border-gray-600">
+                        Move up
+                      </button>
+                    </Form>
+                    <Form method="post">
+                      <input type="hidden" name="intent" value="move-question" />
+                      <input type="hidden" name="questionId" value={question.id} />
+                      <input type="hidden" name="direction" value="down" />
+                      <button type="submit" disabled={index === questions.length - 1 || isSubmitting} className="px-2 py-1 border rounded disabled:opacity-50 dark:border-gray-600">
+                        Move down
+                      </button>
+                    </Form>
+                    <button type="button" onClick={() => setEditingId(question.id)} className="px-2 py-1 border rounded dark:border-gray-600">
+                      Edit
+                    </button>
+                    <Form
+                      method="post"
+                      onSubmit={(event) => {
+                        if (!confirm('Remove this question from the quiz? It stays in your question bank.')) {
+                          event.preventDefault();
+                        }
+                      }}
+                    >
+                      <input type="hidden" name="intent" value="remove-question" />
+                      <input type="hidden" name="questionId" value={question.id} />
+                      <button type="submit" className="px-2 py-1 text-red-600 border border-red-300 rounded dark:text-red-400">
+                        Remove
+                      </button>
+                    </Form>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      </section>
+
+      {/* Re-mount the add form after each successful save so its fields reset */}
+      <Form key={questions.length} method="post" encType="multipart/form-data" className="space-y-3 p-4 border rounded dark:border-gray-700">
+        <h2 className="text-xl font-semibold">Add a Question</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          New questions are saved to your{' '}
+          <Link to={`/questions?quiz=${quiz.id}`} className="text-blue-600 hover:underline dark:text-blue-400">
+            question bank
+          </Link>
+          , where you can also pick questions you already wrote.
+        </p>
+        <input type="hidden" name="intent" value="add-question" />
+        <QuestionFields />
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-md shadow hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {isSubmitting ? 'Saving...' : 'Add Question'}
+        </button>
+      </Form>
+
+      <section className="space-y-4 p-4 border rounded dark:border-gray-700">
+        <h2 className="text-xl font-semibold">Import and Export</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Download this quiz as{' '}
+          {QUIZ_EXPORT_FORMATS.map(({ format, label }, index) => (
+            <span key={format}>
+              {index > 0 && (index === QUIZ_EXPORT_FORMATS.length - 1 ? ' or ' : ', ')}
+              <a href={`/quizzes/${quiz.id}/export?format=${format}`} download className="text-blue-600 hover:underline dark:text-blue-400">
+                {label}
+              </a>
+            </span>
+          ))}
+          . Media attachments are not included.
+        </p>
+        <Form method="post" encType="multipart/form-data" className="space-y-3">
+          <input type="hidden" name="intent" value="check-import" />
+          <div>
+            <label htmlFor="import-file" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Add questions from a quiz file
+            </label>
+            <input type="file" id="import-file" name="importFile" accept=".json,.csv,.md,.markdown,.xml,.gift,.txt" className="mt-1 block text-sm" />
+          </div>
+          <div>
+            <label htmlFor="import-text" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Or paste its contents
+            </label>
+            <textarea
+              id="import-text"
+              name="importText"
+              rows={4}
+              placeholder={'## Capital of France?\n- [ ] Berlin\n- [x] Paris'}
+              className="mt-1 block w-full px-3 py-2 font-mono text-sm border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            />
+          </div>
+          <div>
+            <label htmlFor="import-format" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Format
+            </label>
+            <select
+              id="import-format"
+              name="importFormat"
+              className="mt-1 px-3 py-1 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            >
+              <option value="">Detect from the file</option>
+              {QUIZ_IMPORT_FORMATS.map(({ format, label }) => (
+                <option key={format} value={format}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <details className="text-sm text-gray-600 dark:text-gray-400">
+            <summary className="cursor-pointer">File formats</summary>
+            <div className="mt-2 space-y-2">
+              <p>
+                <strong>CSV:</strong> a header row, then one row per question. Matching pairs are written{' '}
+                <code>item =&gt; match</code>; the answer column holds the correct option number(s) (<code>1|3</code>),{' '}
+                <code>true</code>/<code>false</code>, a number (<code>42 ± 2</code>), accepted answers (<code>Paris|Paree</code>) or the top of a
+                rating scale.
+              </p>
+              <pre className="p-2 overflow-x-auto bg-gray-100 rounded dark:bg-gray-800">
+                {'type,question,option_1,option_2,option_3,option_4,option_5,option_6,answer,time_limit_seconds\nmultiple_choice,Capital of France?,Berlin,Paris,,,,,2,20'}
+              </pre>
+              <p>
+                <strong>Markdown:</strong> a <code>##</code> heading per question, options as a list with the correct ones ticked, and optional{' '}
+                <code>type:</code>, <code>time:</code> and <code>answer:</code> lines.
+              </p>
+              <pre className="p-2 overflow-x-auto bg-gray-100 rounded dark:bg-gray-800">
+                {'## Put these planets in order\ntype: ordering\ntime: 30\n1. Mercury\n2. Venus\n3. Earth'}
+              </pre>
+              <p>
+                <strong>JSON:</strong> the format exported above, with the answers in the fields <code>correct</code> (option indexes),{' '}
+                <code>value</code>/<code>tolerance</code>, <code>acceptedAnswers</code>, <code>matches</code> or <code>scale</code>.
+              </p>
+              <p>
+                Every format can also set a question&apos;s <code>subject</code>, <code>difficulty</code> (easy, medium or hard) and{' '}
+                <code>tags</code>: as fields in JSON, columns in CSV and <code>subject:</code>/<code>difficulty:</code>/<code>tags:</code> lines in
+                Markdown.
+              </p>
+              <p>
+                <strong>Moodle XML and GIFT:</strong> question banks exported from Moodle. Multiple choice, true/false, short answer and
+                numerical questions are imported; other question types are listed as skipped.
+              </p>
+            </div>
+          </details>
+          <button type="submit" disabled={isSubmitting} className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 disabled:opacity-50">
+            Check file
+          </button>
+        </Form>
+        {importPreview && <ImportReport preview={importPreview} />}
+        {importedCount !== null && (
+          <p className="text-sm text-green-700 dark:text-green-400">
+            Imported {importedCount} question{importedCount === 1 ? '' : 's'}.
+          </p>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from '@remix-run/node';
+import { json, redirect } from '@remix-run/node';
+import { Form, Link, useActionData, useLoaderData, useNavigation } from '@remix-run/react';
+import { requireAdmin, createServerClient } from '~/lib/session.server';
+
+export const meta: MetaFunction = () => [{ title: 'My Quizzes - Live Quiz' }];
+
+// Loader: List the quizzes owned by the logged-in admin
+export async function loader({ request }: LoaderFunctionArgs) {
+  const adminUser = await requireAdmin(request);
+  const supabase = createServerClient(request);
+
+  console.log(`\n--- [quizzes._index.tsx loader] --- Loading quizzes for admin ${adminUser.email}`);
+  const { data: quizzes, error } = await supabase
+    .from('quizzes')
+    .select('id, title, description, created_at, quiz_questions(count)')
+    .eq('owner_id', adminUser.id)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('[quizzes._index.tsx loader] Error loading quizzes:', error);
+    throw new Response(`Error loading quizzes: ${error.message}`, { status: 500 });
+  }
+
+  return json({
+    quizzes: (quizzes ?? []).map((quiz) => ({
+      id: quiz.id,
+      title: quiz.title,
+      description: quiz.description,
+      createdAt: quiz.created_at,
+      // PostgREST returns the aggregate as [{ count }]
+      questionCount: quiz.quiz_questions?.[0]?.count ?? 0,
+    })),
+  });
+}
+
+// Action: Create a new quiz or delete an existing one
+export async function action({ request }: ActionFunctionArgs) {
+  const adminUser = await requireAdmin(request);
+  const supabase = createServerClient(request);
+  const formData = await request.formData();
+  const intent = formData.get('intent');
+
+  if (intent === 'delete') {
+    const quizId = formData.get('quizId')?.toString();
+    if (!quizId) {
+      return json({ error: 'Quiz ID missing.' }, { status: 400 });
+    }
+    console.log(`[quizzes._index.tsx action] Admin ${adminUser.email} deleting quiz ${quizId}`);
+    // Its questions stay in the question bank; only their links to the quiz go (ON DELETE CASCADE)
+    const { error } = await supabase.from('quizzes').delete().eq('id', quizId).eq('owner_id', adminUser.id);
+    if (error) {
+      console.error(`[quizzes._index.tsx action] Error deleting quiz ${quizId}:`, error);
+      return json({ error: `Failed to delete quiz: ${error.message}` }, { status: 500 });
+    }
+    return json({ error: null });
+  }
+
+  if (intent === 'create') {
+    const title = formData.get('title')?.toString().trim();
+    const description = formData.get('description')?.toString().trim() || null;
+    if (!title || title.length > 100) {
+      return json({ error: 'Title must be between 1 and 100 characters.' }, { status: 400 });
+    }
+
+    console.log(`[quizzes._index.tsx action] Admin ${adminUser.email} creating quiz "${title}"`);
+    const { data: newQuiz, error } = await supabase
+      .from('quizzes')
+      .insert({ title, description, owner_id: adminUser.id })
+      .select('id')
+      .single();
+
+    if (error || !newQuiz) {
+      console.error('[quizzes._index.tsx action] Error creating quiz:', error);
+      if (error?.code === '42501') {
+        return json({ error: 'Failed to create quiz due to permission restrictions. (RLS)' }, { status: 403 });
+      }
+      return json({ error: `Failed to create quiz: ${error?.message ?? 'no data returned'}` }, { status: 500 });
+    }
+
+    return redirect(`/quizzes/${newQuiz.id}`);
+  }
+
+  return json({ error: 'Unknown action.' }, { status: 400 });
+}
+
+export default function QuizzesPage() {
+  const { quizzes } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === 'submitting';
+
+  return (
+    <div className="mx-auto max-w-3xl p-6 space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">My Quizzes</h1>
+        <div className="flex gap-4">
+          <Link to="/questions" className="text-blue-600 hover:underline dark:text-blue-400">
+            Question bank
+          </Link>
+          <Link to="/host" className="text-blue-600 hover:underline dark:text-blue-400">
+            Host a game
+          </Link>
+        </div>
+      </div>
+
+      <Form method="post" className="space-y-4 p-4 border rounded dark:border-gray-700">
+        <h2 className="text-xl font-semibold">Create a Quiz</h2>
+        <input type="hidden" name="intent" value="create" />
+        <div>
+          <label htmlFor="title" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Title
+          </label>
+          <input
+            type="text"
+            id="title"
+            name="title"
+            required
+            maxLength={100}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          />
+        </div>
+        <div>
+          <label htmlFor="description" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Description (optional)
+          </label>
+          <textarea
+            id="description"
+            name="description"
+            rows={2}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-md shadow hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {isSubmitting ? 'Saving...' : 'Create Quiz'}
+        </button>
+      </Form>
+
+      {actionData?.error && (
+        <p className="text-sm text-red-600 dark:text-red-400">Error: {actionData.error}</p>
+      )}
+
+      {quizzes.length > 0 ? (
+        <ul className="space-y-3">
+          {quizzes.map((quiz) => (
+            <li key={quiz.id} className="flex items-center justify-between p-4 border rounded dark:border-gray-700">
+              <div>
+                <Link to={`/quizzes/${quiz.id}`} className="text-lg font-semibold text-blue-600 hover:underline dark:text-blue-400">
+                  {quiz.title}
+                </Link>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {quiz.questionCount} question{quiz.questionCount === 1 ? '' : 's'}
+                  {quiz.description ? ` · ${quiz.description}` : ''}
+                </p>
+              </div>
+              <Form
+                method="post"
+                onSubmit={(event) => {
+                  if (!confirm(`Delete "${quiz.title}"? Its questions stay in your question bank.`)) {
+                    event.preventDefault();
+                  }
+                }}
+              >
+                <input type="hidden" name="intent" value="delete" />
+                <input type="hidden" name="quizId" value={quiz.id} />
+                <button type="submit" className="text-sm text-red-600 hover:underline dark:text-red-400">
+                  Delete
+                </button>
+              </Form>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-600 dark:text-gray-400">You have not created any quizzes yet.</p>
+      )}
+    </div>
+  );
+}
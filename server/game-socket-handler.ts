@@ -1,269 +1,1186 @@
-import type { WebSocket } from 'ws';
+import { WebSocket } from 'ws';
 import type * as http from 'http';
 import { nanoid } from 'nanoid';
-import { supabase } from '../app/lib/supabase';
+import {
+  CLOSE_CODE_KICKED,
+  CLOSE_CODE_REPLACED,
+  DEFAULT_LOBBY_SETTINGS,
+  DEFAULT_TEAM_SETTINGS,
+  encodeMessage,
+  parseClientMessage,
+} from '../app/lib/game-protocol';
+import type {
+  AnswerDistributionPayload,
+  AnswerResultPayload,
+  CorrectAnswer,
+  LeaderboardEntry,
+  LobbySettings,
+  PlayerListEntry,
+  ProtocolErrorCode,
+  QuestionMedia,
+  QuestionPayload,
+  QuestionType,
+  ServerMessage,
+  StateSnapshotPayload,
+  SubmittedAnswer,
+  TeamEntry,
+  TeamLeaderboardEntry,
+  TeamSettings,
+} from '../app/lib/game-protocol';
+import { supabaseAdmin } from '../app/lib/supabase-admin.server';
+import {
+  formatSubmittedAnswer,
+  getCorrectAnswer,
+  getMatchTargets,
+  getRatingScale,
+  hasOptions,
+  isGraded,
+  isQuestionType,
+} from '../app/lib/question-types';
+import { parseMedia, parseOptionMedia } from '../app/lib/question-media';
+import { sortByQuizOrder } from '../app/lib/question-bank';
+import { scoreAnswer } from './scoring';
+import { arrangeForPlay } from './question-arrangement';
+import { balanceTeams, getTeamLeaderboard, getTeamMembers, pickSmallestTeam } from './teams';
+import type { Team } from './teams';
+import { getConnectionUser } from './ws-auth';
+import { isResponsive, markAlive } from './heartbeat';
+import { isRelayed, relayToOwner, startRoomRelay } from './room-relay';
+import type { GameSocket } from './room-relay';
+import { createInMemoryRoomTransport } from './room-transport';
+import type { RoomTransport } from './room-transport';
+import { getDbStatusForPhase, validateTransition } from './game-state-machine';
+import type { GamePhase } from './game-state-machine';
+import { getLiveStateSnapshot, getPausedRemainingMs, getRestorableSnapshot, restoreLiveState, resumeQuestionClock } from './live-state';
+import type { RestoredPlayer } from './live-state';
 
 // --- Types ---
 interface Player {
   id: string; // Corresponds to Supabase 'players' table id (UUID)
   nickname: string;
   score: number;
-  ws: WebSocket | null; // Reference to the WebSocket connection (can be null initially)
+  ws: GameSocket | null; // Reference to the WebSocket connection (can be null initially)
+  idle: boolean; // Last reported presence; connected but missing heartbeats
+  userId: string; // Supabase auth user that owns the players row
+  resumeToken: string; // Lets a dropped connection reattach with PLAYER_RESUME
+  teamId: string | null; // players.team_id; only used in team mode
+}
+
+interface QuizQuestion {
+  id: string; // Corresponds to Supabase 'questions' table id (UUID)
+  type: QuestionType;
+  text: string;
+  options: string[];
+  matchTargets: string[]; // Right-hand column of matching questions, empty for other types
+  ratingScale: number | null; // Rating slides only
+  media: QuestionMedia | null;
+  optionMedia: (QuestionMedia | null)[]; // Parallel to options, empty if no option has media
+  correctAnswer: CorrectAnswer | null; // Server-only, never sent to players while the question is open; null on ungraded slides
+  timeLimitSeconds: number;
+}
+
+interface PlayerAnswer {
+  playerId: string;
+  answer: SubmittedAnswer;
+  isCorrect: boolean;
+  latencyMs: number;
+  points: number;
 }
 
 interface GameState {
   gameId: string; // Corresponds to the Supabase 'games' table ID
   gamePin: string;
-  hostWs: WebSocket | null;
+  hostWs: GameSocket | null;
   players: Map<string, Player>; // Map playerId (UUID) to Player object
   currentQuestionIndex: number;
-  gamePhase: 'lobby' | 'question' | 'leaderboard' | 'ended';
+  gamePhase: GamePhase;
   sharedAdminState: number; // New shared state controlled by admin
-  // TODO: Add quiz questions array
+  quizId: string | null; // games.quiz_id, null if the host created the game without a quiz
+  questions: QuizQuestion[]; // Loaded from the 'questions' table when the host joins
+  questionStartedAt: number | null; // Epoch ms when the current question was broadcast
+  questionDeadline: number | null; // Epoch ms after which answers are rejected (server clock is authoritative)
+  questionTimer: ReturnType<typeof setTimeout> | null; // Fires when the deadline passes to close the question
+  timerSyncInterval: ReturnType<typeof setInterval> | null; // Periodic TIMER_SYNC broadcasts while a question is open
+  currentAnswers: Map<string, PlayerAnswer>; // Answers to the current question, keyed by playerId
+  hostPausedAt: number | null; // Epoch ms when the host dropped; the game is paused while this is set
+  pausedRemainingMs: number | null; // Time left on the open question when the game was paused
+  hostReconnectTimer: ReturnType<typeof setTimeout> | null; // Ends the game if the host does not come back in time
+  lobbySettings: LobbySettings; // Mirrors the games row; joins are enforced by the join action and RLS
+  pendingPlayers: Map<string, Player>; // Nicknames waiting for host approval; not part of the game until approved
+  teamSettings: TeamSettings; // Mirrors the games row
+  teams: Team[]; // Loaded from the 'teams' table, in display order
 }
 
+// --- Timing ---
+// Answers that arrive this long after the deadline are still accepted, to absorb network latency
+const ANSWER_GRACE_MS = 500;
+// How often clients get the deadline re-sent with a fresh server timestamp
+const TIMER_SYNC_INTERVAL_MS = 5000;
+// How long a game stays paused waiting for a disconnected host before it is ended
+const HOST_RECONNECT_GRACE_MS = Number(process.env.HOST_RECONNECT_GRACE_SECONDS ?? 60) * 1000;
+
 // --- In-Memory State ---
 const games = new Map<string, GameState>();
+// Restores in progress, so concurrent reconnects after a restart share one rebuild
+const pendingRestores = new Map<string, Promise<GameState | null>>();
 // Map WebSocket connection to its associated gameId, clientId (host_id or player_id), and role
-const wsClientMap = new Map<WebSocket, { gameId: string; clientId: string; isHost: boolean }>();
+const wsClientMap = new Map<GameSocket, { gameId: string; clientId: string; isHost: boolean }>();
+
+// --- Rooms ---
+// Each game is owned by one server process; the transport decides which, and carries relayed
+// connections from the other processes (see room-transport.ts)
+let roomTransport: RoomTransport = createInMemoryRoomTransport();
+// Rooms this process has claimed, whether or not their game is in memory yet
+const claimedRooms = new Set<string>();
+
+export function setRoomTransport(transport: RoomTransport) {
+  roomTransport = transport;
+  startRoomRelay(transport, {
+    ownsRoom: (gameId) => claimedRooms.has(gameId),
+    onFrame: (socket, userId, data) => { void handleClientFrame(socket, userId, data); },
+    onClose: handleSocketClosed,
+    onRoomLost: dropLostRoom,
+  });
+}
 
 // --- WebSocket Message Handler ---
 export function handleWebSocket(ws: WebSocket, req: http.IncomingMessage) {
+  // Set by verifyClient during the upgrade; connections without a user never get this far
+  const user = getConnectionUser(req);
+  if (!user) {
+    console.warn('WebSocket connection without an authenticated user, closing.');
+    ws.close(1008, 'Unauthorized');
+    return;
+  }
 
   ws.on('message', (messageBuffer) => {
-    let message;
+    markAlive(ws);
+    void routeClientFrame(ws, user.id, messageBuffer.toString());
+  });
+
+  ws.on('close', () => {
+    // A relayed connection is cleaned up by the process that owns its game
+    if (!isRelayed(ws)) handleSocketClosed(ws);
+  });
+
+  ws.on('error', (error) => {
+      console.error('WebSocket error:', error);
+      // Attempt to find client info to log context
+      const clientInfo = wsClientMap.get(ws);
+      if (clientInfo) {
+          console.error(`Error occurred on connection for game ${clientInfo.gameId}, client ${clientInfo.clientId} (isHost: ${clientInfo.isHost})`);
+      }
+      // Consider closing the socket if it's in a bad state
+      if (ws.readyState !== WebSocket.CLOSED) {
+          ws.close(1011, 'Internal server error'); // 1011: Internal Error
+      }
+  });
+}
+
+// --- Message Routing ---
+
+// Handle a frame from a local socket here if this process owns its game, or relay it to the owner.
+// Only handshakes can bind a socket to a game, so only they need a room claim.
+async function routeClientFrame(ws: WebSocket, userId: string, data: string) {
+  if (isRelayed(ws)) {
+    relayToOwner(ws, userId, data);
+    return;
+  }
+  const gameId = wsClientMap.has(ws) ? null : getHandshakeGameId(data);
+  let claimed = true;
+  if (gameId) {
     try {
-      message = JSON.parse(messageBuffer.toString());
-      console.log('Received message:', message);
-
-      const { type, payload } = message;
-      const clientInfo = wsClientMap.get(ws); // Get info if already identified
-
-      switch (type) {
-        case 'HOST_JOIN': {
-          const { gameId, gamePin } = payload;
-          if (!gameId || !gamePin) {
-             sendError(ws, 'Missing gameId or gamePin for host join.');
-             ws.close(); return;
-          }
-          // Check if this WS is already associated with a different game/client
-          if (clientInfo &amp;&amp; clientInfo.gameId !== gameId) {
-              sendError(ws, 'WebSocket connection already associated with another game.');
-              ws.close(); return;
-          }
+      claimed = await claimRoom(gameId);
+    } catch (error) {
+      // 1013 (try again later) makes the client reconnect and repeat the handshake
+      console.error(`Failed to claim the room of game ${gameId}:`, error);
+      sendError(ws, 'INTERNAL_ERROR', 'The game server is busy. Trying again...');
+      ws.close(1013, 'Room ownership unknown');
+      return;
+    }
+  }
+  if (gameId && !claimed) {
+    console.log(`Game ${gameId} is owned by another server process. Relaying the connection.`);
+    relayToOwner(ws, userId, data, gameId);
+    return;
+  }
+  await handleClientFrame(ws, userId, data);
+  // A handshake that did not bring the game into memory (e.g. unknown game) should not keep the room
+  if (gameId && !games.has(gameId)) await releaseRoom(gameId);
+}
 
-          const game = findOrCreateGame(gameId, gamePin);
-          if (game.hostWs &amp;&amp; game.hostWs !== ws) {
-             sendError(ws, 'Game already has a host.');
-             ws.close(); return;
-          }
-          game.hostWs = ws;
-          // Use a distinct identifier for the host within this game context
-          const hostClientId = `host_${gameId}`; // Or use the actual host user ID if available
-          wsClientMap.set(ws, { gameId, clientId: hostClientId, isHost: true });
-          console.log(`Host joined game ${gameId} (PIN: ${gamePin})`);
-
-          // Send initial state to host
-          sendPlayerListUpdate(gameId);
-          sendSharedStateUpdate(gameId, game.sharedAdminState, ws); // Send current shared state ONLY to host initially
-          break;
+function getHandshakeGameId(data: string) {
+  const parsed = parseClientMessage(data);
+  if (!parsed.ok) return null;
+  switch (parsed.message.type) {
+    case 'HOST_JOIN':
+    case 'PLAYER_IDENTIFY':
+      return parsed.message.payload.gameId;
+    case 'PLAYER_RESUME':
+      return getResumeTokenGameId(parsed.message.payload.resumeToken);
+    default:
+      return null;
+  }
+}
+
+// Throws if the transport cannot tell who owns the room; serving it here anyway could give it two owners
+async function claimRoom(gameId: string) {
+  if (claimedRooms.has(gameId)) return true;
+  const claimed = await roomTransport.claimRoom(gameId);
+  if (claimed) claimedRooms.add(gameId);
+  return claimed;
+}
+
+async function releaseRoom(gameId: string) {
+  if (!claimedRooms.delete(gameId)) return;
+  await roomTransport.releaseRoom(gameId).catch((error) => {
+    console.error(`Failed to release the room of game ${gameId}:`, error);
+  });
+}
+
+// Remove a game from memory and give up its room
+function forgetGame(gameId: string) {
+  games.delete(gameId);
+  void releaseRoom(gameId);
+}
+
+// Another process took over the room while the transport was disconnected: stop serving the game here.
+// Its clients reconnect and reach the new owner, which restores the game from its live_state snapshot.
+function dropLostRoom(gameId: string) {
+  claimedRooms.delete(gameId);
+  const game = games.get(gameId);
+  if (!game) return;
+  console.error(`Game ${gameId} is now owned by another server process. Disconnecting its clients here.`);
+  clearQuestionTimers(game);
+  if (game.hostReconnectTimer) clearTimeout(game.hostReconnectTimer);
+  games.delete(gameId);
+  [game.hostWs, ...[...game.players.values(), ...game.pendingPlayers.values()].map((p) => p.ws)].forEach((socket) => {
+    socket?.close(1012, 'Game moved to another server');
+  });
+}
+
+// --- Client Messages ---
+
+// Handle one frame from a host or player socket, local or relayed from another process
+async function handleClientFrame(ws: GameSocket, userId: string, data: string) {
+  // Shape and protocol version are checked up front, so the cases below can trust their payloads
+  const parsed = parseClientMessage(data);
+  if (!parsed.ok) {
+    console.warn(`Rejected message (${parsed.error.code}): ${parsed.error.message}`);
+    sendError(ws, parsed.error.code, parsed.error.message);
+    if (parsed.error.code === 'UNSUPPORTED_PROTOCOL_VERSION') ws.close(1002, 'Unsupported protocol version');
+    return;
+  }
+  const message = parsed.message;
+
+  try {
+    console.log('Received message:', message);
+    const clientInfo = wsClientMap.get(ws); // Get info if already identified
+
+    switch (message.type) {
+      case 'HOST_JOIN': {
+        const { gameId, gamePin } = message.payload;
+        // Only the user who created the game may host it
+        const { data: gameRow, error: gameError } = await supabaseAdmin
+          .from('games')
+          .select('host_id, game_pin, lobby_locked, max_players, nickname_approval, random_nicknames, team_mode, team_scoring, team_players_choose')
+          .eq('id', gameId)
+          .maybeSingle();
+        if (gameError) {
+           console.error(`Error verifying host for game ${gameId}:`, gameError);
+           sendError(ws, 'INTERNAL_ERROR', 'Failed to verify the game host.');
+           ws.close(); return;
+        }
+        if (!gameRow || gameRow.host_id !== userId || gameRow.game_pin !== gamePin) {
+           console.warn(`User ${userId} tried to host game ${gameId} without owning it.`);
+           sendError(ws, 'NOT_AUTHORIZED', 'You are not the host of this game.');
+           ws.close(1008, 'Not the host of this game'); return;
+        }
+        // Check if this WS is already associated with a different game/client
+        if (clientInfo && clientInfo.gameId !== gameId) {
+            sendError(ws, 'ALREADY_CONNECTED', 'WebSocket connection already associated with another game.');
+            ws.close(1008, 'Already associated with another game'); return;
         }
 
-        // Player identifies their WebSocket connection *after* joining via Remix action
-        case 'PLAYER_IDENTIFY': {
-          const { gameId, playerId, nickname } = payload; // Expect gameId (UUID) and playerId (UUID)
-          if (!gameId || !playerId || !nickname) {
-             sendError(ws, 'Missing gameId, playerId, or nickname for player identify.');
-             ws.close(); return;
-          }
-           // Check if this WS is already associated with a different game/client
-           if (clientInfo &amp;&amp; (clientInfo.gameId !== gameId || clientInfo.clientId !== playerId)) {
-               sendError(ws, 'WebSocket connection already associated with another client/game.');
-               ws.close(); return;
-           }
-
-          const game = games.get(gameId);
-          if (!game) {
-            console.log(`Game ${gameId} not found for player identify.`);
-            sendError(ws, 'Game not found.');
-            ws.close(); return;
+        // A running game missing from memory (server restarted) is rebuilt from its snapshot
+        const game = games.get(gameId) ?? await getOrRestoreGame(gameId) ?? findOrCreateGame(gameId, gamePin);
+        if (game.hostWs && game.hostWs !== ws) {
+           // Same host on a new connection (reconnect, or another tab): the newest connection wins
+           console.log(`Host of game ${gameId} connected again. Replacing the previous connection.`);
+           replaceSocket(game.hostWs);
+        }
+        game.hostWs = ws;
+        game.lobbySettings = {
+          locked: gameRow.lobby_locked ?? false,
+          maxPlayers: gameRow.max_players ?? null,
+          nicknameApproval: gameRow.nickname_approval ?? false,
+          randomNicknames: gameRow.random_nicknames ?? false,
+        };
+        game.teamSettings = getTeamSettings(gameRow);
+        const isResuming = game.hostPausedAt !== null;
+        // Use a distinct identifier for the host within this game context
+        const hostClientId = `host_${gameId}`; // Or use the actual host user ID if available
+        wsClientMap.set(ws, { gameId, clientId: hostClientId, isHost: true });
+        console.log(`Host joined game ${gameId} (PIN: ${gamePin})`);
+
+        // Load the quiz questions once per game; a re-joining host keeps the already loaded set
+        if (game.gamePhase === 'lobby' && game.questions.length === 0) {
+          const loaded = await loadGameQuestions(game);
+          if (!loaded) {
+            sendError(ws, 'INTERNAL_ERROR', 'Failed to load the questions for this game.');
+          } else if (game.questions.length === 0) {
+            sendError(ws, 'NO_QUESTIONS', 'This game has no questions yet. Add questions to its quiz before starting.');
           }
+        }
+        if (game.gamePhase === 'lobby' && !(await loadTeams(game))) {
+          sendError(ws, 'INTERNAL_ERROR', 'Failed to load the teams of this game.');
+        }
 
-          // Check if player already exists in memory (might happen on reconnect)
-          let player = game.players.get(playerId);
+        // Send initial state to host
+        sendPlayerListUpdate(gameId);
+        sendSharedStateUpdate(gameId, game.sharedAdminState, ws); // Send current shared state ONLY to host initially
+        send(ws, { type: 'LOBBY_SETTINGS_UPDATE', payload: game.lobbySettings });
+        sendNicknameQueueUpdate(game);
+        send(ws, { type: 'TEAMS_UPDATE', payload: getTeamsPayload(game) });
+        if (isResuming) {
+           resumeAfterHostReconnect(game);
+        } else {
+           sendHostCurrentState(game); // Host page reloaded or reconnected before the old socket was noticed as dead
+        }
+        send(ws, { type: 'PHASE_CHANGED', payload: { phase: game.gamePhase, questionIndex: game.currentQuestionIndex } });
+        break;
+      }
 
-          if (!player) {
-            // If player not in memory (e.g., server restart or first connection after join action), create entry
-            console.log(`Player ${nickname} (${playerId}) identifying, adding to game ${gameId} memory.`);
-            player = { id: playerId, nickname: nickname, score: 0, ws: ws };
-            game.players.set(playerId, player);
-          } else {
-             // Player exists, just update WebSocket reference and potentially nickname if changed (unlikely here)
-             console.log(`Player ${nickname} (${playerId}) re-identifying in game ${gameId}. Updating WebSocket.`);
-             player.ws = ws;
-             // Optional: Update nickname if it could change, though unlikely post-join
-             // player.nickname = nickname;
-          }
+      // Player identifies their WebSocket connection *after* joining via Remix action
+      case 'PLAYER_IDENTIFY': {
+        const { gameId, playerId, nickname } = message.payload; // Expect gameId (UUID) and playerId (UUID)
+        // The players row must belong to this user and this game
+        const { data: playerRow, error: playerError } = await supabaseAdmin
+          .from('players')
+          .select('game_id, user_id, nickname, approved, team_id')
+          .eq('id', playerId)
+          .maybeSingle();
+        if (playerError) {
+           console.error(`Error verifying player ${playerId}:`, playerError);
+           sendError(ws, 'INTERNAL_ERROR', 'Failed to verify the player.');
+           ws.close(); return;
+        }
+        if (!playerRow || playerRow.user_id !== userId || playerRow.game_id !== gameId) {
+           console.warn(`User ${userId} tried to identify as player ${playerId} in game ${gameId} without owning it.`);
+           sendError(ws, 'NOT_AUTHORIZED', 'You are not a player in this game.');
+           ws.close(1008, 'Not a player in this game'); return;
+        }
+         // Check if this WS is already associated with a different game/client
+         if (clientInfo && (clientInfo.gameId !== gameId || clientInfo.clientId !== playerId)) {
+             sendError(ws, 'ALREADY_CONNECTED', 'WebSocket connection already associated with another client/game.');
+             ws.close(1008, 'Already associated with another client'); return;
+         }
 
-          // Map this WebSocket connection to this player in this game
-          wsClientMap.set(ws, { gameId, clientId: playerId, isHost: false });
+        const game = games.get(gameId) ?? await getOrRestoreGame(gameId);
+        if (!game) {
+          console.log(`Game ${gameId} not found for player identify.`);
+          sendError(ws, 'GAME_NOT_FOUND', 'Game not found.');
+          ws.close(1008, 'Game not found'); return;
+        }
 
-          console.log(`Player ${nickname} (${playerId}) identified WebSocket for game ${gameId}`);
+        // The nickname that passed the join action's filter, not whatever the client sends now
+        if (nickname !== playerRow.nickname) {
+          console.warn(`Player ${playerId} identified as "${nickname}" but joined as "${playerRow.nickname}". Using the stored nickname.`);
+        }
 
-          // Send confirmation and initial state to the identified player
-          send(ws, { type: 'IDENTIFY_SUCCESS', payload: { message: 'WebSocket identified successfully.' } });
-          sendSharedStateUpdate(gameId, game.sharedAdminState, ws); // Send current shared state ONLY to this player
+        // Check if player already exists in memory (might happen on reconnect)
+        let player = game.players.get(playerId);
 
-          // Update player list for EVERYONE in the game
-          sendPlayerListUpdate(gameId);
+        if (!player && !playerRow.approved) {
+          queuePendingPlayer(ws, game, playerId, playerRow.nickname, userId);
           break;
         }
 
-        case 'START_GAME': {
-           if (!clientInfo || !clientInfo.isHost) {
-              sendError(ws, 'Only the host can start the game.'); return;
-           }
-           const game = games.get(clientInfo.gameId);
-           if (!game) return; // Should not happen if clientInfo exists
-           if (game.gamePhase !== 'lobby') {
-               sendError(ws, `Game is already in phase: ${game.gamePhase}`); return;
-           }
-
-           console.log(`Starting game ${clientInfo.gameId}`);
-           game.gamePhase = 'question';
-           game.currentQuestionIndex = 0;
-           // TODO: Update game status in DB to 'active'
-           broadcast(clientInfo.gameId, { type: 'GAME_STARTED' }); // Notify clients game has started
-           sendQuestion(clientInfo.gameId);
-           break;
+        if (!player) {
+          // If player not in memory (e.g., server restart or first connection after join action), create entry
+          console.log(`Player ${playerRow.nickname} (${playerId}) identifying, adding to game ${gameId} memory.`);
+          player = {
+            id: playerId,
+            nickname: playerRow.nickname,
+            score: 0,
+            ws: null,
+            idle: false,
+            userId: userId,
+            resumeToken: createResumeToken(gameId),
+            teamId: playerRow.team_id ?? null,
+          };
+          game.players.set(playerId, player);
+          await assignNewPlayerTeam(game, player);
+        } else {
+           // Player exists, just update WebSocket reference and potentially nickname if changed (unlikely here)
+           console.log(`Player ${nickname} (${playerId}) re-identifying in game ${gameId}. Updating WebSocket.`);
+           // Optional: Update nickname if it could change, though unlikely post-join
+           // player.nickname = nickname;
         }
 
-        case 'ADMIN_UPDATE_SHARED_STATE': {
-            if (!clientInfo || !clientInfo.isHost) {
-                sendError(ws, 'Only the host can update the state.'); return;
-            }
-            const game = games.get(clientInfo.gameId);
-            if (!game) return;
-
-            const { newState } = payload;
-            if (typeof newState !== 'number') {
-                sendError(ws, 'Invalid state value.'); return;
-            }
-
-            console.log(`Host updating shared state for game ${clientInfo.gameId} to ${newState}`);
-            game.sharedAdminState = newState;
-            // Broadcast the update to everyone (host and all players)
-            sendSharedStateUpdate(gameId, newState);
-            break;
+        attachPlayerSocket(ws, game, player);
+        break;
+      }
+
+      // Reattach a dropped player connection without repeating the database checks
+      case 'PLAYER_RESUME': {
+        const found = findPlayerByResumeToken(message.payload.resumeToken);
+        if (!found || found.player.userId !== userId) {
+           // Unknown token (e.g. the server restarted): the client falls back to PLAYER_IDENTIFY
+           sendError(ws, 'RESUME_FAILED', 'Your session could not be resumed.'); return;
         }
+        if (clientInfo && (clientInfo.gameId !== found.game.gameId || clientInfo.clientId !== found.player.id)) {
+           sendError(ws, 'ALREADY_CONNECTED', 'WebSocket connection already associated with another client/game.');
+           ws.close(1008, 'Already associated with another client'); return;
+        }
+        console.log(`Player ${found.player.nickname} (${found.player.id}) resuming in game ${found.game.gameId}.`);
+        attachPlayerSocket(ws, found.game, found.player);
+        break;
+      }
+
+      case 'START_GAME': {
+         const game = getHostGame(ws, clientInfo, 'start the game');
+         if (!game) return;
+         if (game.questions.length === 0) {
+             sendError(ws, 'NO_QUESTIONS', 'Cannot start a game without questions.'); return;
+         }
+         const error = validateTransition(game.gamePhase, 'question');
+         if (error) {
+             sendError(ws, 'INVALID_TRANSITION', error); return;
+         }
+         if (game.teamSettings.enabled) {
+             if (game.teams.length === 0) {
+                 sendError(ws, 'NO_TEAMS', 'Create teams before starting a team game.'); return;
+             }
+             // Nobody plays without a team: put players who did not pick one into the smallest teams
+             const members = Array.from(game.players.values()).map(({ id, score, teamId }) => ({ id, score, teamId }));
+             const assignments = new Map<string, string>();
+             for (const member of members.filter((m) => !m.teamId)) {
+                 const team = pickSmallestTeam(game.teams, members)!;
+                 member.teamId = team.id;
+                 assignments.set(member.id, team.id);
+             }
+             if (assignments.size > 0) {
+                 if (!(await savePlayerTeams(game, assignments))) {
+                     sendError(ws, 'INTERNAL_ERROR', 'Failed to assign players to teams.'); return;
+                 }
+                 sendTeamsUpdate(game);
+                 sendPlayerListUpdate(game.gameId);
+             }
+         }
 
+         console.log(`Starting game ${game.gameId}`);
+         game.currentQuestionIndex = 0;
+         transitionGame(game, 'question');
+         broadcast(game.gameId, { type: 'GAME_STARTED' }); // Notify clients game has started
+         sendQuestion(game.gameId);
+         break;
+      }
 
-        case 'SUBMIT_ANSWER': {
-           if (!clientInfo || clientInfo.isHost) return; // Only players submit
-           const game = games.get(clientInfo.gameId);
-           const player = game?.players.get(clientInfo.clientId); // clientId is playerId for players
-           if (!game || !player || game.gamePhase !== 'question') return;
+      // Close the current question before its deadline and show the correct answer
+      case 'REVEAL_ANSWER': {
+         const game = getHostGame(ws, clientInfo, 'reveal the answer');
+         if (!game) return;
+         const error = validateTransition(game.gamePhase, 'reveal');
+         if (error) {
+             sendError(ws, 'INVALID_TRANSITION', error); return;
+         }
+         closeQuestion(game.gameId);
+         break;
+      }
 
-           const { answerIndex } = payload;
-           console.log(`Player ${player.nickname} answered ${answerIndex} for question ${game.currentQuestionIndex}`);
-           // TODO: Validate answer, calculate score, store answer
-           send(ws, { type: 'ANSWER_RECEIVED' });
-           break;
-        }
+      case 'SHOW_LEADERBOARD': {
+         const game = getHostGame(ws, clientInfo, 'show the leaderboard');
+         if (!game) return;
+         if (!transitionGame(game, 'leaderboard', ws)) return;
 
-        default:
-          console.log('Unknown message type:', type);
-          sendError(ws, 'Unknown message type');
+         console.log(`Showing leaderboard for game ${game.gameId}`);
+         broadcast(game.gameId, {
+            type: 'SHOW_LEADERBOARD',
+            payload: { questionIndex: game.currentQuestionIndex, leaderboard: getLeaderboard(game), teamLeaderboard: getGameTeamLeaderboard(game) },
+         });
+         break;
       }
-    } catch (error) {
-      console.error('Failed to process message or invalid JSON:', error);
-      if (ws.readyState === WebSocket.OPEN) {
-         sendError(ws, 'Invalid message format');
+
+      case 'NEXT_QUESTION': {
+         const game = getHostGame(ws, clientInfo, 'advance to the next question');
+         if (!game) return;
+         const error = validateTransition(game.gamePhase, 'question');
+         if (error) {
+             sendError(ws, 'INVALID_TRANSITION', error); return;
+         }
+         // Running out of questions ends the game instead of showing another one
+         if (game.currentQuestionIndex + 1 >= game.questions.length) {
+             endGame(game, 'All questions have been answered. Thanks for playing!');
+             return;
+         }
+         game.currentQuestionIndex += 1;
+         transitionGame(game, 'question');
+         sendQuestion(game.gameId);
+         break;
       }
-    }
-  });
 
-  ws.on('close', async () => {
-    const clientInfo = wsClientMap.get(ws);
-    if (clientInfo) {
-      const { gameId, clientId, isHost } = clientInfo;
-      const game = games.get(gameId);
-      wsClientMap.delete(ws); // Remove WS from the central map
-
-      if (game) {
-        if (isHost) {
-          // HOST DISCONNECTED
-          console.log(`Host disconnected from game ${gameId}. Ending game and cleaning up.`);
-          game.hostWs = null; // Clear reference in game state
-
-          // Notify all remaining players
-          broadcast(gameId, { type: 'GAME_ENDED', payload: 'Host disconnected and game has ended.' }, ws); // Exclude the disconnecting host
-
-          // Close connections for remaining players
-          console.log(`Closing connections for remaining players in game ${gameId}...`);
-          game.players.forEach(p => {
-             if (p.ws &amp;&amp; (p.ws.readyState === WebSocket.OPEN || p.ws.readyState === WebSocket.CONNECTING)) {
-                 try {
-                     p.ws.close(1000, 'Host disconnected and game ended');
-                 } catch (e) { console.error(`Error closing socket for player ${p.nickname}:`, e); }
-             }
-             // Also remove players associated with this game from wsClientMap
-             if(p.ws) wsClientMap.delete(p.ws);
-          });
+      case 'END_GAME': {
+         const game = getHostGame(ws, clientInfo, 'end the game');
+         if (!game) return;
+         const error = validateTransition(game.gamePhase, 'ended');
+         if (error) {
+             sendError(ws, 'INVALID_TRANSITION', error); return;
+         }
+         endGame(game, 'The host ended the game.');
+         break;
+      }
 
-          // Delete game from memory
-          games.delete(gameId);
-          console.log(`Game ${gameId} removed from memory.`);
+      case 'ADMIN_UPDATE_SHARED_STATE': {
+          const game = getHostGame(ws, clientInfo, 'update the state');
+          if (!game) return;
 
-          // Attempt to delete game from database (best effort)
-          try {
-            // IMPORTANT: Ensure RLS allows the server (or the host user if using user token) to delete.
-            // This might require a specific service role key or adjusting RLS.
-            // Using the ANON key here likely WON'T work unless RLS allows anon delete (bad idea).
-            // For now, we assume deletion might fail due to RLS but log it.
-            console.warn(`Attempting DB delete for game ${gameId}. This might fail due to RLS if not using service_role.`);
-            const { error } = await supabase.from('games').delete().eq('id', gameId);
-            if (error) console.error(`Error deleting game ${gameId} from database (RLS might be blocking):`, error);
-            else console.log(`Game ${gameId} successfully deleted from database.`);
-          } catch (dbError) {
-            console.error(`Exception during database deletion for game ${gameId}:`, dbError);
+          const { newState } = message.payload;
+
+          console.log(`Host updating shared state for game ${game.gameId} to ${newState}`);
+          game.sharedAdminState = newState;
+          // Broadcast the update to everyone (host and all players)
+          sendSharedStateUpdate(game.gameId, newState);
+          break;
+      }
+
+      // Remove a player from the game, optionally banning them from joining it again
+      case 'KICK_PLAYER': {
+          const game = getHostGame(ws, clientInfo, 'remove players');
+          if (!game) return;
+          const { playerId, ban } = message.payload;
+          const player = game.players.get(playerId) ?? game.pendingPlayers.get(playerId);
+          if (!player) {
+              sendError(ws, 'PLAYER_NOT_FOUND', 'That player is not in this game.'); return;
+          }
+          await kickPlayer(game, player, ban);
+          break;
+      }
+
+      case 'UPDATE_LOBBY_SETTINGS': {
+          const game = getHostGame(ws, clientInfo, 'change the lobby settings');
+          if (!game) return;
+          const { locked, maxPlayers, nicknameApproval, randomNicknames } = message.payload;
+          // The join action and the players insert policy read these columns, so save them before confirming
+          const { error } = await supabaseAdmin
+            .from('games')
+            .update({
+              lobby_locked: locked,
+              max_players: maxPlayers,
+              nickname_approval: nicknameApproval,
+              random_nicknames: randomNicknames,
+            })
+            .eq('id', game.gameId);
+          if (error) {
+              console.error(`Error saving lobby settings for game ${game.gameId}:`, error);
+              sendError(ws, 'INTERNAL_ERROR', 'Failed to save the lobby settings.'); return;
+          }
+          console.log(`Lobby of game ${game.gameId} is now ${locked ? 'locked' : 'open'} (max players: ${maxPlayers ?? 'unlimited'}).`);
+          game.lobbySettings = { locked, maxPlayers, nicknameApproval, randomNicknames };
+          broadcast(game.gameId, { type: 'LOBBY_SETTINGS_UPDATE', payload: game.lobbySettings });
+          // Switching the queue off lets everyone who is still waiting in
+          if (!nicknameApproval) {
+              for (const pending of [...game.pendingPlayers.values()]) {
+                  await approveNickname(game, pending);
+              }
           }
+          break;
+      }
 
-          console.log(`Cleanup complete for game ${gameId}.`);
+      case 'REVIEW_NICKNAME': {
+          const game = getHostGame(ws, clientInfo, 'review nicknames');
+          if (!game) return;
+          const { playerId, approve } = message.payload;
+          const player = game.pendingPlayers.get(playerId);
+          if (!player) {
+              sendError(ws, 'PLAYER_NOT_FOUND', 'That nickname is no longer waiting for approval.'); return;
+          }
+          if (approve) {
+              await approveNickname(game, player);
+          } else {
+              await kickPlayer(game, player, false, 'The host did not approve your nickname. You can join again with a different one.');
+          }
+          break;
+      }
 
-        } else {
-          // PLAYER DISCONNECTED
-          const player = game.players.get(clientId); // clientId is playerId
-          if (player) {
-             console.log(`Player ${player.nickname} (ID: ${clientId}) disconnected from game ${gameId}`);
-             // Set WS to null, but keep player entry in case of reconnect
-             player.ws = null;
-             // Notify host and remaining players by sending updated list
-             sendPlayerListUpdate(gameId);
+      case 'UPDATE_TEAM_SETTINGS': {
+          const game = getHostGame(ws, clientInfo, 'change the team settings');
+          if (!game) return;
+          const { enabled, scoring, playersChoose } = message.payload;
+          // Scoring can still change mid-game (the leaderboard is recomputed), teams cannot appear or vanish
+          if (enabled !== game.teamSettings.enabled && game.gamePhase !== 'lobby') {
+              sendError(ws, 'INVALID_TRANSITION', 'Team mode can only be switched in the lobby.'); return;
+          }
+          const { error } = await supabaseAdmin
+            .from('games')
+            .update({ team_mode: enabled, team_scoring: scoring, team_players_choose: playersChoose })
+            .eq('id', game.gameId);
+          if (error) {
+              console.error(`Error saving team settings for game ${game.gameId}:`, error);
+              sendError(ws, 'INTERNAL_ERROR', 'Failed to save the team settings.'); return;
+          }
+          console.log(`Team mode of game ${game.gameId} is now ${enabled ? `on (${scoring})` : 'off'}.`);
+          game.teamSettings = { enabled, scoring, playersChoose };
+          sendTeamsUpdate(game);
+          break;
+      }
+
+      // Replace the game's teams; everyone starts without a team again
+      case 'SET_TEAMS': {
+          const game = getHostGame(ws, clientInfo, 'create teams');
+          if (!game) return;
+          if (game.gamePhase !== 'lobby') {
+              sendError(ws, 'INVALID_TRANSITION', 'Teams can only be changed in the lobby.'); return;
+          }
+          const names = message.payload.names.map((name) => name.trim());
+          // Deleting the old teams clears players.team_id (ON DELETE SET NULL)
+          const { error: deleteError } = await supabaseAdmin.from('teams').delete().eq('game_id', game.gameId);
+          if (deleteError) {
+              console.error(`Error deleting teams of game ${game.gameId}:`, deleteError);
+              sendError(ws, 'INTERNAL_ERROR', 'Failed to save the teams.'); return;
+          }
+          game.teams = [];
+          game.players.forEach((p) => { p.teamId = null; });
+          const { data: teamRows, error: insertError } = await supabaseAdmin
+            .from('teams')
+            .insert(names.map((name, position) => ({ game_id: game.gameId, name, position })))
+            .select('id, name')
+            .order('position', { ascending: true });
+          if (insertError || !teamRows) {
+              console.error(`Error creating teams for game ${game.gameId}:`, insertError);
+              sendError(ws, 'INTERNAL_ERROR', 'Failed to save the teams.');
           } else {
-              console.warn(`Player ${clientId} disconnected but not found in game ${gameId} player map.`);
+              console.log(`Game ${game.gameId} now has ${teamRows.length} teams: ${names.join(', ')}`);
+              game.teams = teamRows.map(({ id, name }) => ({ id, name }));
+          }
+          sendTeamsUpdate(game);
+          sendPlayerListUpdate(game.gameId);
+          break;
+      }
+
+      case 'ASSIGN_TEAM': {
+          const game = getHostGame(ws, clientInfo, 'assign teams');
+          if (!game) return;
+          const { playerId, teamId } = message.payload;
+          if (!game.players.has(playerId)) {
+              sendError(ws, 'PLAYER_NOT_FOUND', 'That player is not in this game.'); return;
+          }
+          if (teamId !== null && !game.teams.some((team) => team.id === teamId)) {
+              sendError(ws, 'TEAM_NOT_FOUND', 'That team does not exist.'); return;
           }
+          if (!(await savePlayerTeams(game, new Map([[playerId, teamId]])))) {
+              sendError(ws, 'INTERNAL_ERROR', 'Failed to assign the team.'); return;
+          }
+          sendTeamsUpdate(game);
+          sendPlayerListUpdate(game.gameId);
+          break;
+      }
+
+      // Spread all players evenly over the existing teams
+      case 'AUTO_BALANCE_TEAMS': {
+          const game = getHostGame(ws, clientInfo, 'balance the teams');
+          if (!game) return;
+          if (game.gamePhase !== 'lobby') {
+              sendError(ws, 'INVALID_TRANSITION', 'Teams can only be balanced in the lobby.'); return;
+          }
+          if (game.teams.length === 0) {
+              sendError(ws, 'NO_TEAMS', 'Create teams before balancing them.'); return;
+          }
+          console.log(`Balancing ${game.players.size} players over ${game.teams.length} teams in game ${game.gameId}.`);
+          if (!(await savePlayerTeams(game, balanceTeams(game.teams, Array.from(game.players.values()))))) {
+              sendError(ws, 'INTERNAL_ERROR', 'Failed to balance the teams.'); return;
+          }
+          sendTeamsUpdate(game);
+          sendPlayerListUpdate(game.gameId);
+          break;
+      }
+
+      case 'CHOOSE_TEAM': {
+          if (!clientInfo || clientInfo.isHost) {
+              sendError(ws, 'NOT_IDENTIFIED', 'Only identified players can choose a team.'); return;
+          }
+          const game = games.get(clientInfo.gameId);
+          const player = game?.players.get(clientInfo.clientId);
+          if (!game || !player) return;
+          if (!game.teamSettings.enabled || !game.teamSettings.playersChoose || game.gamePhase !== 'lobby') {
+              sendError(ws, 'NOT_AUTHORIZED', 'You cannot choose a team right now.'); return;
+          }
+          const { teamId } = message.payload;
+          if (!game.teams.some((team) => team.id === teamId)) {
+              sendError(ws, 'TEAM_NOT_FOUND', 'That team does not exist.'); return;
+          }
+          if (!(await savePlayerTeams(game, new Map([[player.id, teamId]])))) {
+              sendError(ws, 'INTERNAL_ERROR', 'Failed to join the team.'); return;
+          }
+          sendTeamsUpdate(game);
+          sendPlayerListUpdate(game.gameId);
+          break;
+      }
+
+      case 'SUBMIT_ANSWER': {
+         if (!clientInfo || clientInfo.isHost) {
+             sendError(ws, 'NOT_IDENTIFIED', 'Only identified players can submit answers.'); return;
+         }
+         const game = games.get(clientInfo.gameId);
+         const player = game?.players.get(clientInfo.clientId); // clientId is playerId for players
+         if (!game || !player) return;
+
+         if (game.hostPausedAt !== null) {
+             sendError(ws, 'GAME_PAUSED', 'The game is paused while the host reconnects.'); return;
+         }
+         const { answer: submitted, questionIndex } = message.payload;
+         // Late answers: the question is closed or past its deadline, or the answer was for an earlier question
+         const receivedAt = Date.now();
+         if (
+             game.gamePhase !== 'question' ||
+             (game.questionDeadline !== null && receivedAt > game.questionDeadline + ANSWER_GRACE_MS) ||
+             questionIndex !== game.currentQuestionIndex
+         ) {
+             sendError(ws, 'ANSWER_CLOSED', 'Answering is closed for this question.'); return;
+         }
+         if (game.currentAnswers.has(player.id)) {
+             sendError(ws, 'DUPLICATE_ANSWER', 'You have already answered this question.'); return;
+         }
+
+         const question = game.questions[game.currentQuestionIndex];
+         if (!question) return;
+         if (!isValidAnswer(question, submitted)) {
+             sendError(ws, 'INVALID_ANSWER', 'Invalid answer.'); return;
+         }
+
+         const latencyMs = Math.max(0, receivedAt - (game.questionStartedAt ?? receivedAt));
+         // Ungraded slides skip scoring: every response is recorded with no points
+         const { isCorrect, points } = question.correctAnswer
+            ? scoreAnswer(question.correctAnswer, submitted, latencyMs, question.timeLimitSeconds * 1000)
+            : { isCorrect: false, points: 0 };
+         const answer: PlayerAnswer = { playerId: player.id, answer: submitted, isCorrect, latencyMs, points };
+         game.currentAnswers.set(player.id, answer);
+         player.score += points;
+
+         const outcome = !question.correctAnswer ? 'ungraded' : isCorrect ? 'correct' : points > 0 ? 'partly correct' : 'incorrect';
+         console.log(`Player ${player.nickname} answered "${formatSubmittedAnswer(submitted, question.options, question.matchTargets)}" for question ${game.currentQuestionIndex} (${outcome}, +${points} in ${latencyMs}ms)`);
+         send(ws, { type: 'ANSWER_RECEIVED', payload: { questionIndex: game.currentQuestionIndex } });
+
+         // Push the new scores to everyone, then persist (best effort, memory stays the source of truth)
+         sendPlayerListUpdate(game.gameId);
+         sendAnswerProgress(game);
+         sendLiveResults(game);
+         const answeredQuestionIndex = game.currentQuestionIndex;
+
+         // No need to wait for the deadline once every connected player has answered
+         const connectedPlayers = getConnectedPlayers(game);
+         if (connectedPlayers.every((p) => game.currentAnswers.has(p.id))) {
+             console.log(`All connected players answered question ${answeredQuestionIndex} in game ${game.gameId}. Closing early.`);
+             closeQuestion(game.gameId);
+         }
+
+         await saveAnswer(game, question, player, answer, answeredQuestionIndex);
+         break;
+      }
+    }
+  } catch (error) {
+    console.error(`Failed to process ${message.type} message:`, error);
+    if (ws.readyState === WebSocket.OPEN) {
+       sendError(ws, 'INTERNAL_ERROR', 'Failed to process message.');
+    }
+  }
+}
+
+// Clean up after a host or player socket closed
+function handleSocketClosed(ws: GameSocket) {
+  const clientInfo = wsClientMap.get(ws);
+  if (clientInfo) {
+    const { gameId, clientId, isHost } = clientInfo;
+    const game = games.get(gameId);
+    wsClientMap.delete(ws); // Remove WS from the central map
+
+    if (game) {
+      if (isHost && game.gamePhase === 'ended') {
+        // Host left a finished game: keep the 'finished' row (and its answers) for history, only free memory
+        console.log(`Host left finished game ${gameId}. Removing it from memory.`);
+        game.players.forEach(p => { if (p.ws) wsClientMap.delete(p.ws); });
+        forgetGame(gameId);
+      } else if (isHost) {
+        // HOST DISCONNECTED: pause and give the host a chance to come back before ending the game
+        pauseForHostDisconnect(game);
+      } else if (game.pendingPlayers.has(clientId)) {
+        // Keep the nickname in the queue; the player may come back before the host decides
+        const pending = game.pendingPlayers.get(clientId)!;
+        if (pending.ws === ws) {
+          console.log(`Pending player ${pending.nickname} (ID: ${clientId}) disconnected from game ${gameId}`);
+          pending.ws = null;
+          sendNicknameQueueUpdate(game);
         }
       } else {
-         console.log(`Game ${gameId} not found in memory during disconnect cleanup for client ${clientId}.`);
+        // PLAYER DISCONNECTED
+        const player = game.players.get(clientId); // clientId is playerId
+        if (player && player.ws !== ws) {
+           // A newer connection already took over this player; nothing to clean up
+           console.log(`Replaced connection of player ${player.nickname} closed.`);
+        } else if (player) {
+           console.log(`Player ${player.nickname} (ID: ${clientId}) disconnected from game ${gameId}`);
+           // Set WS to null, but keep player entry in case of reconnect
+           player.ws = null;
+           // Notify host and remaining players by sending updated list
+           sendPlayerListUpdate(gameId);
+           sendAnswerProgress(game);
+        } else {
+            console.warn(`Player ${clientId} disconnected but not found in game ${gameId} player map.`);
+        }
       }
     } else {
-        console.log("Disconnected client was not found in the wsClientMap (likely never identified).");
+       console.log(`Game ${gameId} not found in memory during disconnect cleanup for client ${clientId}.`);
     }
-  });
+  } else {
+      console.log("Disconnected client was not found in the wsClientMap (likely never identified).");
+  }
+}
 
-  ws.on('error', (error) => {
-      console.error('WebSocket error:', error);
-      // Attempt to find client info to log context
-      const clientInfo = wsClientMap.get(ws);
-      if (clientInfo) {
-          console.error(`Error occurred on connection for game ${clientInfo.gameId}, client ${clientInfo.clientId} (isHost: ${clientInfo.isHost})`);
+// --- Player Connections ---
+
+// Bind a verified player to this socket (replacing any older connection) and send the catch-up state
+function attachPlayerSocket(ws: GameSocket, game: GameState, player: Player) {
+   if (player.ws && player.ws !== ws) {
+      console.log(`Player ${player.nickname} (${player.id}) connected again. Replacing the previous connection.`);
+      replaceSocket(player.ws);
+   }
+   player.ws = ws;
+   player.idle = false;
+   // Map this WebSocket connection to this player in this game
+   wsClientMap.set(ws, { gameId: game.gameId, clientId: player.id, isHost: false });
+   console.log(`Player ${player.nickname} (${player.id}) identified WebSocket for game ${game.gameId}`);
+
+   // Send confirmation and initial state to the identified player
+   send(ws, { type: 'IDENTIFY_SUCCESS', payload: { message: 'WebSocket identified successfully.', resumeToken: player.resumeToken } });
+   send(ws, { type: 'STATE_SNAPSHOT', payload: getStateSnapshot(game, player) });
+   send(ws, { type: 'LOBBY_SETTINGS_UPDATE', payload: game.lobbySettings });
+   send(ws, { type: 'TEAMS_UPDATE', payload: getTeamsPayload(game) });
+   sendSharedStateUpdate(game.gameId, game.sharedAdminState, ws); // Send current shared state ONLY to this player
+
+   // Update player list for EVERYONE in the game
+   sendPlayerListUpdate(game.gameId);
+   sendAnswerProgress(game);
+   if (game.hostPausedAt !== null) {
+      send(ws, { type: 'HOST_DISCONNECTED', payload: getHostDisconnectedPayload(game) });
+   }
+}
+
+// --- Nickname Approval ---
+
+// Park a player whose nickname the host has not approved yet; they only hear about their own status
+function queuePendingPlayer(ws: GameSocket, game: GameState, playerId: string, nickname: string, userId: string) {
+   let pending = game.pendingPlayers.get(playerId);
+   if (!pending) {
+      console.log(`Player ${nickname} (${playerId}) is waiting for nickname approval in game ${game.gameId}.`);
+      pending = { id: playerId, nickname, score: 0, ws: null, idle: false, userId, resumeToken: createResumeToken(game.gameId), teamId: null };
+      game.pendingPlayers.set(playerId, pending);
+   }
+   if (pending.ws && pending.ws !== ws) replaceSocket(pending.ws);
+   pending.ws = ws;
+   wsClientMap.set(ws, { gameId: game.gameId, clientId: playerId, isHost: false });
+   send(ws, { type: 'NICKNAME_PENDING', payload: { message: 'Waiting for the host to approve your nickname...' } });
+   sendNicknameQueueUpdate(game);
+}
+
+// Let a pending player into the game; a connected player gets the usual identify/catch-up messages
+async function approveNickname(game: GameState, player: Player) {
+   const { error } = await supabaseAdmin.from('players').update({ approved: true }).eq('id', player.id);
+   if (error) {
+      console.error(`Error approving nickname of player ${player.id} in game ${game.gameId}:`, error);
+      sendToHost(game, { type: 'ERROR', payload: { code: 'INTERNAL_ERROR', message: `Failed to approve ${player.nickname}.` } });
+      return;
+   }
+   console.log(`Nickname ${player.nickname} (${player.id}) approved in game ${game.gameId}.`);
+   game.pendingPlayers.delete(player.id);
+   game.players.set(player.id, player);
+   await assignNewPlayerTeam(game, player);
+   sendNicknameQueueUpdate(game);
+   if (player.ws) {
+      attachPlayerSocket(player.ws, game, player);
+   } else {
+      sendPlayerListUpdate(game.gameId);
+   }
+}
+
+function sendNicknameQueueUpdate(game: GameState) {
+   const players: PlayerListEntry[] = Array.from(game.pendingPlayers.values()).map((p) => ({
+      id: p.id,
+      nickname: p.nickname,
+      score: p.score,
+      connected: p.ws !== null,
+      idle: p.idle,
+      teamId: p.teamId,
+   }));
+   sendToHost(game, { type: 'NICKNAME_QUEUE_UPDATE', payload: { players } });
+}
+
+// Take a player out of the game: close their socket, delete their 'players' row (their answers cascade)
+// and, when banning, record the ban so the join action and RLS keep their user out of this game
+async function kickPlayer(game: GameState, player: Player, ban: boolean, reason?: string) {
+   console.log(`${ban ? 'Banning' : 'Kicking'} player ${player.nickname} (${player.id}) from game ${game.gameId}.`);
+   game.players.delete(player.id);
+   game.pendingPlayers.delete(player.id);
+   game.currentAnswers.delete(player.id);
+   if (player.ws) {
+      const kickedWs = player.ws;
+      wsClientMap.delete(kickedWs); // Not a disconnect; the close handler has nothing to clean up
+      send(kickedWs, {
+         type: 'KICKED',
+         payload: {
+            message: reason ?? (ban ? 'The host removed you from this game and banned you from rejoining.' : 'The host removed you from this game.'),
+            banned: ban,
+         },
+      });
+      kickedWs.close(CLOSE_CODE_KICKED, 'Removed by the host');
+   }
+   sendPlayerListUpdate(game.gameId);
+   sendAnswerProgress(game);
+   sendNicknameQueueUpdate(game);
+   if (player.teamId) sendTeamsUpdate(game);
+
+   // Ban first, so the user cannot slip back in between the delete and the ban
+   if (ban) {
+      const { error: banError } = await supabaseAdmin
+         .from('game_bans')
+         .upsert({ game_id: game.gameId, user_id: player.userId }, { onConflict: 'game_id,user_id', ignoreDuplicates: true });
+      if (banError) {
+         console.error(`Error banning user ${player.userId} from game ${game.gameId}:`, banError);
       }
-      // Consider closing the socket if it's in a bad state
-      if (ws.readyState !== WebSocket.CLOSED) {
-          ws.close(1011, 'Internal server error'); // 1011: Internal Error
+   }
+   const { error: deleteError } = await supabaseAdmin.from('players').delete().eq('id', player.id);
+   if (deleteError) {
+      console.error(`Error deleting player ${player.id} from game ${game.gameId}:`, deleteError);
+   }
+}
+
+// --- Teams ---
+
+function getTeamSettings(row: { team_mode: boolean | null; team_scoring: string | null; team_players_choose: boolean | null }): TeamSettings {
+   return {
+      enabled: row.team_mode ?? DEFAULT_TEAM_SETTINGS.enabled,
+      scoring: row.team_scoring === 'average' ? 'average' : 'sum',
+      playersChoose: row.team_players_choose ?? DEFAULT_TEAM_SETTINGS.playersChoose,
+   };
+}
+
+// Load the game's teams into memory, in display order.
+// Returns false if the database could not be queried.
+async function loadTeams(game: GameState): Promise<boolean> {
+   const { data: teamRows, error } = await supabaseAdmin
+      .from('teams')
+      .select('id, name')
+      .eq('game_id', game.gameId)
+      .order('position', { ascending: true });
+   if (error || !teamRows) {
+      console.error(`Error loading teams for game ${game.gameId}:`, error);
+      return false;
+   }
+   game.teams = teamRows.map(({ id, name }) => ({ id, name }));
+   return true;
+}
+
+function getTeamsPayload(game: GameState): { settings: TeamSettings; teams: TeamEntry[] } {
+   const members = getTeamMembers(game.teams, Array.from(game.players.values()));
+   return {
+      settings: game.teamSettings,
+      teams: members.map(({ team, members }) => ({ id: team.id, name: team.name, playerIds: members.map((p) => p.id) })),
+   };
+}
+
+function sendTeamsUpdate(game: GameState) {
+   broadcast(game.gameId, { type: 'TEAMS_UPDATE', payload: getTeamsPayload(game) });
+}
+
+// Save team changes (playerId -> teamId, null for no team) and apply them in memory.
+// Returns false if the database rejected them; memory then stays unchanged.
+async function savePlayerTeams(game: GameState, assignments: Map<string, string | null>): Promise<boolean> {
+   const byTeam = new Map<string | null, string[]>();
+   assignments.forEach((teamId, playerId) => byTeam.set(teamId, [...(byTeam.get(teamId) ?? []), playerId]));
+   const results = await Promise.all(
+      [...byTeam].map(([teamId, playerIds]) => supabaseAdmin.from('players').update({ team_id: teamId }).in('id', playerIds)),
+   );
+   const failed = results.find(({ error }) => error);
+   if (failed) {
+      console.error(`Error saving team assignments in game ${game.gameId}:`, failed.error);
+      return false;
+   }
+   assignments.forEach((teamId, playerId) => {
+      const player = game.players.get(playerId);
+      if (player) player.teamId = teamId;
+   });
+   return true;
+}
+
+// When the host assigns teams, newcomers go straight into the smallest team
+async function assignNewPlayerTeam(game: GameState, player: Player) {
+   if (!game.teamSettings.enabled || game.teamSettings.playersChoose || player.teamId) return;
+   const team = pickSmallestTeam(game.teams, Array.from(game.players.values()));
+   if (team && (await savePlayerTeams(game, new Map([[player.id, team.id]])))) {
+      console.log(`Player ${player.nickname} (${player.id}) assigned to team ${team.name} in game ${game.gameId}.`);
+      sendTeamsUpdate(game);
+   }
+}
+
+// Close a superseded connection without running the disconnect handling for its client
+function replaceSocket(oldWs: GameSocket) {
+   wsClientMap.delete(oldWs);
+   if (oldWs.readyState === WebSocket.OPEN || oldWs.readyState === WebSocket.CONNECTING) {
+      oldWs.close(CLOSE_CODE_REPLACED, 'Replaced by a newer connection');
+   }
+}
+
+// Tokens start with the game id, so any server process can tell which game a PLAYER_RESUME is for
+function createResumeToken(gameId: string) {
+   return `${gameId}.${nanoid()}`;
+}
+
+function getResumeTokenGameId(resumeToken: string) {
+   const separator = resumeToken.indexOf('.');
+   return separator > 0 ? resumeToken.slice(0, separator) : null;
+}
+
+function findPlayerByResumeToken(resumeToken: string) {
+   for (const game of games.values()) {
+      for (const player of game.players.values()) {
+         if (player.resumeToken === resumeToken) return { game, player };
       }
-  });
+   }
+   return null;
+}
+
+// What a (re)connecting player needs to pick up mid-game: phase, question and remaining time, own answer and score
+function getStateSnapshot(game: GameState, player: Player): StateSnapshotPayload {
+   const question = game.questions[game.currentQuestionIndex];
+   const revealed = game.gamePhase === 'reveal' || game.gamePhase === 'leaderboard';
+   const showLeaderboard = game.gamePhase === 'leaderboard' || game.gamePhase === 'ended';
+   return {
+      phase: game.gamePhase,
+      question: question && game.gamePhase !== 'lobby' ? getQuestionPayload(game, question) : null,
+      score: player.score,
+      answer: game.currentAnswers.get(player.id)?.answer ?? null,
+      correctAnswer: revealed && question ? question.correctAnswer : null,
+      answerResult: revealed ? getAnswerResults(game).get(player.id) ?? null : null,
+      leaderboard: showLeaderboard ? getLeaderboard(game) : null,
+      teamLeaderboard: showLeaderboard ? getGameTeamLeaderboard(game) : null,
+      hostPaused: game.hostPausedAt !== null,
+   };
+}
+
+// --- Host Reconnect ---
+
+// Host dropped: freeze the question clock and tell players, then end the game if the host stays away
+function pauseForHostDisconnect(game: GameState) {
+   const gameId = game.gameId;
+   console.log(`Host disconnected from game ${gameId}. Pausing for up to ${HOST_RECONNECT_GRACE_MS / 1000}s.`);
+   game.hostWs = null;
+   game.hostPausedAt = Date.now();
+   const remainingMs = getPausedRemainingMs(game, game.hostPausedAt);
+   if (remainingMs !== null) {
+      game.pausedRemainingMs = remainingMs;
+      clearQuestionTimers(game);
+   }
+   broadcast(gameId, { type: 'HOST_DISCONNECTED', payload: getHostDisconnectedPayload(game) });
+
+   if (game.hostReconnectTimer) clearTimeout(game.hostReconnectTimer);
+   game.hostReconnectTimer = setTimeout(() => { void abandonGame(gameId); }, HOST_RECONNECT_GRACE_MS);
+}
+
+function getHostDisconnectedPayload(game: GameState) {
+   return {
+      message: 'The host lost connection. Waiting for them to reconnect...',
+      reconnectDeadline: (game.hostPausedAt ?? Date.now()) + HOST_RECONNECT_GRACE_MS,
+      serverTime: Date.now(),
+   };
+}
+
+// Host is back: restart the question clock with the time that was left and bring the host's screen up to date
+function resumeAfterHostReconnect(game: GameState) {
+   const gameId = game.gameId;
+   const now = Date.now();
+   const pausedAt = game.hostPausedAt ?? now;
+   console.log(`Host reconnected to game ${gameId} after ${now - pausedAt}ms. Resuming ${game.gamePhase} phase.`);
+   if (game.hostReconnectTimer) clearTimeout(game.hostReconnectTimer);
+   game.hostReconnectTimer = null;
+   game.hostPausedAt = null;
+
+   if (game.gamePhase === 'question' && game.pausedRemainingMs !== null) {
+      resumeQuestionClock(game, pausedAt, game.pausedRemainingMs, now);
+      game.questionTimer = setTimeout(() => closeQuestion(gameId), game.pausedRemainingMs + ANSWER_GRACE_MS);
+      game.timerSyncInterval = setInterval(() => sendTimerSync(gameId), TIMER_SYNC_INTERVAL_MS);
+      void syncGameRow(game); // Snapshot the shifted deadline
+   }
+   game.pausedRemainingMs = null;
+
+   broadcast(gameId, { type: 'HOST_RECONNECTED', payload: { phase: game.gamePhase, questionIndex: game.currentQuestionIndex } });
+   sendTimerSync(gameId);
+   sendHostCurrentState(game);
+}
+
+// Re-send the current question (and results/leaderboard if already shown) to a re-joined host
+function sendHostCurrentState(game: GameState) {
+   const question = game.questions[game.currentQuestionIndex];
+   if (!question || game.gamePhase === 'lobby' || game.gamePhase === 'ended') return;
+
+   sendToHost(game, { type: 'SHOW_QUESTION', payload: getQuestionPayload(game, question) });
+   if (game.gamePhase === 'question') {
+      sendAnswerProgress(game);
+      sendLiveResults(game);
+      return;
+   }
+   sendToHost(game, {
+      type: 'QUESTION_RESULTS',
+      payload: {
+         questionIndex: game.currentQuestionIndex,
+         correctAnswer: question.correctAnswer,
+         answerCount: game.currentAnswers.size,
+      },
+   });
+   sendToHost(game, { type: 'ANSWER_DISTRIBUTION', payload: getAnswerDistribution(game) });
+   if (game.gamePhase === 'leaderboard') {
+      sendToHost(game, {
+         type: 'SHOW_LEADERBOARD',
+         payload: { questionIndex: game.currentQuestionIndex, leaderboard: getLeaderboard(game), teamLeaderboard: getGameTeamLeaderboard(game) },
+      });
+   }
+}
+
+// Grace period ran out: end the game for everyone and clean up
+async function abandonGame(gameId: string) {
+   const game = games.get(gameId);
+   if (!game || game.hostWs) return;
+   game.hostReconnectTimer = null;
+
+   console.log(`Host did not reconnect to game ${gameId} in time. Ending game and cleaning up.`);
+
+   // Notify all remaining players
+   broadcast(gameId, { type: 'GAME_ENDED', payload: { message: 'Host disconnected and game has ended.', leaderboard: getLeaderboard(game), teamLeaderboard: getGameTeamLeaderboard(game) } });
+
+   // Close connections for remaining players
+   console.log(`Closing connections for remaining players in game ${gameId}...`);
+   game.players.forEach(p => {
+      if (p.ws && (p.ws.readyState === WebSocket.OPEN || p.ws.readyState === WebSocket.CONNECTING)) {
+          try {
+              p.ws.close(1000, 'Host disconnected and game ended');
+          } catch (e) { console.error(`Error closing socket for player ${p.nickname}:`, e); }
+      }
+      // Also remove players associated with this game from wsClientMap
+      if(p.ws) wsClientMap.delete(p.ws);
+   });
+
+   // Finish the row and drop its snapshot before giving up the room, so a later HOST_JOIN cannot restore
+   // a game the players were told has ended. The row and its answers stay for history, like any finished game.
+   const { error } = await supabaseAdmin
+     .from('games')
+     .update({ status: getDbStatusForPhase('ended'), live_state: null })
+     .eq('id', gameId);
+   if (error) console.error(`Error marking abandoned game ${gameId} as finished:`, error);
+
+   // Delete game from memory (stop any running question timer first)
+   clearQuestionTimers(game);
+   forgetGame(gameId);
+   console.log(`Game ${gameId} removed from memory.`);
+
+   console.log(`Cleanup complete for game ${gameId}.`);
 }
 
 // --- Helper Functions ---
@@ -279,35 +1196,261 @@ function findOrCreateGame(gameId: string, gamePin: string): GameState {
       currentQuestionIndex: -1,
       gamePhase: 'lobby',
       sharedAdminState: 0, // Initialize shared state
+      quizId: null,
+      questions: [],
+      questionStartedAt: null,
+      questionDeadline: null,
+      questionTimer: null,
+      timerSyncInterval: null,
+      currentAnswers: new Map<string, PlayerAnswer>(),
+      hostPausedAt: null,
+      pausedRemainingMs: null,
+      hostReconnectTimer: null,
+      lobbySettings: { ...DEFAULT_LOBBY_SETTINGS },
+      pendingPlayers: new Map<string, Player>(),
+      teamSettings: { ...DEFAULT_TEAM_SETTINGS },
+      teams: [],
     });
   }
   return games.get(gameId)!;
 }
 
-function send(ws: WebSocket, message: any) {
+function getOrRestoreGame(gameId: string): Promise<GameState | null> {
+  let pending = pendingRestores.get(gameId);
+  if (!pending) {
+    pending = restoreGame(gameId).finally(() => pendingRestores.delete(gameId));
+    pendingRestores.set(gameId, pending);
+  }
+  return pending;
+}
+
+// Rebuild a running game that is missing from memory from its live_state snapshot, the players' saved
+// scores and the answers already given to the current question. The host is not connected yet, so the
+// restored game starts paused exactly like after a host disconnect; HOST_JOIN resumes it.
+// Returns null if there is nothing to restore (unknown or finished game, or no snapshot yet).
+async function restoreGame(gameId: string): Promise<GameState | null> {
+  const { data: gameRow, error: gameError } = await supabaseAdmin
+    .from('games')
+    .select('game_pin, status, live_state, team_mode, team_scoring, team_players_choose')
+    .eq('id', gameId)
+    .maybeSingle();
+  if (gameError) {
+    console.error(`Error loading game ${gameId} for restore:`, gameError);
+    return null;
+  }
+  const snapshot = gameRow ? getRestorableSnapshot(gameRow.status, gameRow.live_state) : null;
+  if (!gameRow || !snapshot) {
+    return null;
+  }
+
+  console.log(`Restoring game ${gameId} from snapshot (phase ${snapshot.phase}, question ${snapshot.currentQuestionIndex}).`);
+  const [{ data: playerRows, error: playersError }, { data: answerRows, error: answersError }] = await Promise.all([
+    supabaseAdmin.from('players').select('id, nickname, score, user_id, approved, team_id').eq('game_id', gameId),
+    supabaseAdmin
+      .from('answers')
+      .select('player_id, selected_option_index, response, is_correct, latency_ms, points')
+      .eq('game_id', gameId)
+      .eq('question_index', snapshot.currentQuestionIndex),
+  ]);
+  if (playersError || answersError) {
+    console.error(`Error loading players/answers to restore game ${gameId}:`, playersError ?? answersError);
+    return null;
+  }
+
+  const restored = restoreLiveState(snapshot, playerRows ?? [], answerRows ?? []);
+  const game = findOrCreateGame(gameId, gameRow.game_pin);
+  game.gamePhase = restored.gamePhase;
+  game.currentQuestionIndex = restored.currentQuestionIndex;
+  game.sharedAdminState = restored.sharedAdminState;
+  game.questionStartedAt = restored.questionStartedAt;
+  game.questionDeadline = restored.questionDeadline;
+  game.currentAnswers = restored.currentAnswers;
+  game.teamSettings = getTeamSettings(gameRow);
+  if (!(await loadGameQuestions(game)) || !(await loadTeams(game))) {
+    forgetGame(gameId);
+    return null;
+  }
+
+  // Old resume tokens died with the previous process; clients fall back to PLAYER_IDENTIFY
+  const toPlayer = (player: RestoredPlayer): Player => ({ ...player, ws: null, idle: false, resumeToken: createResumeToken(gameId) });
+  restored.players.forEach((player) => game.players.set(player.id, toPlayer(player)));
+  restored.pendingPlayers.forEach((player) => game.pendingPlayers.set(player.id, toPlayer(player)));
+
+  pauseForHostDisconnect(game);
+  console.log(`Restored game ${gameId} with ${game.players.size} players and ${game.currentAnswers.size} answers to the current question.`);
+  return game;
+}
+
+// Load the game's question set (via games.quiz_id) into memory, ordered for play.
+// Returns false if the database could not be queried; an empty set is a valid result.
+async function loadGameQuestions(game: GameState): Promise<boolean> {
+  const { data: gameRow, error: gameError } = await supabaseAdmin
+    .from('games')
+    .select('quiz_id')
+    .eq('id', game.gameId)
+    .single();
+
+  if (gameError || !gameRow) {
+    console.error(`Error loading quiz id for game ${game.gameId}:`, gameError);
+    return false;
+  }
+
+  game.quizId = gameRow.quiz_id;
+  if (!game.quizId) {
+    console.warn(`Game ${game.gameId} has no quiz assigned.`);
+    game.questions = [];
+    return true;
+  }
+
+  // Quizzes use questions from their owner's question bank, linked (and ordered) through quiz_questions
+  const { data: questionRows, error: questionsError } = await supabaseAdmin
+    .from('questions')
+    .select('id, question_type, question_text, options, correct_option_index, answer_spec, media, option_media, time_limit_seconds, quiz_questions!inner(order)')
+    .eq('quiz_questions.quiz_id', game.quizId);
+
+  if (questionsError || !questionRows) {
+    console.error(`Error loading questions for quiz ${game.quizId} (game ${game.gameId}):`, questionsError);
+    return false;
+  }
+
+  game.questions = sortByQuizOrder(questionRows).flatMap((row) => {
+    const type = row.question_type ?? 'multiple_choice';
+    const correctAnswer = getCorrectAnswer(row);
+    const ratingScale = getRatingScale(row);
+    // The table constraints should make these impossible; skip the question rather than score or show it wrongly
+    if (!isQuestionType(type) || (isGraded(type) ? !correctAnswer : type === 'rating' && ratingScale === null)) {
+      console.warn(`Question ${row.id} of quiz ${game.quizId} has no valid answer for type ${row.question_type}. Skipping it.`);
+      return [];
+    }
+    // Puzzles are stored solved; shuffle them the same way every time this game loads them
+    const options = Array.isArray(row.options) ? row.options.map(String) : [];
+    // Only keep option media if some option has any, so payloads of plain questions stay small
+    const optionMedia = parseOptionMedia(row.option_media).slice(0, options.length);
+    const displayed = { options, optionMedia: optionMedia.some(Boolean) ? optionMedia : [] };
+    const arranged = correctAnswer
+      ? arrangeForPlay({ ...displayed, matchTargets: getMatchTargets(row), correctAnswer }, `${game.gameId}:${row.id}`)
+      : { ...displayed, matchTargets: [], correctAnswer };
+    return [{
+      id: row.id,
+      type,
+      text: row.question_text,
+      media: parseMedia(row.media),
+      ...arranged,
+      ratingScale,
+      timeLimitSeconds: row.time_limit_seconds,
+    }];
+  });
+  console.log(`Loaded ${game.questions.length} questions for game ${game.gameId} (quiz ${game.quizId})`);
+  return true;
+}
+
+// Resolve the game for a host-only command, replying with an error if the sender is not the host
+function getHostGame(
+  ws: GameSocket,
+  clientInfo: { gameId: string; isHost: boolean } | undefined,
+  actionDescription: string,
+): GameState | null {
+  if (!clientInfo) {
+    sendError(ws, 'NOT_IDENTIFIED', `Join the game before trying to ${actionDescription}.`);
+    return null;
+  }
+  if (!clientInfo.isHost) {
+    sendError(ws, 'NOT_AUTHORIZED', `Only the host can ${actionDescription}.`);
+    return null;
+  }
+  return games.get(clientInfo.gameId) ?? null; // Should exist if clientInfo exists
+}
+
+// Move the game to a new phase if the state machine allows it, mirroring the change in the 'games' row.
+// On an illegal transition the error is sent to errorWs (if given) and false is returned.
+function transitionGame(game: GameState, to: GamePhase, errorWs?: GameSocket): boolean {
+  const error = validateTransition(game.gamePhase, to);
+  if (error) {
+    console.warn(`Rejected transition ${game.gamePhase} -> ${to} for game ${game.gameId}: ${error}`);
+    if (errorWs) sendError(errorWs, 'INVALID_TRANSITION', error);
+    return false;
+  }
+  console.log(`Game ${game.gameId} phase: ${game.gamePhase} -> ${to}`);
+  game.gamePhase = to;
+  broadcast(game.gameId, { type: 'PHASE_CHANGED', payload: { phase: to, questionIndex: game.currentQuestionIndex } });
+  void syncGameRow(game);
+  return true;
+}
+
+// Mirror status, current_question_index and the live state snapshot into the 'games' row (best effort)
+async function syncGameRow(game: GameState) {
+  const liveState = getLiveStateSnapshot(game);
+  const { error } = await supabaseAdmin
+    .from('games')
+    .update({
+      status: getDbStatusForPhase(game.gamePhase),
+      current_question_index: game.currentQuestionIndex,
+      live_state: liveState,
+    })
+    .eq('id', game.gameId);
+  if (error) {
+    console.error(`Error syncing status of game ${game.gameId} to the database:`, error);
+  }
+}
+
+// Players sorted by score (highest first) with their 1-based rank; equal scores share a rank
+function getLeaderboard(game: GameState): LeaderboardEntry[] {
+  return rankPlayers(Array.from(game.players.values()).map(({ id, nickname, score }) => ({ id, nickname, score })));
+}
+
+// Team standings next to the individual leaderboard; null outside team mode
+function getGameTeamLeaderboard(game: GameState): TeamLeaderboardEntry[] | null {
+  if (!game.teamSettings.enabled || game.teams.length === 0) return null;
+  return getTeamLeaderboard(game.teams, Array.from(game.players.values()), game.teamSettings.scoring);
+}
+
+function rankPlayers(entries: { id: string; nickname: string; score: number }[]) {
+  const sorted = [...entries].sort((a, b) => b.score - a.score);
+  let rank = 0;
+  return sorted.map((entry, index) => {
+    if (index === 0 || sorted[index - 1].score !== entry.score) rank = index + 1;
+    return { ...entry, rank };
+  });
+}
+
+// Finish the game: stop timers, mark it ended (and 'finished' in the DB) and tell everyone
+function endGame(game: GameState, reason: string) {
+  clearQuestionTimers(game);
+  game.questionDeadline = null;
+  if (!transitionGame(game, 'ended')) return;
+  console.log(`Game ${game.gameId} ended: ${reason}`);
+  // Final standings so players can show the podium
+  broadcast(game.gameId, { type: 'GAME_ENDED', payload: { message: reason, leaderboard: getLeaderboard(game), teamLeaderboard: getGameTeamLeaderboard(game) } });
+}
+
+function send(ws: GameSocket, message: ServerMessage) {
   if (ws.readyState === WebSocket.OPEN) {
-    ws.send(JSON.stringify(message));
+    ws.send(encodeMessage(message));
   } else {
      console.log("Attempted to send message to a closed or closing socket.");
   }
 }
 
-function sendError(ws: WebSocket, errorMessage: string) {
-    send(ws, { type: 'ERROR', payload: errorMessage });
+function sendError(ws: GameSocket, code: ProtocolErrorCode, errorMessage: string) {
+    send(ws, { type: 'ERROR', payload: { code, message: errorMessage } });
+}
+
+function sendToHost(game: GameState, message: ServerMessage) {
+    if (game.hostWs) send(game.hostWs, message);
 }
 
 
-function broadcast(gameId: string, message: any, excludeWs?: WebSocket) {
+function broadcast(gameId: string, message: ServerMessage, excludeWs?: GameSocket) {
   const game = games.get(gameId);
   if (!game) {
       console.warn(`Attempted to broadcast to non-existent game ${gameId}`);
       return;
   }
-  const messageString = JSON.stringify(message);
+  const messageString = encodeMessage(message);
   let recipientCount = 0;
 
   // Send to host
-  if (game.hostWs &amp;&amp; game.hostWs !== excludeWs &amp;&amp; game.hostWs.readyState === WebSocket.OPEN) {
+  if (game.hostWs && game.hostWs !== excludeWs && game.hostWs.readyState === WebSocket.OPEN) {
     try {
         game.hostWs.send(messageString);
         recipientCount++;
@@ -316,7 +1459,7 @@ function broadcast(gameId: string, message: any, excludeWs?: WebSocket) {
 
   // Send to all players with active connections
   game.players.forEach((player) => {
-    if (player.ws &amp;&amp; player.ws !== excludeWs &amp;&amp; player.ws.readyState === WebSocket.OPEN) {
+    if (player.ws && player.ws !== excludeWs && player.ws.readyState === WebSocket.OPEN) {
        try {
            player.ws.send(messageString);
            recipientCount++;
@@ -334,16 +1477,40 @@ function sendPlayerListUpdate(gameId: string) {
    // Create list of players containing id, nickname, and score.
    // We send the full list, including those temporarily disconnected (ws=null)
    // The client can decide how to display this.
-   const playerList = Array.from(game.players.values()).map(({ id, nickname, score }) => ({ id, nickname, score }));
+   const playerList: PlayerListEntry[] = Array.from(game.players.values()).map(({ id, nickname, score, ws, idle, teamId }) => ({
+      id,
+      nickname,
+      score,
+      connected: ws !== null,
+      idle: ws !== null && idle,
+      teamId,
+   }));
 
    console.log(`Broadcasting player list update for game ${gameId}:`, playerList);
    broadcast(gameId, { type: 'PLAYER_LIST_UPDATE', payload: { players: playerList } });
 }
 
+// Called on every heartbeat: re-send player lists whose idle flags changed since the last update
+export function refreshPresence() {
+   games.forEach((game) => {
+      let changed = false;
+      game.players.forEach((player) => {
+         // Relayed sockets are pinged by their relay process, which drops them if they stop answering
+         const idle = player.ws instanceof WebSocket && !isResponsive(player.ws);
+         if (idle !== player.idle) {
+            console.log(`Player ${player.nickname} (${player.id}) in game ${game.gameId} is ${idle ? 'idle' : 'responsive again'}.`);
+            player.idle = idle;
+            changed = true;
+         }
+      });
+      if (changed) sendPlayerListUpdate(game.gameId);
+   });
+}
+
 // Send the shared admin state update to clients
 // If targetWs is provided, sends only to that client, otherwise broadcasts
-function sendSharedStateUpdate(gameId: string, state: number, targetWs?: WebSocket) {
-    const message = { type: 'SHARED_STATE_UPDATE', payload: { newState: state } };
+function sendSharedStateUpdate(gameId: string, state: number, targetWs?: GameSocket) {
+    const message: ServerMessage = { type: 'SHARED_STATE_UPDATE', payload: { newState: state } };
     if (targetWs) {
         console.log(`Sending shared state ${state} to specific client in game ${gameId}`);
         send(targetWs, message);
@@ -354,18 +1521,232 @@ function sendSharedStateUpdate(gameId: string, state: number, targetWs?: WebSock
 }
 
 
+// An answer fits the question: same type, picked options exist, and puzzles place every item once
+function isValidAnswer(question: QuizQuestion, answer: SubmittedAnswer) {
+  if (answer.type !== question.type) return false;
+  if (answer.type === 'ordering') return isArrangementOf(answer.order, question.options.length);
+  if (answer.type === 'matching') return isArrangementOf(answer.matches, question.matchTargets.length);
+  if (answer.type === 'rating') return answer.value <= (question.ratingScale ?? 0);
+  if (!hasOptions(question.type)) return true;
+  const indexes = 'optionIndexes' in answer ? answer.optionIndexes : 'optionIndex' in answer ? [answer.optionIndex] : [];
+  return indexes.every((index) => index < question.options.length);
+}
+
+// The protocol already guarantees unique non-negative indexes, so the right count in range is a full arrangement
+function isArrangementOf(indexes: number[], length: number) {
+  return indexes.length === length && indexes.every((index) => index < length);
+}
+
+// Persist an accepted answer and the player's new total score.
+// Failures are logged only: the in-memory game keeps running with the already applied score.
+async function saveAnswer(game: GameState, question: QuizQuestion, player: Player, answer: PlayerAnswer, questionIndex: number) {
+  const { error: insertError } = await supabaseAdmin.from('answers').insert({
+    game_id: game.gameId,
+    player_id: player.id,
+    question_id: question.id,
+    question_index: questionIndex,
+    selected_option_index: 'optionIndex' in answer.answer ? answer.answer.optionIndex : null,
+    response: answer.answer,
+    is_correct: question.correctAnswer ? answer.isCorrect : null,
+    latency_ms: answer.latencyMs,
+    points: answer.points,
+  });
+  if (insertError) {
+    console.error(`Error saving answer of player ${player.id} for question ${question.id} in game ${game.gameId}:`, insertError);
+  }
+
+  const { error: scoreError } = await supabaseAdmin.from('players').update({ score: player.score }).eq('id', player.id);
+  if (scoreError) {
+    console.error(`Error updating score of player ${player.id} in game ${game.gameId}:`, scoreError);
+  }
+}
+
 // Send the current question to all players
 function sendQuestion(gameId: string) {
    const game = games.get(gameId);
    if (!game || game.gamePhase !== 'question') return;
 
-   // TODO: Get the actual question based on game.currentQuestionIndex
-   const currentQuestion = {
+   clearQuestionTimers(game);
+   const question = game.questions[game.currentQuestionIndex];
+   if (!question) {
+      // Ran out of questions: the game is over
+      console.log(`No question at index ${game.currentQuestionIndex} for game ${gameId}. Ending game.`);
+      endGame(game, 'All questions have been answered. Thanks for playing!');
+      return;
+   }
+
+   const now = Date.now();
+   game.questionStartedAt = now;
+   game.questionDeadline = now + question.timeLimitSeconds * 1000;
+   game.currentAnswers = new Map<string, PlayerAnswer>();
+
+   const currentQuestion = getQuestionPayload(game, question);
+   console.log(`Broadcasting question ${currentQuestion.index} for game ${gameId} (deadline in ${question.timeLimitSeconds}s)`);
+   broadcast(gameId, { type: 'SHOW_QUESTION', payload: currentQuestion });
+   sendAnswerProgress(game);
+
+   game.questionTimer = setTimeout(() => closeQuestion(gameId), question.timeLimitSeconds * 1000 + ANSWER_GRACE_MS);
+   game.timerSyncInterval = setInterval(() => sendTimerSync(gameId), TIMER_SYNC_INTERVAL_MS);
+   void syncGameRow(game); // Snapshot the new deadline
+}
+
+// Only send what players need to answer; correctAnswer stays on the server.
+// deadline/serverTime let clients run their countdown against the server clock.
+function getQuestionPayload(game: GameState, question: QuizQuestion): QuestionPayload {
+   return {
       index: game.currentQuestionIndex,
-      text: `This is question ${game.currentQuestionIndex + 1}?`,
-      options: ['Option A', 'Option B', 'Option C', 'Option D'],
-      // timeLimit: 30, // Optional
+      totalQuestions: game.questions.length,
+      type: question.type,
+      text: question.text,
+      options: question.options,
+      matchTargets: question.matchTargets,
+      ratingScale: question.ratingScale,
+      media: question.media,
+      optionMedia: question.optionMedia,
+      timeLimit: question.timeLimitSeconds,
+      deadline: game.questionDeadline,
+      serverTime: Date.now(),
    };
-   console.log(`Broadcasting question ${currentQuestion.index} for game ${gameId}`);
-   broadcast(gameId, { type: 'SHOW_QUESTION', payload: currentQuestion });
+}
+
+// Re-send the current deadline with a fresh server timestamp so clients can correct for clock skew and drift
+function sendTimerSync(gameId: string) {
+   const game = games.get(gameId);
+   if (!game || game.gamePhase !== 'question' || game.questionDeadline === null) return;
+   broadcast(gameId, {
+      type: 'TIMER_SYNC',
+      payload: { questionIndex: game.currentQuestionIndex, deadline: game.questionDeadline, serverTime: Date.now() },
+   });
+}
+
+function clearQuestionTimers(game: GameState) {
+   if (game.questionTimer) clearTimeout(game.questionTimer);
+   if (game.timerSyncInterval) clearInterval(game.timerSyncInterval);
+   game.questionTimer = null;
+   game.timerSyncInterval = null;
+}
+
+// Close answering for the current question (deadline reached or everyone answered) and show the results
+function closeQuestion(gameId: string) {
+   const game = games.get(gameId);
+   if (!game || !transitionGame(game, 'reveal')) return;
+
+   clearQuestionTimers(game);
+   game.questionDeadline = null;
+
+   const question = game.questions[game.currentQuestionIndex];
+   console.log(`Closing question ${game.currentQuestionIndex} for game ${gameId} with ${game.currentAnswers.size} answers.`);
+   broadcast(gameId, {
+      type: 'QUESTION_RESULTS',
+      payload: {
+         questionIndex: game.currentQuestionIndex,
+         correctAnswer: question?.correctAnswer ?? null,
+         answerCount: game.currentAnswers.size,
+      },
+   });
+
+   sendAnswerFeedback(game);
+   sendToHost(game, { type: 'ANSWER_DISTRIBUTION', payload: getAnswerDistribution(game) });
+}
+
+// Most common numeric/typed answers listed on the host's results screen
+const MAX_DISTRIBUTION_RESPONSES = 8;
+// Word clouds and open text show many more responses
+const MAX_FREE_TEXT_RESPONSES = 50;
+
+// How many players picked each option (or gave each free answer), for the host's results chart
+function getAnswerDistribution(game: GameState): AnswerDistributionPayload {
+   const question = game.questions[game.currentQuestionIndex];
+   const bucketCount = !question ? 0 : hasOptions(question.type) ? question.options.length : question.ratingScale ?? 0;
+   const counts = new Array<number>(bucketCount).fill(0);
+   const responses = new Map<string, { answer: string; count: number; correct: boolean }>();
+   let correctCount = 0;
+   game.currentAnswers.forEach(({ answer, isCorrect }) => {
+      if (isCorrect) correctCount++;
+      if ('optionIndexes' in answer) {
+         answer.optionIndexes.forEach((index) => { if (index < counts.length) counts[index]++; });
+      } else if ('optionIndex' in answer) {
+         if (answer.optionIndex < counts.length) counts[answer.optionIndex]++;
+      } else if (answer.type === 'rating') {
+         if (answer.value <= counts.length) counts[answer.value - 1]++;
+      } else {
+         // Group spellings that only differ in case and spacing
+         const text = formatSubmittedAnswer(answer, question?.options ?? [], question?.matchTargets);
+         const key = text.toLowerCase().replace(/\s+/g, ' ');
+         const entry = responses.get(key) ?? { answer: text, count: 0, correct: isCorrect };
+         entry.count++;
+         responses.set(key, entry);
+      }
+   });
+   return {
+      questionIndex: game.currentQuestionIndex,
+      counts,
+      responses: [...responses.values()]
+         .sort((a, b) => b.count - a.count)
+         .slice(0, question?.type === 'word_cloud' || question?.type === 'open_text' ? MAX_FREE_TEXT_RESPONSES : MAX_DISTRIBUTION_RESPONSES),
+      correctAnswer: question?.correctAnswer ?? null,
+      correctCount,
+      totalPlayers: getConnectedPlayers(game).length,
+   };
+}
+
+// Tell each player how they did on the question that just closed, including how their rank moved
+function sendAnswerFeedback(game: GameState) {
+   const results = getAnswerResults(game);
+   game.players.forEach((player) => {
+      const result = results.get(player.id);
+      if (player.ws && result) send(player.ws, { type: 'ANSWER_RESULT', payload: result });
+   });
+}
+
+// Per-player result of the current question, keyed by playerId
+function getAnswerResults(game: GameState) {
+   const currentRanks = new Map(getLeaderboard(game).map((entry) => [entry.id, entry.rank]));
+   const previousRanks = new Map(
+      rankPlayers(Array.from(game.players.values()).map(({ id, nickname, score }) => ({
+         id,
+         nickname,
+         score: score - (game.currentAnswers.get(id)?.points ?? 0),
+      }))).map((entry) => [entry.id, entry.rank]),
+   );
+
+   const results = new Map<string, AnswerResultPayload>();
+   game.players.forEach((player) => {
+      const answer = game.currentAnswers.get(player.id);
+      results.set(player.id, {
+         questionIndex: game.currentQuestionIndex,
+         answered: answer !== undefined,
+         correct: answer?.isCorrect ?? false,
+         pointsEarned: answer?.points ?? 0,
+         totalScore: player.score,
+         rank: currentRanks.get(player.id) ?? null,
+         previousRank: previousRanks.get(player.id) ?? null,
+         totalPlayers: game.players.size,
+      });
+   });
+   return results;
+}
+
+// Ungraded slides show their aggregated responses to the host as they arrive, not only once the slide closes
+function sendLiveResults(game: GameState) {
+   const question = game.questions[game.currentQuestionIndex];
+   if (game.gamePhase !== 'question' || !question || isGraded(question.type)) return;
+   sendToHost(game, { type: 'ANSWER_DISTRIBUTION', payload: getAnswerDistribution(game) });
+}
+
+// Live "N of M answered" counter for the host while a question is open
+function sendAnswerProgress(game: GameState) {
+   if (game.gamePhase !== 'question') return;
+   sendToHost(game, {
+      type: 'ANSWER_PROGRESS',
+      payload: {
+         questionIndex: game.currentQuestionIndex,
+         answered: game.currentAnswers.size,
+         total: getConnectedPlayers(game).length,
+      },
+   });
+}
+
+function getConnectedPlayers(game: GameState) {
+   return Array.from(game.players.values()).filter((p) => p.ws !== null);
 }
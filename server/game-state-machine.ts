@@ -0,0 +1,41 @@
+// Game phase state machine.
+// Every phase change in the socket handler goes through validateTransition so illegal
+// host commands (e.g. revealing an answer from the lobby) are rejected with a clear error.
+
+import type { GamePhase } from '../app/lib/game-protocol';
+
+export type { GamePhase };
+
+// lobby -> question -> reveal -> (leaderboard ->) question -> ... -> ended
+// The game can be ended from any phase that is not already ended.
+const ALLOWED_TRANSITIONS: Record<GamePhase, GamePhase[]> = {
+  lobby: ['question', 'ended'],
+  question: ['reveal', 'ended'],
+  reveal: ['leaderboard', 'question', 'ended'],
+  leaderboard: ['question', 'ended'],
+  ended: [],
+};
+
+// Value stored in games.status for each phase
+const DB_STATUS_BY_PHASE: Record<GamePhase, 'lobby' | 'active' | 'finished'> = {
+  lobby: 'lobby',
+  question: 'active',
+  reveal: 'active',
+  leaderboard: 'active',
+  ended: 'finished',
+};
+
+// Returns null if the transition is allowed, otherwise a message suitable for sendError
+export function validateTransition(from: GamePhase, to: GamePhase): string | null {
+  if (ALLOWED_TRANSITIONS[from].includes(to)) {
+    return null;
+  }
+  if (from === 'ended') {
+    return 'The game has already ended.';
+  }
+  return `Cannot go from '${from}' to '${to}'. Allowed next phases: ${ALLOWED_TRANSITIONS[from].join(', ')}.`;
+}
+
+export function getDbStatusForPhase(phase: GamePhase) {
+  return DB_STATUS_BY_PHASE[phase];
+}
@@ -0,0 +1,46 @@
+import type { WebSocket, WebSocketServer } from 'ws';
+
+// WebSocket heartbeats.
+// Every interval each socket is pinged; a socket that has not answered (pong or any message)
+// since the previous ping counts as idle, and after MAX_MISSED_HEARTBEATS it is terminated so
+// its close handler cleans up half-open connections (phones going to sleep, dropped Wi-Fi).
+
+export const HEARTBEAT_INTERVAL_MS = Number(process.env.HEARTBEAT_INTERVAL_SECONDS ?? 15) * 1000;
+const MAX_MISSED_HEARTBEATS = 2;
+
+const missedHeartbeats = new WeakMap<WebSocket, number>();
+
+export function trackHeartbeat(ws: WebSocket) {
+  missedHeartbeats.set(ws, 0);
+  ws.on('pong', () => markAlive(ws));
+}
+
+// Any sign of life from the client resets its missed heartbeat count
+export function markAlive(ws: WebSocket) {
+  missedHeartbeats.set(ws, 0);
+}
+
+// False once the socket has missed at least one heartbeat
+export function isResponsive(ws: WebSocket) {
+  return (missedHeartbeats.get(ws) ?? 0) === 0;
+}
+
+// Start pinging every client of the server. onTick runs before each round of pings,
+// while the missed counts still reflect the previous round.
+export function startHeartbeat(wss: WebSocketServer, onTick: () => void) {
+  const interval = setInterval(() => {
+    onTick();
+    wss.clients.forEach((ws) => {
+      const missed = missedHeartbeats.get(ws) ?? 0;
+      if (missed >= MAX_MISSED_HEARTBEATS) {
+        console.warn(`💔 Terminating WebSocket that missed ${missed} heartbeats.`);
+        ws.terminate();
+        return;
+      }
+      missedHeartbeats.set(ws, missed + 1);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  wss.on('close', () => clearInterval(interval));
+}
@@ -0,0 +1,62 @@
+import * as http from 'http';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { createRequestHandler } from '@remix-run/express';
+import type { ServerBuild } from '@remix-run/node';
+import compression from 'compression';
+import express from 'express';
+import { attachWebSocketServer, closeWebSocketServer } from './setup-websockets';
+
+// Production server: serves the `npm run build` output and the game WebSocket endpoint on one port.
+// `remix-serve` has no hook for WebSockets, so `npm run build` bundles this into build/start.js for `npm start`.
+
+const PORT = Number(process.env.PORT ?? 3000);
+const BUILD_DIR = path.resolve('build');
+// Force exit if open connections keep the server from closing after a shutdown signal
+const SHUTDOWN_TIMEOUT_MS = 10000;
+
+const build: ServerBuild = await import(pathToFileURL(path.join(BUILD_DIR, 'server', 'index.js')).href);
+
+const app = express();
+app.disable('x-powered-by');
+app.use(compression());
+
+// Fingerprinted assets can be cached forever; everything else in build/client only briefly
+app.use('/assets', express.static(path.join(BUILD_DIR, 'client', 'assets'), { immutable: true, maxAge: '1y' }));
+app.use(express.static(path.join(BUILD_DIR, 'client'), { maxAge: '1h' }));
+
+app.all('*', createRequestHandler({ build, mode: process.env.NODE_ENV }));
+
+const httpServer = http.createServer(app);
+const wss = attachWebSocketServer(httpServer);
+
+httpServer.listen(PORT, () => {
+  console.log(`🚀 Server listening on http://localhost:${PORT}`);
+});
+
+let shuttingDown = false;
+async function shutdown(signal: string) {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`Received ${signal}, shutting down...`);
+
+  const forceExit = setTimeout(() => {
+    console.error('Shutdown timed out, forcing exit.');
+    process.exit(1);
+  }, SHUTDOWN_TIMEOUT_MS);
+  forceExit.unref();
+
+  // Close game sockets first so clients see a clean close code instead of a dropped connection
+  await closeWebSocketServer(wss);
+  httpServer.close((err) => {
+    if (err) {
+      console.error('Error closing HTTP server:', err);
+      process.exit(1);
+    }
+    console.log('HTTP server closed.');
+    process.exit(0);
+  });
+}
+
+process.on('SIGTERM', () => { void shutdown('SIGTERM'); });
+process.on('SIGINT', () => { void shutdown('SIGINT'); });
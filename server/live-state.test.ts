@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { getLiveStateSnapshot, getPausedRemainingMs, getRestorableSnapshot, restoreLiveState, resumeQuestionClock } from './live-state';
+import type { LiveGameClock, SavedAnswerRow, SavedPlayerRow } from './live-state';
+
+const STARTED_AT = 1_700_000_000_000;
+const DEADLINE = STARTED_AT + 20_000;
+
+const runningGame: LiveGameClock = {
+  gamePhase: 'question',
+  currentQuestionIndex: 3,
+  sharedAdminState: 2,
+  questionStartedAt: STARTED_AT,
+  questionDeadline: DEADLINE,
+};
+
+const playerRows: SavedPlayerRow[] = [
+  { id: 'p1', nickname: 'Ada', score: 2500, user_id: 'u1', approved: true, team_id: 't1' },
+  { id: 'p2', nickname: 'Brian', score: null, user_id: 'u2', approved: true, team_id: null },
+  { id: 'p3', nickname: 'Cleo', score: 0, user_id: 'u3', approved: false, team_id: null },
+];
+
+const answerRows: SavedAnswerRow[] = [
+  { player_id: 'p1', selected_option_index: 0, response: { type: 'multi_select', optionIndexes: [0, 2] }, is_correct: true, latency_ms: 4200, points: 790 },
+  { player_id: 'p2', selected_option_index: 1, response: null, is_correct: null, latency_ms: 900, points: 0 },
+];
+
+// What comes back from the jsonb column
+function saveAndLoad(game: LiveGameClock) {
+  return JSON.parse(JSON.stringify(getLiveStateSnapshot(game))) as unknown;
+}
+
+describe('live state snapshots', () => {
+  it('restores the question index and deadlines of a running game', () => {
+    const snapshot = getRestorableSnapshot('active', saveAndLoad(runningGame));
+    assert.ok(snapshot);
+    const restored = restoreLiveState(snapshot, playerRows, answerRows);
+
+    assert.equal(restored.gamePhase, 'question');
+    assert.equal(restored.currentQuestionIndex, 3);
+    assert.equal(restored.sharedAdminState, 2);
+    assert.equal(restored.questionStartedAt, STARTED_AT);
+    assert.equal(restored.questionDeadline, DEADLINE);
+  });
+
+  it('restores scores, and keeps nicknames awaiting approval out of the game', () => {
+    const restored = restoreLiveState(getRestorableSnapshot('active', saveAndLoad(runningGame))!, playerRows, answerRows);
+
+    assert.deepEqual(restored.players, [
+      { id: 'p1', nickname: 'Ada', score: 2500, userId: 'u1', teamId: 't1' },
+      { id: 'p2', nickname: 'Brian', score: 0, userId: 'u2', teamId: null },
+    ]);
+    assert.deepEqual(restored.pendingPlayers.map(({ id }) => id), ['p3']);
+  });
+
+  it('restores who already answered the current question', () => {
+    const restored = restoreLiveState(getRestorableSnapshot('active', saveAndLoad(runningGame))!, playerRows, answerRows);
+
+    assert.deepEqual([...restored.currentAnswers.keys()], ['p1', 'p2']);
+    assert.deepEqual(restored.currentAnswers.get('p1'), {
+      playerId: 'p1',
+      answer: { type: 'multi_select', optionIndexes: [0, 2] },
+      isCorrect: true,
+      latencyMs: 4200,
+      points: 790,
+    });
+    // Saved before answers had a type: read back as the chosen option
+    assert.deepEqual(restored.currentAnswers.get('p2')?.answer, { type: 'multiple_choice', optionIndex: 1 });
+    assert.equal(restored.currentAnswers.get('p2')?.isCorrect, false);
+  });
+
+  it('keeps the time left on the question across the pause until the host is back', () => {
+    const restored = restoreLiveState(getRestorableSnapshot('active', saveAndLoad(runningGame))!, playerRows, answerRows);
+    const pausedAt = STARTED_AT + 15_000;
+    const pausedRemainingMs = getPausedRemainingMs(restored, pausedAt);
+    assert.equal(pausedRemainingMs, 5_000);
+
+    const resumedAt = pausedAt + 60_000;
+    resumeQuestionClock(restored, pausedAt, pausedRemainingMs!, resumedAt);
+    assert.equal(restored.questionDeadline, resumedAt + 5_000);
+    assert.equal(restored.questionStartedAt, STARTED_AT + 60_000);
+
+    // The shifted deadline is what the next snapshot saves
+    const resnapshot = getRestorableSnapshot('active', saveAndLoad(restored));
+    assert.equal(resnapshot?.questionDeadline, resumedAt + 5_000);
+  });
+
+  it('has no question time to keep outside the question phase or after the deadline', () => {
+    assert.equal(getPausedRemainingMs({ ...runningGame, gamePhase: 'reveal' }, STARTED_AT), null);
+    assert.equal(getPausedRemainingMs(runningGame, DEADLINE + 1_000), 0);
+  });
+
+  it('does not restore finished games or games without a snapshot', () => {
+    assert.equal(getRestorableSnapshot('finished', saveAndLoad(runningGame)), null);
+    assert.equal(getRestorableSnapshot('active', saveAndLoad({ ...runningGame, gamePhase: 'ended' })), null);
+    assert.equal(getRestorableSnapshot('lobby', null), null);
+  });
+});
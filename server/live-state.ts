@@ -0,0 +1,122 @@
+import type { SubmittedAnswer } from '../app/lib/game-protocol';
+import type { GamePhase } from './game-state-machine';
+
+// Live state snapshots (games.live_state).
+// The socket handler saves one on every phase change and deadline shift, and rebuilds a running
+// game from the latest one plus the saved players and answers after a restart. Kept separate
+// from the socket handler so the round trip can be checked without a database.
+
+export interface LiveStateSnapshot {
+  phase: GamePhase;
+  currentQuestionIndex: number;
+  sharedAdminState: number;
+  questionStartedAt: number | null;
+  questionDeadline: number | null;
+}
+
+// The part of the in-memory game a snapshot covers
+export interface LiveGameClock {
+  gamePhase: GamePhase;
+  currentQuestionIndex: number;
+  sharedAdminState: number;
+  questionStartedAt: number | null; // Epoch ms
+  questionDeadline: number | null; // Epoch ms
+}
+
+// Rows read back from the 'players' and 'answers' tables when restoring
+export interface SavedPlayerRow {
+  id: string;
+  nickname: string;
+  score: number | null;
+  user_id: string;
+  approved: boolean;
+  team_id: string | null;
+}
+
+export interface SavedAnswerRow {
+  player_id: string;
+  selected_option_index: number;
+  response: unknown;
+  is_correct: boolean | null;
+  latency_ms: number;
+  points: number;
+}
+
+export interface RestoredPlayer {
+  id: string;
+  nickname: string;
+  score: number;
+  userId: string;
+  teamId: string | null;
+}
+
+export interface RestoredAnswer {
+  playerId: string;
+  answer: SubmittedAnswer;
+  isCorrect: boolean;
+  latencyMs: number;
+  points: number;
+}
+
+export interface RestoredGame extends LiveGameClock {
+  players: RestoredPlayer[];
+  pendingPlayers: RestoredPlayer[]; // Nicknames still waiting for host approval
+  currentAnswers: Map<string, RestoredAnswer>; // Answers to the current question, keyed by playerId
+}
+
+export function getLiveStateSnapshot(game: LiveGameClock): LiveStateSnapshot {
+  return {
+    phase: game.gamePhase,
+    currentQuestionIndex: game.currentQuestionIndex,
+    sharedAdminState: game.sharedAdminState,
+    questionStartedAt: game.questionStartedAt,
+    questionDeadline: game.questionDeadline,
+  };
+}
+
+// A game can be restored while its row is not finished and it has a snapshot of a phase other than 'ended'
+export function getRestorableSnapshot(status: string | null, liveState: unknown): LiveStateSnapshot | null {
+  const snapshot = liveState as LiveStateSnapshot | null | undefined;
+  if (status === 'finished' || !snapshot || snapshot.phase === 'ended') return null;
+  return snapshot;
+}
+
+export function restoreLiveState(snapshot: LiveStateSnapshot, playerRows: SavedPlayerRow[], answerRows: SavedAnswerRow[]): RestoredGame {
+  const toPlayer = (row: SavedPlayerRow): RestoredPlayer => ({
+    id: row.id,
+    nickname: row.nickname,
+    score: row.score ?? 0,
+    userId: row.user_id,
+    teamId: row.team_id ?? null,
+  });
+  return {
+    gamePhase: snapshot.phase,
+    currentQuestionIndex: snapshot.currentQuestionIndex,
+    sharedAdminState: snapshot.sharedAdminState,
+    questionStartedAt: snapshot.questionStartedAt,
+    questionDeadline: snapshot.questionDeadline,
+    players: playerRows.filter((row) => row.approved).map(toPlayer),
+    pendingPlayers: playerRows.filter((row) => !row.approved).map(toPlayer),
+    currentAnswers: new Map(answerRows.map((row) => [row.player_id, {
+      playerId: row.player_id,
+      // Answers saved before question types only have the option index
+      answer: (row.response as SubmittedAnswer | null) ?? { type: 'multiple_choice', optionIndex: row.selected_option_index },
+      isCorrect: row.is_correct ?? false, // null for responses to ungraded slides
+      latencyMs: row.latency_ms,
+      points: row.points,
+    }])),
+  };
+}
+
+// Time left on the open question when the game is paused at `pausedAt`, or null if no question clock is running
+export function getPausedRemainingMs(game: LiveGameClock, pausedAt: number): number | null {
+  if (game.gamePhase !== 'question' || game.questionDeadline === null) return null;
+  return Math.max(game.questionDeadline - pausedAt, 0);
+}
+
+// Restart the question clock at `now` with the time that was left. The start time moves too, so
+// speed scoring does not count the pause against players.
+export function resumeQuestionClock(game: LiveGameClock, pausedAt: number, pausedRemainingMs: number, now: number) {
+  if (game.questionStartedAt !== null) game.questionStartedAt += now - pausedAt;
+  game.questionDeadline = now + pausedRemainingMs;
+}
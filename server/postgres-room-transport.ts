@@ -0,0 +1,196 @@
+import pg from 'pg';
+import { nanoid } from 'nanoid';
+import type { RoomEnvelope, RoomTransport } from './room-transport';
+
+// Room transport over a plain Postgres database (the Supabase one works, as does any self-hosted server).
+// Envelopes go through LISTEN/NOTIFY; room ownership is a session-level advisory lock, so a room
+// is released automatically if its owner process dies and its connection drops.
+// A dropped connection is reopened with backoff. Its locks are gone by then, so the rooms this
+// process owned are locked again, and the ones another process took in between are reported lost.
+
+const CHANNEL = 'game_rooms';
+// First key of the two-key advisory locks, so room locks do not collide with other users of advisory locks
+const ROOM_LOCK_NAMESPACE = 7302;
+// NOTIFY payloads are limited to 8000 bytes; larger envelopes are split into chunks of this many characters
+const MAX_CHUNK_LENGTH = 7000;
+// Chunked envelopes still missing chunks after this long are dropped (a publisher died halfway)
+const PARTIAL_ENVELOPE_TIMEOUT_MS = 30000;
+// Most chunked envelopes kept at once; the oldest is dropped first
+const MAX_PARTIAL_ENVELOPES = 1000;
+// Reconnect delays double from the initial value up to the cap
+const INITIAL_RECONNECT_DELAY_MS = 500;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+export function createPostgresRoomTransport(connectionString: string): RoomTransport {
+  const listeners: ((envelope: RoomEnvelope) => void)[] = [];
+  const resetListeners: ((lostRooms: string[]) => void)[] = [];
+  const ownedRooms = new Set<string>();
+  const pendingClaims = new Map<string, Promise<boolean>>();
+  // Chunks of envelopes still being received, keyed by envelope id, oldest first
+  const partialEnvelopes = new Map<string, { chunks: string[]; firstSeenAt: number }>();
+  let client: pg.Client | null = null; // Connected and listening; null while (re)connecting
+  let hasConnected = false;
+  let reconnectAttempt = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  function connect() {
+    const next = new pg.Client({ connectionString });
+    next.on('notification', (notification) => {
+      if (notification.channel !== CHANNEL || !notification.payload) return;
+      const envelope = receiveChunk(notification.payload);
+      if (envelope) listeners.forEach((listener) => listener(envelope));
+    });
+    next.on('error', (error) => handleConnectionLost(next, error));
+    next.on('end', () => handleConnectionLost(next));
+
+    next
+      .connect()
+      .then(() => next.query(`LISTEN ${CHANNEL}`))
+      .then(() => (hasConnected ? relockOwnedRooms(next) : []))
+      .then((lostRooms) => {
+        if (closed) {
+          void next.end();
+          return;
+        }
+        console.log(`📡 Postgres room transport ${hasConnected ? 'reconnected' : 'connected'}.`);
+        client = next;
+        reconnectAttempt = 0;
+        if (hasConnected) resetListeners.forEach((listener) => listener(lostRooms));
+        hasConnected = true;
+      })
+      .catch((error) => handleConnectionLost(next, error));
+  }
+
+  // Called for every error and end event, and for a failed (re)connect; only the first one per connection counts
+  const lostConnections = new WeakSet<pg.Client>();
+  function handleConnectionLost(lost: pg.Client, error?: unknown) {
+    if (lostConnections.has(lost)) return;
+    lostConnections.add(lost);
+    if (client === lost) client = null;
+    lost.end().catch(() => {}); // Make sure the session (and its locks) is gone on the server too
+    if (closed) return;
+
+    reconnectAttempt += 1;
+    const delay = Math.min(INITIAL_RECONNECT_DELAY_MS * 2 ** (reconnectAttempt - 1), MAX_RECONNECT_DELAY_MS);
+    console.error(`📡 Postgres room transport connection lost, reconnecting in ${delay}ms:`, error ?? 'connection ended');
+    reconnectTimer = setTimeout(connect, delay);
+  }
+
+  // Take the locks of our rooms again on a new connection. Returns the rooms another process owns now.
+  async function relockOwnedRooms(next: pg.Client) {
+    const lostRooms: string[] = [];
+    for (const gameId of ownedRooms) {
+      if (!(await tryLock(next, gameId))) {
+        ownedRooms.delete(gameId);
+        lostRooms.push(gameId);
+      }
+    }
+    return lostRooms;
+  }
+
+  async function tryLock(connection: pg.Client, gameId: string) {
+    const result = await connection.query<{ locked: boolean }>(
+      'SELECT pg_try_advisory_lock($1, hashtext($2)) AS locked',
+      [ROOM_LOCK_NAMESPACE, gameId],
+    );
+    return result.rows[0]?.locked === true;
+  }
+
+  // Fails fast while the connection is down, so callers do not queue up behind a reconnect
+  function getClient() {
+    if (!client) throw new Error('The Postgres room transport is not connected.');
+    return client;
+  }
+
+  function dropStalePartialEnvelopes(now: number) {
+    for (const [id, { firstSeenAt }] of partialEnvelopes) {
+      if (now - firstSeenAt < PARTIAL_ENVELOPE_TIMEOUT_MS && partialEnvelopes.size <= MAX_PARTIAL_ENVELOPES) break;
+      console.warn(`📡 Dropping incomplete room envelope ${id}.`);
+      partialEnvelopes.delete(id);
+    }
+  }
+
+  // Payload format: `<envelope id>:<chunk index>:<chunk count>:<base64 chunk>`
+  function receiveChunk(payload: string): RoomEnvelope | null {
+    const [id, index, count, chunk] = payload.split(':');
+    const now = Date.now();
+    const partial = partialEnvelopes.get(id) ?? { chunks: new Array<string>(Number(count)), firstSeenAt: now };
+    partial.chunks[Number(index)] = chunk;
+    if (partial.chunks.filter((c) => c !== undefined).length < partial.chunks.length) {
+      partialEnvelopes.set(id, partial);
+      dropStalePartialEnvelopes(now);
+      return null;
+    }
+    partialEnvelopes.delete(id);
+    try {
+      return JSON.parse(Buffer.from(partial.chunks.join(''), 'base64').toString('utf8')) as RoomEnvelope;
+    } catch (error) {
+      console.error('📡 Dropping malformed room envelope:', error);
+      return null;
+    }
+  }
+
+  connect();
+
+  return {
+    instanceId: nanoid(),
+    async publish(envelope) {
+      const connection = getClient();
+      const id = nanoid();
+      const encoded = Buffer.from(JSON.stringify(envelope), 'utf8').toString('base64');
+      const count = Math.ceil(encoded.length / MAX_CHUNK_LENGTH);
+      for (let index = 0; index < count; index++) {
+        const chunk = encoded.slice(index * MAX_CHUNK_LENGTH, (index + 1) * MAX_CHUNK_LENGTH);
+        await connection.query('SELECT pg_notify($1, $2)', [CHANNEL, `${id}:${index}:${count}:${chunk}`]);
+      }
+    },
+    subscribe(listener) {
+      listeners.push(listener);
+    },
+    async claimRoom(gameId) {
+      if (ownedRooms.has(gameId)) return true;
+      // Advisory locks stack per session, so concurrent claims for the same room share one query
+      let pending = pendingClaims.get(gameId);
+      if (!pending) {
+        const connection = getClient();
+        pending = tryLock(connection, gameId)
+          .then((locked) => {
+            // A lock taken on a connection that has dropped since is already gone
+            if (client !== connection) throw new Error('The Postgres room transport lost its connection while claiming a room.');
+            if (locked) ownedRooms.add(gameId);
+            return locked;
+          })
+          .finally(() => pendingClaims.delete(gameId));
+        pendingClaims.set(gameId, pending);
+      }
+      return pending;
+    },
+    async releaseRoom(gameId) {
+      if (!ownedRooms.delete(gameId)) return;
+      await getClient().query('SELECT pg_advisory_unlock($1, hashtext($2))', [ROOM_LOCK_NAMESPACE, gameId]);
+    },
+    async hasRoomOwner(gameId) {
+      if (ownedRooms.has(gameId) || pendingClaims.has(gameId)) return true;
+      // Nobody holds the lock if we can take it; give it straight back so the clients' next handshake decides
+      const connection = getClient();
+      if (!(await tryLock(connection, gameId))) return true;
+      await connection.query('SELECT pg_advisory_unlock($1, hashtext($2))', [ROOM_LOCK_NAMESPACE, gameId]);
+      return false;
+    },
+    onReset(listener) {
+      resetListeners.push(listener);
+    },
+    async close() {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      listeners.length = 0;
+      resetListeners.length = 0;
+      ownedRooms.clear();
+      partialEnvelopes.clear();
+      const connection = client;
+      client = null;
+      await connection?.end();
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import type { CorrectAnswer, QuestionMedia } from '../app/lib/game-protocol';
+
+// Ordering and matching questions are authored in their solved state, so the server shuffles them
+// before play and rewrites the solution to the shuffled positions.
+// The shuffle is seeded with the game and question ids: a game rebuilt after a restart shows the same
+// arrangement, so the option indexes in answers given before the restart still mean the same items.
+
+interface ArrangedQuestion {
+  options: string[];
+  optionMedia: (QuestionMedia | null)[]; // Moves with its option
+  matchTargets: string[];
+  correctAnswer: CorrectAnswer;
+}
+
+export function arrangeForPlay(question: ArrangedQuestion, seed: string): ArrangedQuestion {
+  const { options, optionMedia, matchTargets, correctAnswer } = question;
+  if (correctAnswer.type === 'ordering') {
+    // shown[d] is the authored position of the item displayed at d
+    const shown = shuffledIndexes(options.length, seed);
+    return {
+      options: shown.map((index) => options[index]),
+      optionMedia: optionMedia.length > 0 ? shown.map((index) => optionMedia[index] ?? null) : [],
+      matchTargets,
+      correctAnswer: { type: 'ordering', order: correctAnswer.order.map((index) => shown.indexOf(index)) },
+    };
+  }
+  if (correctAnswer.type === 'matching') {
+    const shown = shuffledIndexes(matchTargets.length, seed);
+    return {
+      options,
+      optionMedia,
+      matchTargets: shown.map((index) => matchTargets[index]),
+      correctAnswer: { type: 'matching', matches: correctAnswer.matches.map((index) => shown.indexOf(index)) },
+    };
+  }
+  return question;
+}
+
+// A permutation of 0..length-1 that is never the identity (that would give the puzzle away)
+function shuffledIndexes(length: number, seed: string) {
+  const random = createRandom(seed);
+  const indexes = Array.from({ length }, (_, index) => index);
+  if (length < 2) return indexes;
+  do {
+    // Fisher-Yates
+    for (let i = length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [indexes[i], indexes[j]] = [indexes[j], indexes[i]];
+    }
+  } while (indexes.every((value, index) => value === index));
+  return indexes;
+}
+
+// Small seeded PRNG (mulberry32 over a string hash); not for anything security related
+function createRandom(seed: string) {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) state = (Math.imul(31, state) + seed.charCodeAt(i)) | 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,188 @@
+import { WebSocket } from 'ws';
+import { nanoid } from 'nanoid';
+import type { RoomEnvelope, RoomTransport } from './room-transport';
+
+// Relaying of client connections to the process that owns their game room.
+// Relay side: a local WebSocket whose game is owned elsewhere forwards its frames over the transport.
+// Owner side: each relayed connection shows up as a RemoteSocket, which the game handler uses like
+// any local WebSocket; whatever it sends is published back to the relay and written to the client.
+
+// The part of a WebSocket the game handler uses, implemented by local sockets and RemoteSockets alike
+export interface GameSocket {
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+interface RoomRelayHandlers {
+  ownsRoom: (gameId: string) => boolean;
+  onFrame: (socket: GameSocket, userId: string, data: string) => void;
+  onClose: (socket: GameSocket) => void;
+  onRoomLost: (gameId: string) => void; // Another process owns the room now; drop the game from memory
+}
+
+// How often the relay side checks that the games it relays to still have an owner. A crashed owner
+// loses its advisory lock, but nothing tells its relays, whose clients would otherwise wait forever.
+const OWNER_CHECK_INTERVAL_MS = Number(process.env.ROOM_OWNER_CHECK_SECONDS ?? 10) * 1000;
+
+let transport: RoomTransport | null = null;
+let handlers: RoomRelayHandlers | null = null;
+let ownerCheckInterval: ReturnType<typeof setInterval> | null = null;
+
+// Owner side: connections relayed from other processes, keyed by connection id
+const remoteSockets = new Map<string, RemoteSocket>();
+// Relay side: local sockets whose game is owned by another process
+const relayedSockets = new Map<WebSocket, { gameId: string; connectionId: string }>();
+const relayedById = new Map<string, WebSocket>();
+
+class RemoteSocket implements GameSocket {
+  readyState: number = WebSocket.OPEN;
+
+  constructor(readonly gameId: string, readonly relayId: string, readonly connectionId: string) {}
+
+  send(data: string) {
+    if (this.readyState !== WebSocket.OPEN) return;
+    void publish({ kind: 'server-frame', relayId: this.relayId, connectionId: this.connectionId, data });
+  }
+
+  close(code = 1000, reason = '') {
+    if (this.readyState === WebSocket.CLOSED) return;
+    void publish({ kind: 'server-close', relayId: this.relayId, connectionId: this.connectionId, code, reason });
+    this.closed();
+  }
+
+  // Like a WebSocket 'close' event, the handler hears about it asynchronously
+  closed() {
+    this.readyState = WebSocket.CLOSED;
+    remoteSockets.delete(this.connectionId);
+    queueMicrotask(() => handlers?.onClose(this));
+  }
+}
+
+export function startRoomRelay(roomTransport: RoomTransport, roomHandlers: RoomRelayHandlers) {
+  transport = roomTransport;
+  handlers = roomHandlers;
+  transport.subscribe(handleEnvelope);
+  transport.onReset(handleReset);
+  ownerCheckInterval = setInterval(() => { void closeOrphanedRelays(); }, OWNER_CHECK_INTERVAL_MS);
+}
+
+export function stopRoomRelay() {
+  if (ownerCheckInterval) clearInterval(ownerCheckInterval);
+  ownerCheckInterval = null;
+}
+
+async function publish(envelope: RoomEnvelope) {
+  try {
+    await transport?.publish(envelope);
+  } catch (error) {
+    console.error(`📡 Failed to publish ${envelope.kind} envelope:`, error);
+  }
+}
+
+// --- Relay side ---
+
+export function isRelayed(ws: WebSocket) {
+  return relayedSockets.has(ws);
+}
+
+// Forward a frame from a local client to the owner of its game. The first frame (the handshake)
+// names the game; every later frame of the socket follows it there.
+export function relayToOwner(ws: WebSocket, userId: string, data: string, gameId?: string) {
+  if (!transport) return;
+  let relayed = relayedSockets.get(ws);
+  if (!relayed) {
+    if (!gameId) return;
+    relayed = { gameId, connectionId: nanoid() };
+    relayedSockets.set(ws, relayed);
+    relayedById.set(relayed.connectionId, ws);
+    const { connectionId } = relayed;
+    ws.once('close', () => {
+      relayedSockets.delete(ws);
+      relayedById.delete(connectionId);
+      void publish({ kind: 'client-close', gameId, connectionId });
+    });
+  }
+  // The owner trusts this user id: only server processes can publish on the transport
+  void publish({
+    kind: 'client-frame',
+    gameId: relayed.gameId,
+    connectionId: relayed.connectionId,
+    relayId: transport.instanceId,
+    userId,
+    data,
+  });
+}
+
+// Close relayed sockets whose game no longer has an owner (1012 makes clients reconnect), so their
+// next handshake claims the room and the game is restored from its snapshot
+async function closeOrphanedRelays() {
+  if (!transport) return;
+  const gameIds = new Set([...relayedSockets.values()].map(({ gameId }) => gameId));
+  for (const gameId of gameIds) {
+    try {
+      if (await transport.hasRoomOwner(gameId)) continue;
+    } catch (error) {
+      console.error(`📡 Failed to check the owner of game ${gameId}:`, error);
+      continue;
+    }
+    console.warn(`📡 Game ${gameId} has no owner anymore. Disconnecting its relayed clients.`);
+    relayedSockets.forEach((relayed, ws) => {
+      if (relayed.gameId === gameId) ws.close(1012, 'Game owner gone');
+    });
+  }
+}
+
+// --- Owner side ---
+
+// Close every relayed connection, e.g. on shutdown, so their clients reconnect and find a new owner
+export async function closeRemoteSockets(code: number, reason: string) {
+  const sockets = [...remoteSockets.values()];
+  await Promise.all(sockets.map((socket) => publish({
+    kind: 'server-close', relayId: socket.relayId, connectionId: socket.connectionId, code, reason,
+  })));
+  sockets.forEach((socket) => socket.closed());
+}
+
+// The transport lost its connection for a while: frames relayed in between are gone, so every relayed
+// connection starts over (1012 makes clients reconnect), and games whose room was taken are given up
+function handleReset(lostRooms: string[]) {
+  lostRooms.forEach((gameId) => handlers?.onRoomLost(gameId));
+  void closeRemoteSockets(1012, 'Room transport reconnected');
+  relayedById.forEach((ws) => ws.close(1012, 'Room transport reconnected'));
+}
+
+function handleEnvelope(envelope: RoomEnvelope) {
+  switch (envelope.kind) {
+    case 'client-frame': {
+      if (!handlers?.ownsRoom(envelope.gameId)) return;
+      let socket = remoteSockets.get(envelope.connectionId);
+      if (!socket) {
+        console.log(`📡 Relayed connection ${envelope.connectionId} joined game ${envelope.gameId}.`);
+        socket = new RemoteSocket(envelope.gameId, envelope.relayId, envelope.connectionId);
+        remoteSockets.set(envelope.connectionId, socket);
+      }
+      handlers.onFrame(socket, envelope.userId, envelope.data);
+      break;
+    }
+    case 'client-close': {
+      const socket = remoteSockets.get(envelope.connectionId);
+      if (socket) {
+        console.log(`📡 Relayed connection ${envelope.connectionId} left game ${envelope.gameId}.`);
+        socket.closed();
+      }
+      break;
+    }
+    case 'server-frame': {
+      if (envelope.relayId !== transport?.instanceId) return;
+      const ws = relayedById.get(envelope.connectionId);
+      if (ws && ws.readyState === WebSocket.OPEN) ws.send(envelope.data);
+      break;
+    }
+    case 'server-close': {
+      if (envelope.relayId !== transport?.instanceId) return;
+      relayedById.get(envelope.connectionId)?.close(envelope.code, envelope.reason);
+      break;
+    }
+  }
+}
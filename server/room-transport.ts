@@ -0,0 +1,73 @@
+import { nanoid } from 'nanoid';
+import { createPostgresRoomTransport } from './postgres-room-transport';
+
+// Pub/sub between game server processes.
+// A game room lives in the memory of exactly one process, its owner. Clients that land on
+// another process are relayed to the owner (see room-relay.ts) with the envelopes below.
+
+// Frames travel as the raw JSON strings exchanged with the browser
+export type RoomEnvelope =
+  // Relay -> owner: a frame from a client socket, or that socket closing
+  | { kind: 'client-frame'; gameId: string; connectionId: string; relayId: string; userId: string; data: string }
+  | { kind: 'client-close'; gameId: string; connectionId: string }
+  // Owner -> relay: a frame for a client socket, or the owner closing it
+  | { kind: 'server-frame'; relayId: string; connectionId: string; data: string }
+  | { kind: 'server-close'; relayId: string; connectionId: string; code: number; reason: string };
+
+export interface RoomTransport {
+  readonly instanceId: string; // Unique per process; relays use it to address their replies
+  publish(envelope: RoomEnvelope): Promise<void>;
+  subscribe(listener: (envelope: RoomEnvelope) => void): void;
+  // Become the owner of a room. False if another process already owns it.
+  claimRoom(gameId: string): Promise<boolean>;
+  releaseRoom(gameId: string): Promise<void>;
+  // Whether some process (possibly this one) owns the room right now, without claiming it
+  hasRoomOwner(gameId: string): Promise<boolean>;
+  // Called after the transport lost its connection and got it back. Envelopes published in between
+  // are gone, and the rooms in lostRooms were claimed by another process in the meantime.
+  onReset(listener: (lostRooms: string[]) => void): void;
+  close(): Promise<void>;
+}
+
+// Single process: every room is owned locally and envelopes never leave the process
+export function createInMemoryRoomTransport(): RoomTransport {
+  const listeners: ((envelope: RoomEnvelope) => void)[] = [];
+  return {
+    instanceId: nanoid(),
+    async publish(envelope) {
+      // Deliver asynchronously, like a real transport would
+      queueMicrotask(() => listeners.forEach((listener) => listener(envelope)));
+    },
+    subscribe(listener) {
+      listeners.push(listener);
+    },
+    async claimRoom() {
+      return true;
+    },
+    async releaseRoom() {},
+    async hasRoomOwner() {
+      return true;
+    },
+    onReset() {}, // Never loses its connection
+    async close() {
+      listeners.length = 0;
+    },
+  };
+}
+
+// ROOM_TRANSPORT=postgres shares rooms between processes through the database in DATABASE_URL
+export function createRoomTransport(): RoomTransport {
+  const kind = process.env.ROOM_TRANSPORT ?? 'memory';
+  if (kind === 'postgres') {
+    const connectionString = process.env.DATABASE_URL;
+    if (!connectionString) {
+      throw new Error('ROOM_TRANSPORT=postgres requires DATABASE_URL to be set.');
+    }
+    console.log('📡 Using Postgres room transport.');
+    return createPostgresRoomTransport(connectionString);
+  }
+  if (kind !== 'memory') {
+    console.warn(`📡 Unknown ROOM_TRANSPORT '${kind}', falling back to in-memory rooms.`);
+  }
+  return createInMemoryRoomTransport();
+}
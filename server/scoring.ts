@@ -0,0 +1,75 @@
+import type { CorrectAnswer, SubmittedAnswer } from '../app/lib/game-protocol';
+import { normalizeTypedAnswer } from '../app/lib/question-types';
+
+// Scoring rules for submitted answers.
+// Kept separate from the socket handler so the rules can change without touching message handling.
+
+export const CORRECT_ANSWER_POINTS = 1000;
+
+export interface ScoredAnswer {
+  isCorrect: boolean; // Fully correct; a partly correct multi-select answer still earns points
+  points: number;
+}
+
+// Share of the points an answer earns, from 0 (wrong) to 1 (fully correct)
+export function getAnswerCredit(correct: CorrectAnswer, answer: SubmittedAnswer): number {
+  switch (correct.type) {
+    case 'multiple_choice':
+    case 'true_false':
+      return answer.type === correct.type && answer.optionIndex === correct.optionIndex ? 1 : 0;
+    case 'multi_select': {
+      if (answer.type !== 'multi_select') return 0;
+      // Every correct pick earns its share, every wrong pick takes one share away, so ticking all boxes does not pay
+      const hits = answer.optionIndexes.filter((index) => correct.optionIndexes.includes(index)).length;
+      const misses = answer.optionIndexes.length - hits;
+      return Math.max(0, (hits - misses) / correct.optionIndexes.length);
+    }
+    case 'numeric':
+      return answer.type === 'numeric' && Math.abs(answer.value - correct.value) <= correct.tolerance ? 1 : 0;
+    case 'typed_answer': {
+      if (answer.type !== 'typed_answer') return 0;
+      const given = normalizeTypedAnswer(answer.text);
+      return correct.acceptedAnswers.some((accepted) => normalizeTypedAnswer(accepted) === given) ? 1 : 0;
+    }
+    case 'ordering':
+      return answer.type === 'ordering' ? getOrderingCredit(correct.order, answer.order) : 0;
+    case 'matching': {
+      if (answer.type !== 'matching' || answer.matches.length !== correct.matches.length) return 0;
+      return answer.matches.filter((target, index) => target === correct.matches[index]).length / correct.matches.length;
+    }
+  }
+}
+
+// Every pair of items in the right relative order earns a share, every pair in the wrong order takes one
+// away (Kendall's tau, floored at 0): one step out of place still scores well, a random guess scores nothing.
+function getOrderingCredit(correctOrder: number[], givenOrder: number[]) {
+  if (givenOrder.length !== correctOrder.length) return 0;
+  const positions = new Map(givenOrder.map((item, position) => [item, position]));
+  if (correctOrder.some((item) => !positions.has(item))) return 0;
+  let agreeing = 0;
+  let disagreeing = 0;
+  for (let i = 0; i < correctOrder.length; i++) {
+    for (let j = i + 1; j < correctOrder.length; j++) {
+      if (positions.get(correctOrder[i])! < positions.get(correctOrder[j])!) agreeing++;
+      else disagreeing++;
+    }
+  }
+  const pairs = agreeing + disagreeing;
+  return pairs === 0 ? 1 : Math.max(0, (agreeing - disagreeing) / pairs);
+}
+
+// Correct answers earn between CORRECT_ANSWER_POINTS (instant) and half of it (at the deadline),
+// decaying linearly with the time taken, like a classic live quiz. Partial credit scales that down.
+export function scoreAnswer(
+  correct: CorrectAnswer,
+  answer: SubmittedAnswer,
+  latencyMs: number,
+  timeLimitMs: number,
+): ScoredAnswer {
+  const credit = getAnswerCredit(correct, answer);
+  if (credit === 0) {
+    return { isCorrect: false, points: 0 };
+  }
+  const elapsedFraction = timeLimitMs > 0 ? Math.min(Math.max(latencyMs / timeLimitMs, 0), 1) : 0;
+  return { isCorrect: credit === 1, points: Math.round(CORRECT_ANSWER_POINTS * (1 - elapsedFraction / 2) * credit) };
+}
@@ -1,6 +1,18 @@
+import type * as http from 'http';
 import type { ViteDevServer } from 'vite';
-import { WebSocketServer } from 'ws';
-import { handleWebSocket } from './game-socket-handler'; // We'll create this next
+import { WebSocket, WebSocketServer } from 'ws';
+import { handleWebSocket, refreshPresence, setRoomTransport } from './game-socket-handler'; // We'll create this next
+import { startHeartbeat, trackHeartbeat } from './heartbeat';
+import { closeRemoteSockets, stopRoomRelay } from './room-relay';
+import { createRoomTransport } from './room-transport';
+import type { RoomTransport } from './room-transport';
+import { authenticateUpgradeRequest, setConnectionUser } from './ws-auth';
+
+// Path the game clients connect to (see host.$gameId.tsx / play.$gameId.tsx)
+export const WEBSOCKET_PATH = '/ws';
+
+// Room transport of each WebSocket server, closed together with it
+const roomTransports = new WeakMap<WebSocketServer, RoomTransport>();
 
 // Store the WebSocket server instance globally to prevent multiple instances during HMR
 declare global {
@@ -8,6 +20,91 @@ declare global {
   var wss: WebSocketServer | undefined;
 }
 
+// Mount the game WebSocket server on an existing HTTP server.
+// Shared by the Vite dev plugin below and the production server in server/index.ts.
+export function attachWebSocketServer(httpServer: http.Server) {
+  console.log('🔌 Setting up WebSocket server...');
+  const wss = new WebSocketServer({
+    server: httpServer,
+    path: WEBSOCKET_PATH, // Leave other upgrade requests (e.g. Vite HMR) alone
+    // Only accept upgrades that carry a valid Supabase session cookie
+    verifyClient: (info, done) => {
+      authenticateUpgradeRequest(info.req)
+        .then((user) => {
+          if (!user) {
+            console.warn('🔌 Rejected unauthenticated WebSocket upgrade.');
+            done(false, 401, 'Unauthorized');
+            return;
+          }
+          setConnectionUser(info.req, user);
+          done(true);
+        })
+        .catch((error) => {
+          console.error('🔌 Error authenticating WebSocket upgrade:', error);
+          done(false, 500, 'Internal Server Error');
+        });
+    },
+  });
+
+  // Lets several server processes share game rooms (ROOM_TRANSPORT=postgres); in-memory by default
+  const transport = createRoomTransport();
+  setRoomTransport(transport);
+  roomTransports.set(wss, transport);
+
+  wss.on('connection', (ws, req) => {
+    // Extract client IP, handle potential proxies if necessary
+    const clientIp = req.headers['x-forwarded-for'] || req.socket.remoteAddress;
+    console.log(`🔌 WebSocket client connected: ${clientIp}`);
+
+    trackHeartbeat(ws);
+    handleWebSocket(ws, req); // Delegate handling to the game logic module
+
+    ws.on('close', (code, reason) => {
+      console.log(`🔌 WebSocket client disconnected: ${clientIp} (Code: ${code}, Reason: ${reason.toString()})`);
+      // handleWebSocket cleanup logic is triggered internally on 'close'
+    });
+
+    ws.on('error', (error) => {
+      console.error(`🔌 WebSocket error for ${clientIp}:`, error);
+    });
+  });
+
+  // Reap half-open connections and keep the idle flags in player lists current
+  startHeartbeat(wss, refreshPresence);
+
+  console.log(`✅ WebSocket server configured and listening on ${WEBSOCKET_PATH}.`);
+  return wss;
+}
+
+// Close every client connection and stop the WebSocket server
+export function closeWebSocketServer(wss: WebSocketServer): Promise<void> {
+  console.log('🔌 Shutting down WebSocket server...');
+  wss.clients.forEach((client) => {
+    if (client.readyState === WebSocket.OPEN || client.readyState === WebSocket.CONNECTING) {
+      client.close(1001, 'Server shutting down');
+    }
+  });
+  const closed = new Promise<void>((resolve) => {
+    wss.close((err) => {
+      if (err) {
+        console.error('Error closing WebSocket server:', err);
+      } else {
+        console.log('WebSocket server closed.');
+      }
+      resolve();
+    });
+  });
+
+  // Clients relayed here from other processes reconnect and find a new owner for their game
+  const transport = roomTransports.get(wss);
+  if (!transport) return closed;
+  return closed
+    .then(() => stopRoomRelay())
+    .then(() => closeRemoteSockets(1001, 'Server shutting down'))
+    .then(() => transport.close())
+    .catch((error) => console.error('Error closing room transport:', error));
+}
+
 export const webSocketPlugin = {
   name: 'webSocketPlugin',
   configureServer(server: ViteDevServer) {
@@ -18,47 +115,14 @@ export const webSocketPlugin = {
 
     // Prevent creating multiple WebSocket servers during HMR
     if (!globalThis.wss) {
-      console.log('🔌 Setting up WebSocket server...');
-      const wss = new WebSocketServer({ server: server.httpServer });
+      // Vite types the dev server loosely (it may be HTTP/2), but in dev it is a plain http.Server
+      const wss = attachWebSocketServer(server.httpServer as http.Server);
       globalThis.wss = wss;
 
-      wss.on('connection', (ws, req) => {
-        // Extract client IP, handle potential proxies if necessary
-        const clientIp = req.headers['x-forwarded-for'] || req.socket.remoteAddress;
-        console.log(`🔌 WebSocket client connected: ${clientIp}`);
-
-        handleWebSocket(ws, req); // Delegate handling to the game logic module
-
-        ws.on('close', (code, reason) => {
-          console.log(`🔌 WebSocket client disconnected: ${clientIp} (Code: ${code}, Reason: ${reason.toString()})`);
-          // handleWebSocket cleanup logic is triggered internally on 'close'
-        });
-
-        ws.on('error', (error) => {
-          console.error(`🔌 WebSocket error for ${clientIp}:`, error);
-        });
-      });
-
-      // Optional: Clean shutdown handling
-      const shutdown = () => {
-        console.log('🔌 Shutting down WebSocket server...');
-        wss.close((err) => {
-          if (err) {
-            console.error('Error closing WebSocket server:', err);
-          } else {
-            console.log('WebSocket server closed.');
-          }
-        });
+      server.httpServer.on('close', () => {
+        void closeWebSocketServer(wss);
         globalThis.wss = undefined; // Clear the global reference
-      };
-
-      server.httpServer.on('close', shutdown);
-      // Consider process signals like SIGTERM, SIGINT if running standalone node server
-      // process.on('SIGTERM', shutdown);
-      // process.on('SIGINT', shutdown);
-
-
-      console.log('✅ WebSocket server configured and listening.');
+      });
     } else {
        console.log('🔌 WebSocket server already running.');
        // Optionally re-attach listeners if needed, though handleWebSocket should manage state
@@ -0,0 +1,62 @@
+import type { TeamLeaderboardEntry, TeamScoring } from '../app/lib/game-protocol';
+
+// Team scoring and balancing rules.
+// Kept separate from the socket handler, like scoring.ts, so they only deal with plain data.
+
+export interface Team {
+  id: string; // Corresponds to Supabase 'teams' table id (UUID)
+  name: string;
+}
+
+interface TeamMember {
+  id: string;
+  score: number;
+  teamId: string | null;
+}
+
+// Members of each team, in team order
+export function getTeamMembers<T extends TeamMember>(teams: Team[], players: T[]) {
+  return teams.map((team) => ({ team, members: players.filter((player) => player.teamId === team.id) }));
+}
+
+// 'sum' rewards big teams; 'average' (rounded) compares teams of different sizes fairly
+export function getTeamScore(memberScores: number[], scoring: TeamScoring) {
+  const total = memberScores.reduce((sum, score) => sum + score, 0);
+  if (scoring === 'sum') return total;
+  return memberScores.length > 0 ? Math.round(total / memberScores.length) : 0;
+}
+
+export function getTeamLeaderboard(teams: Team[], players: TeamMember[], scoring: TeamScoring): TeamLeaderboardEntry[] {
+  const entries = getTeamMembers(teams, players).map(({ team, members }) => ({
+    id: team.id,
+    name: team.name,
+    score: getTeamScore(members.map((member) => member.score), scoring),
+    memberCount: members.length,
+  }));
+  const sorted = entries.sort((a, b) => b.score - a.score);
+  let rank = 0;
+  return sorted.map((entry, index) => {
+    if (index === 0 || sorted[index - 1].score !== entry.score) rank = index + 1;
+    return { ...entry, rank };
+  });
+}
+
+// The team a new or unassigned player should join: the smallest, earliest team on ties
+export function pickSmallestTeam(teams: Team[], players: TeamMember[]): Team | null {
+  let smallest: { team: Team; size: number } | null = null;
+  for (const { team, members } of getTeamMembers(teams, players)) {
+    if (!smallest || members.length < smallest.size) smallest = { team, size: members.length };
+  }
+  return smallest?.team ?? null;
+}
+
+// Spread players evenly over the teams, keeping strong players apart: players are dealt out by
+// descending score, which in the lobby (all scores 0) is simply round-robin.
+export function balanceTeams(teams: Team[], players: { id: string; score: number }[]): Map<string, string> {
+  const assignments = new Map<string, string>();
+  if (teams.length === 0) return assignments;
+  [...players]
+    .sort((a, b) => b.score - a.score)
+    .forEach((player, index) => assignments.set(player.id, teams[index % teams.length].id));
+  return assignments;
+}
@@ -0,0 +1,44 @@
+import type * as http from 'http';
+import type { User } from '@supabase/supabase-js';
+import { getSupabaseSessionFromCookie } from '../app/lib/session.server';
+import { supabaseAdmin } from '../app/lib/supabase-admin.server';
+
+// Authentication for WebSocket connections.
+// The upgrade request carries the same signed `sb_session` cookie as normal page requests,
+// so the user is resolved once during the handshake and looked up later by the message handler.
+
+// Users resolved during the upgrade, keyed by the upgrade request (dropped with the request)
+const connectionUsers = new WeakMap<http.IncomingMessage, User>();
+
+// Resolve the Supabase user for an upgrade request, or null if the request is not authenticated.
+// The access token is re-validated with Supabase so expired or revoked sessions are rejected.
+export async function authenticateUpgradeRequest(req: http.IncomingMessage): Promise<User | null> {
+  const cookie = req.headers.cookie;
+  if (!cookie) {
+    return null;
+  }
+
+  // session.server works on Fetch API requests, so wrap the relevant header
+  const request = new Request(`http://${req.headers.host ?? 'localhost'}${req.url ?? '/'}`, {
+    headers: { Cookie: cookie },
+  });
+  const session = await getSupabaseSessionFromCookie(request);
+  if (!session?.access_token) {
+    return null;
+  }
+
+  const { data, error } = await supabaseAdmin.auth.getUser(session.access_token);
+  if (error || !data.user) {
+    console.warn(`[ws-auth] Rejecting WebSocket session: ${error?.message ?? 'no user for token'}`);
+    return null;
+  }
+  return data.user;
+}
+
+export function setConnectionUser(req: http.IncomingMessage, user: User) {
+  connectionUsers.set(req, user);
+}
+
+export function getConnectionUser(req: http.IncomingMessage): User | null {
+  return connectionUsers.get(req) ?? null;
+}
@@ -0,0 +1,146 @@
+/*
+  # Quizzes Table and Quiz Ownership
+
+  This migration adds the `quizzes` table that `games.quiz_id` and `questions.quiz_id`
+  were always meant to reference, and scopes question access to the quiz owner.
+
+  ## 1. New Tables
+
+  - `quizzes`: A named set of questions owned by an admin.
+    - `id` (uuid): Primary key, automatically generated.
+    - `owner_id` (uuid): Foreign key referencing `auth.users(id)`. Defaults to `auth.uid()`.
+    - `title` (text): Display title of the quiz. 1-100 characters.
+    - `description` (text): Optional description.
+    - `created_at` (timestamptz): Timestamp of creation.
+
+  ## 2. Modified Tables
+
+  - `games`: Adds the `fk_quiz` foreign key on `quiz_id` (ON DELETE SET NULL).
+  - `questions`: Adds the `fk_quiz_questions` foreign key on `quiz_id` (ON DELETE CASCADE).
+  - Existing `quiz_id` values cannot point at a quiz yet, so they are reset to NULL before
+    the constraints are added.
+
+  ## 3. Security
+
+  - `quizzes`: Only admins can create quizzes, and only the owner can read/update/delete them.
+  - `questions`: Replaces "Allow authenticated users to manage questions" with policies that
+    only let the owner of the parent quiz read/create/update/delete its questions.
+    The game server reads questions with the service role key, so players never need read access
+    (which also keeps `correct_option_index` away from them).
+  - `games`: Admins may only create games for quizzes they own (or without a quiz). The final
+    version of this policy is in `zz_final_games_insert_policy.sql`, which runs last.
+    Hosts can only point an existing game at a quiz they own either; that policy is in
+    `zz_final_games_update_policy.sql`.
+*/
+
+-- ==== QUIZZES ====
+
+CREATE TABLE IF NOT EXISTS public.quizzes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  title text NOT NULL CHECK (char_length(title) > 0 AND char_length(title) <= 100),
+  description text,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_quizzes_owner_id ON public.quizzes(owner_id);
+
+ALTER TABLE public.quizzes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow owners to read their quizzes" ON public.quizzes;
+CREATE POLICY "Allow owners to read their quizzes"
+  ON public.quizzes
+  FOR SELECT
+  TO authenticated
+  USING (owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Allow admins to create quizzes" ON public.quizzes;
+CREATE POLICY "Allow admins to create quizzes"
+  ON public.quizzes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    owner_id = auth.uid() AND
+    (auth.jwt() -> 'user_metadata' ->> 'is_admin')::boolean = true
+  );
+
+DROP POLICY IF EXISTS "Allow owners to update their quizzes" ON public.quizzes;
+CREATE POLICY "Allow owners to update their quizzes"
+  ON public.quizzes
+  FOR UPDATE
+  TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Allow owners to delete their quizzes" ON public.quizzes;
+CREATE POLICY "Allow owners to delete their quizzes"
+  ON public.quizzes
+  FOR DELETE
+  TO authenticated
+  USING (owner_id = auth.uid());
+
+
+-- ==== FOREIGN KEYS ====
+
+-- No quiz rows existed before this migration, so any quiz_id value is dangling
+UPDATE public.games SET quiz_id = NULL WHERE quiz_id IS NOT NULL;
+UPDATE public.questions SET quiz_id = NULL WHERE quiz_id IS NOT NULL;
+
+ALTER TABLE public.games DROP CONSTRAINT IF EXISTS fk_quiz;
+ALTER TABLE public.games
+  ADD CONSTRAINT fk_quiz FOREIGN KEY (quiz_id) REFERENCES public.quizzes(id) ON DELETE SET NULL;
+
+ALTER TABLE public.questions DROP CONSTRAINT IF EXISTS fk_quiz_questions;
+ALTER TABLE public.questions
+  ADD CONSTRAINT fk_quiz_questions FOREIGN KEY (quiz_id) REFERENCES public.quizzes(id) ON DELETE CASCADE;
+
+
+-- ==== QUESTIONS ====
+
+DROP POLICY IF EXISTS "Allow authenticated users to manage questions" ON public.questions;
+
+DROP POLICY IF EXISTS "Allow quiz owners to manage their questions" ON public.questions;
+CREATE POLICY "Allow quiz owners to manage their questions"
+  ON public.questions
+  FOR ALL -- SELECT, INSERT, UPDATE, DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.quizzes q
+      WHERE q.id = questions.quiz_id AND q.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1
+      FROM public.quizzes q
+      WHERE q.id = questions.quiz_id AND q.owner_id = auth.uid()
+    )
+  );
+
+
+-- ==== GAMES ====
+
+-- Recreate the admin insert policy so a game can only be created for a quiz the admin owns.
+-- Insert policies are combined with OR, so every older one goes. The unnumbered baseline migrations
+-- sort after this file and recreate the old policy; zz_final_games_insert_policy.sql settles it.
+DROP POLICY IF EXISTS "Allow authenticated users to create games" ON public.games;
+DROP POLICY IF EXISTS "Allow anonymous users to create games" ON public.games;
+DROP POLICY IF EXISTS "Allow authenticated admins to create games" ON public.games;
+CREATE POLICY "Allow authenticated admins to create games"
+  ON public.games
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() IS NOT NULL AND
+    (auth.jwt() -> 'user_metadata' ->> 'is_admin')::boolean = true AND
+    (
+      quiz_id IS NULL OR
+      EXISTS (
+        SELECT 1
+        FROM public.quizzes q
+        WHERE q.id = games.quiz_id AND q.owner_id = auth.uid()
+      )
+    )
+  );
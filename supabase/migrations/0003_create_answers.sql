@@ -0,0 +1,80 @@
+/*
+  # Answers Table
+
+  This migration adds the `answers` table where the game server records every
+  accepted `SUBMIT_ANSWER` together with the points it earned.
+
+  ## 1. New Tables
+
+  - `answers`: One row per player per question in a game.
+    - `id` (uuid): Primary key, automatically generated.
+    - `game_id` (uuid): Foreign key referencing `games(id)`. Cascades on delete.
+    - `player_id` (uuid): Foreign key referencing `players(id)`. Cascades on delete.
+    - `question_id` (uuid): Foreign key referencing `questions(id)`. Set to NULL if the question is deleted later.
+    - `question_index` (int): Position of the question within the game when it was answered.
+    - `selected_option_index` (int): The 0-based option the player picked.
+    - `is_correct` (boolean): Whether the selected option was the correct one.
+    - `latency_ms` (int): Milliseconds between the question being shown and the answer arriving.
+    - `points` (int): Points awarded for this answer.
+    - `answered_at` (timestamptz): Timestamp of when the answer was received.
+  - A unique constraint on (`player_id`, `question_index`) backs up the server's duplicate-answer check.
+
+  ## 2. Modified Tables
+
+  - `players`: Adds `user_id` (uuid, nullable, references `auth.users(id)`) if it is missing. The players
+    policy below needs it, and `refine_player_insert_policy.sql`, which also adds it, sorts after this file.
+
+  ## 3. Security
+
+  - Enable RLS. There are no INSERT/UPDATE/DELETE policies: only the game server (service role) writes answers.
+  - The host of the game can read all answers for their game.
+  - Players can read their own answers.
+*/
+
+ALTER TABLE public.players ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_players_user_id ON public.players(user_id);
+
+CREATE TABLE IF NOT EXISTS public.answers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id uuid NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  player_id uuid NOT NULL REFERENCES public.players(id) ON DELETE CASCADE,
+  question_id uuid REFERENCES public.questions(id) ON DELETE SET NULL,
+  question_index int NOT NULL CHECK (question_index >= 0),
+  selected_option_index int NOT NULL CHECK (selected_option_index >= 0),
+  is_correct boolean NOT NULL,
+  latency_ms int NOT NULL CHECK (latency_ms >= 0),
+  points int NOT NULL DEFAULT 0 CHECK (points >= 0),
+  answered_at timestamptz DEFAULT now() NOT NULL,
+  CONSTRAINT answers_one_per_question UNIQUE (player_id, question_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_answers_game_id ON public.answers(game_id);
+CREATE INDEX IF NOT EXISTS idx_answers_question_id ON public.answers(question_id);
+
+ALTER TABLE public.answers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow host to read answers in their game" ON public.answers;
+CREATE POLICY "Allow host to read answers in their game"
+  ON public.answers
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.games g
+      WHERE g.id = answers.game_id AND g.host_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Allow players to read their own answers" ON public.answers;
+CREATE POLICY "Allow players to read their own answers"
+  ON public.answers
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.players p
+      WHERE p.id = answers.player_id AND p.user_id = auth.uid()
+    )
+  );
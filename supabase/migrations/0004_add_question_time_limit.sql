@@ -0,0 +1,20 @@
+/*
+  # Per-Question Time Limits
+
+  This migration adds a time limit to every question. The game server uses it to set a
+  server-side deadline, close answering automatically and scale points by response time.
+
+  ## 1. Changes
+
+  - **Modified Table:** `questions`
+    - **Column Addition:** `time_limit_seconds` (int, NOT NULL, default 20).
+      Must be between 5 and 240 seconds. Existing questions get the default.
+
+  ## 2. Security
+
+  - No policy changes. The column is covered by the existing quiz owner policies.
+*/
+
+ALTER TABLE public.questions
+  ADD COLUMN IF NOT EXISTS time_limit_seconds int NOT NULL DEFAULT 20
+  CHECK (time_limit_seconds BETWEEN 5 AND 240);
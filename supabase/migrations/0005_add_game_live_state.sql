@@ -0,0 +1,24 @@
+/*
+  # Live Game State Snapshot
+
+  This migration lets the game server survive a restart. Running games only live in the
+  server's memory, so on every phase change (and whenever a question opens) the server
+  writes a snapshot of the live state to the game's row. When a host or player reconnects
+  to a game that is no longer in memory, the server rebuilds it from this snapshot, the
+  `players` scores and the `answers` already given to the current question.
+
+  ## 1. Changes
+
+  - **Modified Table:** `games`
+    - **Column Addition:** `live_state` (jsonb, nullable). Written by the game server only.
+      Holds the phase, current question index, shared counter and the open question's
+      start time and deadline (epoch ms). NULL until the host first connects.
+
+  ## 2. Security
+
+  - No policy changes. The game server writes with the service role key; hosts can already
+    read their own game rows.
+*/
+
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS live_state jsonb;
@@ -0,0 +1,107 @@
+/*
+  # Lobby Moderation
+
+  This migration lets hosts control who is in their game: kick and ban players, lock the
+  lobby against new joins and cap the number of players.
+
+  ## 1. Changes
+
+  - **Modified Table:** `games`
+    - **Column Addition:** `lobby_locked` (boolean, NOT NULL, default false). No new players can join while set.
+    - **Column Addition:** `max_players` (int, nullable). NULL means no limit; otherwise between 1 and 500.
+
+  - **New Table:** `game_bans`: Users the host banned from a game.
+    - `game_id` (uuid): Foreign key referencing `games(id)`. Cascades on delete.
+    - `user_id` (uuid): Foreign key referencing `auth.users(id)`. Cascades on delete.
+    - `banned_at` (timestamptz): When the ban was issued.
+    - Primary key (`game_id`, `user_id`).
+
+  - **New Function:** `can_join_game(game_uuid uuid, user_uuid uuid)`
+    - `SECURITY DEFINER` (like `is_player_in_game`) so the join policy can count players and read bans
+      without recursing into the `players` policies.
+    - True if the game is in the lobby, not locked, not full, not hosted by the user and the user is not banned.
+
+  - **Modified Table:** `players`
+    - **Policy Update:** Replaces every earlier join policy (`"Allow anyone to join a game (create a player)"`,
+      `"Allow authenticated non-admins to join games"` and `"Allow authenticated users to join lobby games"`)
+      with `"Allow authenticated users to join open lobbies"`, which uses `can_join_game`. Insert policies are
+      combined with OR, so the old ones must go. The unnumbered baseline migrations sort after this file and
+      recreate two of them; `zz_final_players_insert_policy.sql` runs last and settles who may insert players.
+
+  ## 2. Security
+
+  - Enable RLS on `game_bans`. Only the game server (service role) writes bans.
+  - The host of a game can read its bans; users can read their own bans.
+  - Kicking deletes the player's row through the game server (service role); there is no DELETE policy.
+*/
+
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS lobby_locked boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS max_players int CHECK (max_players IS NULL OR max_players BETWEEN 1 AND 500);
+
+-- ==== GAME BANS ====
+
+CREATE TABLE IF NOT EXISTS public.game_bans (
+  game_id uuid NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  banned_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (game_id, user_id)
+);
+
+ALTER TABLE public.game_bans ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow hosts to read bans of their games" ON public.game_bans;
+CREATE POLICY "Allow hosts to read bans of their games"
+  ON public.game_bans
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.games g
+      WHERE g.id = game_bans.game_id AND g.host_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Allow users to read their own bans" ON public.game_bans;
+CREATE POLICY "Allow users to read their own bans"
+  ON public.game_bans
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- ==== JOIN POLICY ====
+
+CREATE OR REPLACE FUNCTION public.can_join_game(game_uuid uuid, user_uuid uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.games g
+    WHERE g.id = game_uuid
+      AND g.status = 'lobby'
+      AND NOT g.lobby_locked
+      AND g.host_id IS DISTINCT FROM user_uuid
+      AND (g.max_players IS NULL OR (SELECT count(*) FROM public.players p WHERE p.game_id = g.id) < g.max_players)
+      AND NOT EXISTS (SELECT 1 FROM public.game_bans b WHERE b.game_id = g.id AND b.user_id = user_uuid)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_join_game(uuid, uuid) TO authenticated;
+
+DROP POLICY IF EXISTS "Allow anyone to join a game (create a player)" ON public.players;
+DROP POLICY IF EXISTS "Allow authenticated non-admins to join games" ON public.players;
+DROP POLICY IF EXISTS "Allow authenticated users to join lobby games" ON public.players;
+DROP POLICY IF EXISTS "Allow authenticated users to join open lobbies" ON public.players;
+CREATE POLICY "Allow authenticated users to join open lobbies"
+  ON public.players
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    public.can_join_game(players.game_id, auth.uid())
+  );
@@ -0,0 +1,53 @@
+/*
+  # Nickname Moderation
+
+  This migration adds two optional nickname modes a host can switch on for their game:
+  a host approval queue for new nicknames, and random (generated) nicknames only.
+  The word filter itself runs in the join action.
+
+  ## 1. Changes
+
+  - **Modified Table:** `games`
+    - **Column Addition:** `nickname_approval` (boolean, NOT NULL, default false). New players wait for the host to approve their nickname.
+    - **Column Addition:** `random_nicknames` (boolean, NOT NULL, default false). The join action assigns a generated nickname.
+
+  - **Modified Table:** `players`
+    - **Column Addition:** `approved` (boolean, NOT NULL, default true). False while the nickname waits in the host's approval queue.
+      Only the game server (service role) approves.
+
+  - **Policy Update:** `"Allow authenticated users to join open lobbies"` on `players` now also requires
+    `approved` to be false exactly when the game uses the approval queue, so players cannot skip it.
+    The older join policies are dropped again. `zz_final_players_insert_policy.sql` runs last and drops
+    every join policy: players join through the join action, which enforces the word filter and random
+    nicknames and inserts with the service role key.
+
+  ## 2. Security
+
+  - Players cannot approve themselves: there is no UPDATE policy on `players`.
+*/
+
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS nickname_approval boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS random_nicknames boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.players
+  ADD COLUMN IF NOT EXISTS approved boolean NOT NULL DEFAULT true;
+
+DROP POLICY IF EXISTS "Allow anyone to join a game (create a player)" ON public.players;
+DROP POLICY IF EXISTS "Allow authenticated non-admins to join games" ON public.players;
+DROP POLICY IF EXISTS "Allow authenticated users to join lobby games" ON public.players;
+DROP POLICY IF EXISTS "Allow authenticated users to join open lobbies" ON public.players;
+CREATE POLICY "Allow authenticated users to join open lobbies"
+  ON public.players
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    public.can_join_game(players.game_id, auth.uid()) AND
+    -- Pending exactly when the host reviews nicknames
+    players.approved = NOT EXISTS (
+      SELECT 1
+      FROM public.games g
+      WHERE g.id = players.game_id AND g.nickname_approval
+    )
+  );
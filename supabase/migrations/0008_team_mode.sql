@@ -0,0 +1,69 @@
+/*
+  # Team Mode
+
+  This migration adds teams. In team mode the host defines the teams of a game, players pick
+  one in the lobby (or are assigned by the host or by auto-balancing), and the game server
+  shows a team leaderboard next to the individual one.
+
+  ## 1. Changes
+
+  - **Modified Table:** `games`
+    - **Column Addition:** `team_mode` (boolean, NOT NULL, default false).
+    - **Column Addition:** `team_scoring` (text, NOT NULL, default 'sum'). 'sum' or 'average' of the members' scores.
+    - **Column Addition:** `team_players_choose` (boolean, NOT NULL, default true). Players pick their own team in the lobby.
+
+  - **New Table:** `teams`
+    - `id` (uuid): Primary key.
+    - `game_id` (uuid): Foreign key referencing `games(id)`. Cascades on delete.
+    - `name` (text): 1 to 20 characters, unique per game.
+    - `position` (int): Display order.
+    - `created_at` (timestamptz).
+
+  - **Modified Table:** `players`
+    - **Column Addition:** `team_id` (uuid, nullable). Foreign key referencing `teams(id)`; cleared when the team is deleted.
+
+  ## 2. Security
+
+  - Enable RLS on `teams`. Only the game server (service role) creates, changes and deletes teams
+    and writes `players.team_id`.
+  - The host and the players of a game can read its teams.
+*/
+
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS team_mode boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS team_scoring text NOT NULL DEFAULT 'sum' CHECK (team_scoring IN ('sum', 'average')),
+  ADD COLUMN IF NOT EXISTS team_players_choose boolean NOT NULL DEFAULT true;
+
+-- ==== TEAMS ====
+
+CREATE TABLE IF NOT EXISTS public.teams (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id uuid NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 20),
+  position int NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT teams_unique_name_per_game UNIQUE (game_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_teams_game_id ON public.teams(game_id);
+
+ALTER TABLE public.players
+  ADD COLUMN IF NOT EXISTS team_id uuid REFERENCES public.teams(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_players_team_id ON public.players(team_id);
+
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow host and players to read teams" ON public.teams;
+CREATE POLICY "Allow host and players to read teams"
+  ON public.teams
+  FOR SELECT
+  TO authenticated
+  USING (
+    public.is_player_in_game(teams.game_id, auth.uid())
+    OR EXISTS (
+      SELECT 1
+      FROM public.games g
+      WHERE g.id = teams.game_id AND g.host_id = auth.uid()
+    )
+  );
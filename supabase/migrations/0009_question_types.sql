@@ -0,0 +1,53 @@
+/*
+  # Question Types
+
+  This migration adds question types besides multiple choice: true/false, multi-select with
+  partial credit, numeric answers with a tolerance and short typed answers. The game server
+  scores each type (server/scoring.ts); the solution format is shared in app/lib/question-types.ts.
+
+  ## 1. Changes
+
+  - **Modified Table:** `questions`
+    - **Column Addition:** `question_type` (text, NOT NULL, default 'multiple_choice').
+      One of 'multiple_choice', 'true_false', 'multi_select', 'numeric', 'typed_answer'. Existing questions stay multiple choice.
+    - **Column Addition:** `answer_spec` (jsonb, nullable). The solution of the types that do not fit `correct_option_index`:
+      - multi_select: `{ "correctOptionIndexes": [0, 2] }`
+      - numeric: `{ "value": 42, "tolerance": 0.5 }` (anything within value ± tolerance is correct)
+      - typed_answer: `{ "acceptedAnswers": ["Paris", "Paree"] }` (compared ignoring case and whitespace)
+    - **Column Change:** `correct_option_index` is now nullable; only single choice types use it.
+    - **Constraint Addition:** `questions_answer_matches_type` requires the solution columns the type needs.
+
+  - **Modified Table:** `answers`
+    - **Column Change:** `selected_option_index` is now nullable; only set for single choice answers.
+    - **Column Addition:** `response` (jsonb, nullable). The submitted answer as sent by the player, for every type.
+
+  ## 2. Security
+
+  - No policy changes. `answer_spec` is covered by the existing quiz owner policies on `questions`,
+    so players cannot read solutions; `response` is covered by the existing `answers` policies.
+*/
+
+ALTER TABLE public.questions
+  ADD COLUMN IF NOT EXISTS question_type text NOT NULL DEFAULT 'multiple_choice'
+    CHECK (question_type IN ('multiple_choice', 'true_false', 'multi_select', 'numeric', 'typed_answer')),
+  ADD COLUMN IF NOT EXISTS answer_spec jsonb;
+
+ALTER TABLE public.questions ALTER COLUMN correct_option_index DROP NOT NULL;
+
+ALTER TABLE public.questions DROP CONSTRAINT IF EXISTS questions_answer_matches_type;
+ALTER TABLE public.questions
+  ADD CONSTRAINT questions_answer_matches_type CHECK (
+    CASE question_type
+      WHEN 'multiple_choice' THEN correct_option_index IS NOT NULL
+      WHEN 'true_false' THEN correct_option_index IN (0, 1)
+      WHEN 'multi_select' THEN jsonb_typeof(answer_spec -> 'correctOptionIndexes') = 'array'
+      WHEN 'numeric' THEN jsonb_typeof(answer_spec -> 'value') = 'number' AND jsonb_typeof(answer_spec -> 'tolerance') = 'number'
+      WHEN 'typed_answer' THEN jsonb_typeof(answer_spec -> 'acceptedAnswers') = 'array'
+      ELSE false
+    END
+  );
+
+ALTER TABLE public.answers ALTER COLUMN selected_option_index DROP NOT NULL;
+
+ALTER TABLE public.answers
+  ADD COLUMN IF NOT EXISTS response jsonb;
@@ -0,0 +1,42 @@
+/*
+  # Puzzle Questions
+
+  This migration adds two puzzle question types: putting items in order and matching pairs.
+  Both are stored in their solved state; the game server shuffles them for each game
+  (server/question-arrangement.ts) and scores exact and partial solutions (server/scoring.ts).
+
+  ## 1. Changes
+
+  - **Modified Table:** `questions`
+    - **Constraint Change:** `question_type` also accepts 'ordering' and 'matching'.
+    - **Constraint Change:** `questions_answer_matches_type` requires the solution each new type needs:
+      - ordering: `options` lists at least two items in the correct order; `correct_option_index` stays null.
+      - matching: `options` is the left column and `answer_spec` holds the right column,
+        `{ "matches": ["H2O", "NaCl"] }`, where `matches[i]` belongs to `options[i]`.
+
+  ## 2. Security
+
+  - No policy changes. The pairs live in `answer_spec`, which players cannot read.
+*/
+
+ALTER TABLE public.questions DROP CONSTRAINT IF EXISTS questions_question_type_check;
+ALTER TABLE public.questions
+  ADD CONSTRAINT questions_question_type_check CHECK (
+    question_type IN ('multiple_choice', 'true_false', 'multi_select', 'numeric', 'typed_answer', 'ordering', 'matching')
+  );
+
+ALTER TABLE public.questions DROP CONSTRAINT IF EXISTS questions_answer_matches_type;
+ALTER TABLE public.questions
+  ADD CONSTRAINT questions_answer_matches_type CHECK (
+    CASE question_type
+      WHEN 'multiple_choice' THEN correct_option_index IS NOT NULL
+      WHEN 'true_false' THEN correct_option_index IN (0, 1)
+      WHEN 'multi_select' THEN jsonb_typeof(answer_spec -> 'correctOptionIndexes') = 'array'
+      WHEN 'numeric' THEN jsonb_typeof(answer_spec -> 'value') = 'number' AND jsonb_typeof(answer_spec -> 'tolerance') = 'number'
+      WHEN 'typed_answer' THEN jsonb_typeof(answer_spec -> 'acceptedAnswers') = 'array'
+      WHEN 'ordering' THEN jsonb_array_length(options) >= 2
+      WHEN 'matching' THEN jsonb_typeof(answer_spec -> 'matches') = 'array'
+        AND jsonb_array_length(answer_spec -> 'matches') = jsonb_array_length(options)
+      ELSE false
+    END
+  );
@@ -0,0 +1,55 @@
+/*
+  # Ungraded Slides
+
+  This migration adds slide types with no right answer, for retros and town halls: single and
+  multi-choice polls, word clouds, rating scales and open text. The game server records the
+  responses without scoring them and shows the aggregated results to the host as they arrive.
+
+  ## 1. Changes
+
+  - **Modified Table:** `questions`
+    - **Constraint Change:** `question_type` also accepts 'poll', 'multi_poll', 'word_cloud', 'rating' and 'open_text'.
+    - **Constraint Change:** `questions_answer_matches_type` covers the new types:
+      - poll, multi_poll: `options` lists at least two choices; no solution columns.
+      - rating: `answer_spec` holds the scale, `{ "scale": 5 }` (players rate from 1 to 5).
+      - word_cloud, open_text: no options or solution.
+
+  - **Modified Table:** `answers`
+    - **Column Change:** `is_correct` is now nullable; it is null for responses to ungraded slides (which earn 0 points).
+
+  ## 2. Security
+
+  - No policy changes.
+*/
+
+ALTER TABLE public.questions DROP CONSTRAINT IF EXISTS questions_question_type_check;
+ALTER TABLE public.questions
+  ADD CONSTRAINT questions_question_type_check CHECK (
+    question_type IN (
+      'multiple_choice', 'true_false', 'multi_select', 'numeric', 'typed_answer', 'ordering', 'matching',
+      'poll', 'multi_poll', 'word_cloud', 'rating', 'open_text'
+    )
+  );
+
+ALTER TABLE public.questions DROP CONSTRAINT IF EXISTS questions_answer_matches_type;
+ALTER TABLE public.questions
+  ADD CONSTRAINT questions_answer_matches_type CHECK (
+    CASE question_type
+      WHEN 'multiple_choice' THEN correct_option_index IS NOT NULL
+      WHEN 'true_false' THEN correct_option_index IN (0, 1)
+      WHEN 'multi_select' THEN jsonb_typeof(answer_spec -> 'correctOptionIndexes') = 'array'
+      WHEN 'numeric' THEN jsonb_typeof(answer_spec -> 'value') = 'number' AND jsonb_typeof(answer_spec -> 'tolerance') = 'number'
+      WHEN 'typed_answer' THEN jsonb_typeof(answer_spec -> 'acceptedAnswers') = 'array'
+      WHEN 'ordering' THEN jsonb_array_length(options) >= 2
+      WHEN 'matching' THEN jsonb_typeof(answer_spec -> 'matches') = 'array'
+        AND jsonb_array_length(answer_spec -> 'matches') = jsonb_array_length(options)
+      WHEN 'poll' THEN jsonb_array_length(options) >= 2
+      WHEN 'multi_poll' THEN jsonb_array_length(options) >= 2
+      WHEN 'rating' THEN jsonb_typeof(answer_spec -> 'scale') = 'number'
+      WHEN 'word_cloud' THEN true
+      WHEN 'open_text' THEN true
+      ELSE false
+    END
+  );
+
+ALTER TABLE public.answers ALTER COLUMN is_correct DROP NOT NULL;
@@ -0,0 +1,38 @@
+/*
+  # Question Media
+
+  This migration lets questions and their options carry an image, an audio clip or a video
+  (optionally trimmed with a start and end time). The files themselves live in the app's media
+  store (app/lib/media-store.server.ts): a local directory by default, or the Supabase Storage
+  bucket created here when MEDIA_STORE=supabase. The columns only hold references:
+
+    { "kind": "video", "key": "0b6f...e1.mp4", "startSeconds": 12, "endSeconds": 20 }
+    { "kind": "image", "key": "9d2c...47.png", "alt": "Eiffel Tower at night" }
+
+  ## 1. Changes
+
+  - **Modified Table:** `questions`
+    - **Column Addition:** `media` (jsonb, nullable). Attachment of the question itself.
+    - **Column Addition:** `option_media` (jsonb, NOT NULL, default '[]'). One attachment or null per option,
+      in the order of `options`.
+
+  - **New Storage Bucket:** `question-media` (private).
+
+  ## 2. Security
+
+  - No policy changes on `questions`; the new columns are covered by the existing quiz owner policies.
+  - The bucket is private and has no storage policies: only the app (service role) reads and writes it,
+    and serves files through its /media route to signed-in users.
+*/
+
+ALTER TABLE public.questions
+  ADD COLUMN IF NOT EXISTS media jsonb,
+  ADD COLUMN IF NOT EXISTS option_media jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.questions DROP CONSTRAINT IF EXISTS questions_option_media_is_array;
+ALTER TABLE public.questions
+  ADD CONSTRAINT questions_option_media_is_array CHECK (jsonb_typeof(option_media) = 'array');
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('question-media', 'question-media', false)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,133 @@
+/*
+  # Question Bank
+
+  This migration turns questions into a per-owner question bank. A question now belongs to its author
+  instead of a single quiz, carries a subject, a difficulty and tags to search and filter the bank by,
+  and can be used in any number of the author's quizzes through the new `quiz_questions` table, which
+  also holds each quiz's question order. Deleting a quiz keeps its questions in the bank.
+
+  ## 1. Changes
+
+  - **Modified Table:** `questions`
+    - **Column Addition:** `owner_id` (uuid, NOT NULL, default auth.uid()). Foreign key referencing
+      `auth.users(id)`, cascades on delete. Backfilled with the owner of the question's quiz.
+    - **Column Addition:** `subject` (text, nullable). At most 100 characters.
+    - **Column Addition:** `difficulty` (text, nullable). 'easy', 'medium' or 'hard'.
+    - **Column Addition:** `tags` (text[], NOT NULL, default '{}'). Lower case, at most 10.
+    - **Column Removal:** `quiz_id` and `order`, moved to `quiz_questions`. Questions that belonged to
+      no quiz have no owner to give them and are deleted.
+
+  - **New Table:** `quiz_questions`
+    - `quiz_id` (uuid): Foreign key referencing `quizzes(id)`. Cascades on delete.
+    - `question_id` (uuid): Foreign key referencing `questions(id)`. Cascades on delete.
+    - `order` (int): Position of the question in the quiz.
+    - Primary key (`quiz_id`, `question_id`): a question appears in a quiz at most once.
+
+  ## 2. Security
+
+  - `questions`: Replaces "Allow quiz owners to manage their questions" with policies on `owner_id`.
+    Only admins can create questions, as with quizzes.
+  - Enable RLS on `quiz_questions`. Owners can link their own questions to their own quizzes.
+  - The game server still reads questions with the service role key, so players never need read access.
+*/
+
+-- ==== QUESTIONS ====
+
+ALTER TABLE public.questions
+  ADD COLUMN IF NOT EXISTS owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS subject text CHECK (char_length(subject) <= 100),
+  ADD COLUMN IF NOT EXISTS difficulty text CHECK (difficulty IN ('easy', 'medium', 'hard')),
+  ADD COLUMN IF NOT EXISTS tags text[] NOT NULL DEFAULT '{}' CHECK (cardinality(tags) <= 10);
+
+
+-- ==== QUIZ QUESTIONS ====
+
+CREATE TABLE IF NOT EXISTS public.quiz_questions (
+  quiz_id uuid NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  "order" int NOT NULL DEFAULT 0,
+  PRIMARY KEY (quiz_id, question_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_questions_question_id ON public.quiz_questions(question_id);
+
+-- Move each question's quiz and position over (only while questions.quiz_id still exists, so a rerun is harmless)
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'questions' AND column_name = 'quiz_id'
+  ) THEN
+    UPDATE public.questions qu
+    SET owner_id = q.owner_id
+    FROM public.quizzes q
+    WHERE q.id = qu.quiz_id AND qu.owner_id IS NULL;
+
+    INSERT INTO public.quiz_questions (quiz_id, question_id, "order")
+    SELECT quiz_id, id, "order" FROM public.questions WHERE quiz_id IS NOT NULL
+    ON CONFLICT DO NOTHING;
+
+    DELETE FROM public.questions WHERE owner_id IS NULL;
+  END IF;
+END $$;
+
+-- The old policy refers to quiz_id, so it has to go before the column
+DROP POLICY IF EXISTS "Allow quiz owners to manage their questions" ON public.questions;
+
+ALTER TABLE public.questions DROP COLUMN IF EXISTS quiz_id; -- Also drops fk_quiz_questions and idx_questions_quiz_id
+ALTER TABLE public.questions DROP COLUMN IF EXISTS "order";
+ALTER TABLE public.questions ALTER COLUMN owner_id SET DEFAULT auth.uid();
+ALTER TABLE public.questions ALTER COLUMN owner_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_questions_owner_id ON public.questions(owner_id);
+CREATE INDEX IF NOT EXISTS idx_questions_tags ON public.questions USING gin (tags);
+
+DROP POLICY IF EXISTS "Allow owners to read their questions" ON public.questions;
+CREATE POLICY "Allow owners to read their questions"
+  ON public.questions
+  FOR SELECT
+  TO authenticated
+  USING (owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Allow admins to create questions" ON public.questions;
+CREATE POLICY "Allow admins to create questions"
+  ON public.questions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    owner_id = auth.uid() AND
+    (auth.jwt() -> 'user_metadata' ->> 'is_admin')::boolean = true
+  );
+
+DROP POLICY IF EXISTS "Allow owners to update their questions" ON public.questions;
+CREATE POLICY "Allow owners to update their questions"
+  ON public.questions
+  FOR UPDATE
+  TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Allow owners to delete their questions" ON public.questions;
+CREATE POLICY "Allow owners to delete their questions"
+  ON public.questions
+  FOR DELETE
+  TO authenticated
+  USING (owner_id = auth.uid());
+
+
+-- ==== QUIZ QUESTIONS POLICIES ====
+
+ALTER TABLE public.quiz_questions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow owners to manage their quiz questions" ON public.quiz_questions;
+CREATE POLICY "Allow owners to manage their quiz questions"
+  ON public.quiz_questions
+  FOR ALL -- SELECT, INSERT, UPDATE, DELETE
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.quizzes q WHERE q.id = quiz_questions.quiz_id AND q.owner_id = auth.uid())
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM public.quizzes q WHERE q.id = quiz_questions.quiz_id AND q.owner_id = auth.uid()) AND
+    EXISTS (SELECT 1 FROM public.questions qu WHERE qu.id = quiz_questions.question_id AND qu.owner_id = auth.uid())
+  );
@@ -0,0 +1,55 @@
+/*
+  # Final Games Update Policy
+
+  Migrations run in lexical file order, so `update_auth_rls.sql` runs after the numbered migrations and
+  recreates "Allow host to update their game", which only checks `host_id`. With it a host could point
+  their game at someone else's quiz (`UPDATE games SET quiz_id = ...`), and the game server, which reads
+  questions with the service role key, would load that quiz's questions and correct answers. This file
+  is named to sort after all of them, so the policy it defines is the one in force. Change who may
+  update games here, not in a new numbered migration.
+
+  ## 1. Changes
+
+  - **Modified Table:** `games`
+    - **Policy Update:** Drops `"Allow host to update their game"` and creates
+      `"Allow host to update their game with their own quiz"`.
+
+  ## 2. Security
+
+  - Hosts can only update their own games, and only point them at a quiz they own (or at none).
+  - Update policies are combined with OR, so the migration fails if any other UPDATE policy on
+    `games` is left.
+*/
+
+DROP POLICY IF EXISTS "Allow host to update their game" ON public.games;
+DROP POLICY IF EXISTS "Allow host to update their game with their own quiz" ON public.games;
+CREATE POLICY "Allow host to update their game with their own quiz"
+  ON public.games
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = host_id)
+  WITH CHECK (
+    auth.uid() = host_id AND
+    (
+      quiz_id IS NULL OR
+      EXISTS (
+        SELECT 1
+        FROM public.quizzes q
+        WHERE q.id = games.quiz_id AND q.owner_id = auth.uid()
+      )
+    )
+  );
+
+-- Any other permissive UPDATE (or ALL) policy would let hosts swap in someone else's quiz
+DO $$
+DECLARE
+  other_policies text;
+BEGIN
+  SELECT string_agg(policyname, ', ') INTO other_policies
+  FROM pg_policies
+  WHERE schemaname = 'public' AND tablename = 'games' AND cmd IN ('UPDATE', 'ALL')
+    AND policyname <> 'Allow host to update their game with their own quiz';
+  IF other_policies IS NOT NULL THEN
+    RAISE EXCEPTION 'Unexpected UPDATE policies on public.games: %', other_policies;
+  END IF;
+END $$;
@@ -0,0 +1,46 @@
+/*
+  # Final Players Insert Policy
+
+  Players join through the join action only. It checks the nickname against the word filter, assigns
+  a generated one in "random nicknames only" games, and inserts the row with the service role key.
+  Neither rule can be written as a policy, so any INSERT policy on `players` would let a signed-in user
+  skip them by inserting a row of their own through the REST API.
+
+  Migrations run in lexical file order, so the unnumbered baseline migrations
+  (`refine_player_insert_policy.sql`, `update_auth_rls.sql`) run after the numbered ones and recreate
+  "Allow authenticated users to join lobby games" and "Allow authenticated non-admins to join games".
+  This file is named to sort after all of them, so it decides who may insert players. Change that
+  here, not in a new numbered migration.
+
+  ## 1. Changes
+
+  - **Modified Table:** `players`
+    - **Policy Update:** Drops every INSERT policy (`"Allow anyone to join a game (create a player)"`,
+      `"Allow authenticated users to join lobby games"`, `"Allow authenticated non-admins to join games"`,
+      `"Allow authenticated users to join open lobbies"`).
+
+  ## 2. Security
+
+  - Only the service role inserts players. The join action checks `can_join_game` (in the lobby,
+    not locked, not full, not their own game and not banned) right before the insert, and sets
+    `approved` from the game's nickname approval setting.
+  - The migration fails if any INSERT (or ALL) policy on `players` is left.
+*/
+
+DROP POLICY IF EXISTS "Allow anyone to join a game (create a player)" ON public.players;
+DROP POLICY IF EXISTS "Allow authenticated users to join lobby games" ON public.players;
+DROP POLICY IF EXISTS "Allow authenticated non-admins to join games" ON public.players;
+DROP POLICY IF EXISTS "Allow authenticated users to join open lobbies" ON public.players;
+
+-- Any permissive INSERT (or ALL) policy would bypass the nickname rules of the join action
+DO $$
+DECLARE
+  other_policies text;
+BEGIN
+  SELECT string_agg(policyname, ', ') INTO other_policies
+  FROM pg_policies
+  WHERE schemaname = 'public' AND tablename = 'players' AND cmd IN ('INSERT', 'ALL');
+  IF other_policies IS NOT NULL THEN
+    RAISE EXCEPTION 'Unexpected INSERT policies on public.players: %', other_policies;
+  END IF;
+END $$;